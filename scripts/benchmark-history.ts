@@ -0,0 +1,120 @@
+// Latency of saving a message, as the saveMessage handler does, while the history grows to 50k messages
+//
+// Run with `npm run benchmark:history`. Fails if saving at 50k messages is
+// noticeably slower than saving at 1k, i.e. if saves stop being O(1).
+import { readFileSync, writeFileSync, promises as fs } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { performance } from 'perf_hooks'
+import { createConversationStore } from '../src/main/utils/conversation-store'
+import type { ConversationMetadataStore } from '../src/main/utils/conversation-store'
+import { createMessageLog } from '../src/main/utils/message-log'
+import { createConversation } from '../src/main/utils/conversations'
+import type { ChatMessage } from '../src/types/electron'
+
+const TOTAL_MESSAGES = 50_000
+const CHECKPOINTS = [1_000, 10_000, 25_000, 50_000]
+const SAMPLES_PER_CHECKPOINT = 500
+const CONVERSATION_COUNT = 100
+/** Median save latency at the last checkpoint may be at most this multiple of the first */
+const MAX_LATENCY_GROWTH = 3
+
+const CONTENT = 'The composition leads the eye from the lower left along the diagonal of the shoreline. '.repeat(12)
+
+const createMessage = (index: number): ChatMessage => ({
+  id: `msg_${index}`,
+  role: index % 2 === 0 ? 'user' : 'assistant',
+  content: CONTENT,
+  timestamp: 1_700_000_000_000 + index,
+  ...(index % 10 === 0 && { attachments: [{ hash: index.toString(16).padStart(64, '0'), mimeType: 'image/png' }] })
+})
+
+/**
+ * JSON file store that, like electron-store, reads the file on every get and rewrites it on every set
+ */
+const createFileStore = (filePath: string): ConversationMetadataStore => ({
+  get: (key, defaultValue) => JSON.parse(readFileSync(filePath, 'utf-8'))[key] ?? defaultValue,
+  set: (key, value) => writeFileSync(filePath, JSON.stringify({ ...JSON.parse(readFileSync(filePath, 'utf-8')), [key]: value }, null, '\t'))
+})
+
+const percentile = (values: number[], fraction: number) => {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))]
+}
+
+const formatMs = (ms: number) => `${ms.toFixed(3)} ms`
+
+const run = async () => {
+  const dir = await fs.mkdtemp(join(tmpdir(), 'art-analyst-history-'))
+  const filePath = join(dir, 'messages.jsonl')
+  const log = createMessageLog(filePath, join(dir, 'recovery'))
+  await log.open()
+
+  const storePath = join(dir, 'config.json')
+  await fs.writeFile(storePath, '{}')
+  const conversations = createConversationStore(createFileStore(storePath), log)
+  const storedConversations = Array.from({ length: CONVERSATION_COUNT }, () => {
+    const { messages: _messages, ...conversation } = createConversation('Benchmark')
+    return conversation
+  })
+  conversations.save(storedConversations)
+  const getConversationId = (index: number) => storedConversations[index % CONVERSATION_COUNT].id
+
+  const rows: { messages: number; p50: number; p95: number; pageRead: number }[] = []
+  let saved = 0
+  try {
+    for (const checkpoint of CHECKPOINTS) {
+      // Fill up to the checkpoint, then time individual saves there
+      while (saved < checkpoint - SAMPLES_PER_CHECKPOINT) {
+        await conversations.saveMessage(getConversationId(saved), createMessage(saved))
+        saved++
+      }
+
+      const latencies: number[] = []
+      while (saved < checkpoint) {
+        const start = performance.now()
+        await conversations.saveMessage(getConversationId(saved), createMessage(saved))
+        latencies.push(performance.now() - start)
+        saved++
+      }
+
+      const readStart = performance.now()
+      await log.getPage(getConversationId(0))
+      rows.push({
+        messages: checkpoint,
+        p50: percentile(latencies, 0.5),
+        p95: percentile(latencies, 0.95),
+        pageRead: performance.now() - readStart
+      })
+    }
+
+    await log.close()
+    const reopenStart = performance.now()
+    const reopened = createMessageLog(filePath, join(dir, 'recovery'))
+    await reopened.open()
+    const reopenMs = performance.now() - reopenStart
+    const { size } = await fs.stat(filePath)
+    await reopened.close()
+
+    console.log(`Message save latency (${SAMPLES_PER_CHECKPOINT} saves per checkpoint)\n`)
+    console.log('messages   save p50     save p95     page read')
+    for (const row of rows) {
+      console.log(`${String(row.messages).padEnd(11)}${formatMs(row.p50).padEnd(13)}${formatMs(row.p95).padEnd(13)}${formatMs(row.pageRead)}`)
+    }
+    console.log(`\nReopening ${TOTAL_MESSAGES} messages (${(size / 1024 / 1024).toFixed(1)} MB) took ${formatMs(reopenMs)}`)
+
+    const growth = rows[rows.length - 1].p50 / rows[0].p50
+    console.log(`Median save latency at ${TOTAL_MESSAGES} is ${growth.toFixed(2)}x the latency at ${CHECKPOINTS[0]}`)
+    if (growth > MAX_LATENCY_GROWTH) {
+      console.error(`Save latency grew more than ${MAX_LATENCY_GROWTH}x`)
+      process.exitCode = 1
+    }
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true })
+  }
+}
+
+run().catch(error => {
+  console.error('Benchmark failed:', error)
+  process.exitCode = 1
+})
@@ -4,11 +4,118 @@
 /**
  * Storage & History Constants
  */
-/** Maximum number of messages to store in chat history */
-export const MAX_CHAT_HISTORY_SIZE = 1000
+/** Directory under userData holding the message log */
+export const HISTORY_DIRECTORY = 'history'
 
-/** Whitelisted store keys for security */
-export const ALLOWED_STORE_KEYS = ['chatHistory', 'windowState', 'settings'] as const
+/** Append-only message log file (one JSON record per line) */
+export const MESSAGE_LOG_FILE = 'messages.jsonl'
+
+/** Messages loaded per chat history page */
+export const CHAT_HISTORY_PAGE_SIZE = 50
+
+/** Largest chat history page a caller may request */
+export const MAX_CHAT_HISTORY_PAGE_SIZE = 500
+
+/** Message log size below which it is never compacted (bytes) */
+export const MESSAGE_LOG_COMPACT_MIN_BYTES = 1024 * 1024
+
+/** Share of dead lines (deleted or replaced messages) that triggers compaction */
+export const MESSAGE_LOG_COMPACT_RATIO = 0.5
+
+/** Whitelisted store keys for security ('chatHistory' is only read for migration) */
+export const ALLOWED_STORE_KEYS = [
+  'conversations',
+  'chatHistory',
+  'windowState',
+  'settings',
+  'promptTemplates',
+  'analysisQueue',
+  'schemaVersion'
+] as const
+
+/** Current store schema version; stores written by older versions are migrated at startup */
+export const STORE_SCHEMA_VERSION = 2
+
+/** Directory under userData holding pre-migration snapshots and quarantined records */
+export const RECOVERY_DIRECTORY = 'recovery'
+
+/** Title given to a conversation before one is generated */
+export const DEFAULT_CONVERSATION_TITLE = 'New Chat'
+
+/** Maximum conversation title length (characters) */
+export const MAX_CONVERSATION_TITLE_LENGTH = 80
+
+/**
+ * Prompt Template Constants
+ */
+/** Format version written to exported template packs */
+export const PROMPT_TEMPLATE_PACK_VERSION = 1
+
+/** Maximum number of user-defined prompt templates */
+export const MAX_PROMPT_TEMPLATES = 200
+
+/**
+ * Search Constants
+ */
+/** Maximum number of search hits returned */
+export const SEARCH_RESULT_LIMIT = 50
+
+/** Approximate length of the text excerpt shown for each hit (characters) */
+export const SEARCH_SNIPPET_LENGTH = 160
+
+/** Delay after the last keystroke before the sidebar searches (ms) */
+export const SEARCH_DEBOUNCE_MS = 200
+
+/**
+ * Backup Constants
+ */
+/** Identifies a file as an Art Analyst backup archive */
+export const BACKUP_FORMAT_ID = 'art-analyst-backup'
+
+/** Schema version written to backup manifests; archives from newer versions are refused (2 streams images as JSON lines) */
+export const BACKUP_SCHEMA_VERSION = 2
+
+/** File extension of backup archives (gzip-compressed JSON lines) */
+export const BACKUP_FILE_EXTENSION = 'artbackup'
+
+/**
+ * AI Provider Constants
+ */
+/** Gemini model used when GEMINI_MODEL is not set */
+export const DEFAULT_GEMINI_MODEL = 'gemini-1.5-flash'
+
+/** Gemini REST API base URL (used for model listing) */
+export const GEMINI_API_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta'
+
+/** Local model server URL used when LOCAL_AI_URL is not set (Ollama default port) */
+export const DEFAULT_LOCAL_AI_URL = 'http://localhost:11434'
+
+/** Local model used when LOCAL_AI_MODEL is not set */
+export const DEFAULT_LOCAL_AI_MODEL = 'llava'
+
+/** Attempts made for an analysis that fails with a transient error (rate limit, network, overloaded service) */
+export const AI_RETRY_MAX_ATTEMPTS = 3
+
+/** Backoff before the first retry; doubles on every further attempt (milliseconds) */
+export const AI_RETRY_BASE_DELAY_MS = 1000
+
+/** Longest wait before a retry; a rate limit asking for more is reported instead (milliseconds) */
+export const AI_RETRY_MAX_DELAY_MS = 30000
+
+/** Directory under userData holding cached analysis answers */
+export const RESPONSE_CACHE_DIRECTORY = 'response-cache'
+
+/** Size limit of the response cache; least recently used answers are evicted beyond it (bytes) */
+export const RESPONSE_CACHE_MAX_BYTES = 20 * 1024 * 1024
+
+/** Maximum number of analyses waiting in the offline queue */
+export const MAX_QUEUED_ANALYSES = 50
+
+/** Wait before the queue tries again after the AI could not be reached (milliseconds) */
+export const ANALYSIS_QUEUE_RETRY_DELAY_MS = 60 * 1000
+
+/** URL schemes that links in AI answers may open in the external browser */
+export const EXTERNAL_LINK_PROTOCOLS = ['http:', 'https:', 'mailto:'] as const
 
 /**
  * Window Management Constants
@@ -46,11 +153,44 @@ export const MAX_FILE_SIZE_BYTES = 10 * 1024 * 1024
 /** Maximum file size display string */
 export const MAX_FILE_SIZE_DISPLAY = '10MB'
 
+/** Maximum number of images attached to a single analysis request */
+export const MAX_IMAGES_PER_REQUEST = 6
+
+/** Long edge images are downsized to before analysis unless changed in settings (pixels) */
+export const DEFAULT_IMAGE_LONG_EDGE = 2048
+
+/** Smallest long edge the setting accepts (pixels) */
+export const MIN_IMAGE_LONG_EDGE = 256
+
+/** Largest long edge the setting accepts (pixels) */
+export const MAX_IMAGE_LONG_EDGE = 8192
+
+/** JPEG quality used when re-encoding images for analysis (0-100) */
+export const PREPROCESS_JPEG_QUALITY = 85
+
+/** Number of dominant colors extracted from an image */
+export const PALETTE_COLOR_COUNT = 6
+
+/** Images are downscaled to this many pixels on the long edge before clustering */
+export const PALETTE_SAMPLE_SIZE = 100
+
+/** Maximum k-means iterations when clustering palette colors */
+export const PALETTE_MAX_ITERATIONS = 12
+
 /** Bytes per kilobyte conversion factor */
 export const BYTES_PER_KB = 1024
 
-/** Allowed image MIME types */
-export const ALLOWED_IMAGE_TYPES = [
+/** Directory under userData holding content-addressed images */
+export const IMAGE_STORE_DIRECTORY = 'images'
+
+/** Custom protocol used by the renderer to display stored images */
+export const IMAGE_PROTOCOL_SCHEME = 'art-image'
+
+/** Minimum age before an unreferenced image may be garbage-collected (milliseconds) */
+export const IMAGE_GC_GRACE_PERIOD_MS = 5 * 60 * 1000
+
+/** Image MIME types the model accepts as they are */
+export const MODEL_IMAGE_TYPES = [
   'image/jpeg',
   'image/jpg', 
   'image/png',
@@ -58,6 +198,22 @@ export const ALLOWED_IMAGE_TYPES = [
   'image/webp'
 ] as const
 
+/** Image MIME types accepted from the user but converted in the main process before analysis */
+export const CONVERTED_IMAGE_TYPES = [
+  'image/tiff',
+  'image/bmp',
+  'image/avif',
+  'image/heic',
+  'image/heif',
+  'image/svg+xml'
+] as const
+
+/** Allowed image MIME types */
+export const ALLOWED_IMAGE_TYPES = [...MODEL_IMAGE_TYPES, ...CONVERTED_IMAGE_TYPES] as const
+
+/** Time allowed for decoding one image in the hidden conversion window (milliseconds) */
+export const IMAGE_CONVERSION_TIMEOUT_MS = 30 * 1000
+
 /**
  * Time Constants (in milliseconds)
  */
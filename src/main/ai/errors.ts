@@ -0,0 +1,167 @@
+// Classification of provider failures into the typed AI errors of types/errors
+import {
+  GoogleGenerativeAIAbortError,
+  GoogleGenerativeAIError,
+  GoogleGenerativeAIFetchError,
+  GoogleGenerativeAIResponseError,
+  HarmCategory,
+  HarmProbability
+} from '@google/generative-ai'
+import type { EnhancedGenerateContentResponse, SafetyRating } from '@google/generative-ai'
+import type { SafetyCategory } from '../../types/electron'
+import {
+  ContentTooLargeError,
+  InvalidApiKeyError,
+  ModelNotFoundError,
+  NetworkError,
+  RateLimitError,
+  SafetyBlockError,
+  ServiceUnavailableError
+} from '../../types/errors'
+
+/** Settings category for each Gemini harm category */
+const SAFETY_CATEGORIES: Partial<Record<HarmCategory, SafetyCategory>> = {
+  [HarmCategory.HARM_CATEGORY_HARASSMENT]: 'harassment',
+  [HarmCategory.HARM_CATEGORY_HATE_SPEECH]: 'hateSpeech',
+  [HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT]: 'sexuallyExplicit',
+  [HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT]: 'dangerousContent'
+}
+
+/** Error codes Node's fetch reports for connections that failed or timed out */
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'ENETUNREACH',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT',
+  'UND_ERR_SOCKET'
+])
+
+const CONTENT_TOO_LARGE_PATTERN = /exceeds the maximum number of tokens|payload size exceeds|request too large|too many tokens/i
+
+/**
+ * Parse a retry delay given as seconds, e.g. "37s" (Gemini RetryInfo) or "37" (Retry-After header)
+ */
+const parseRetryDelay = (value: string | null | undefined): number | undefined => {
+  const seconds = value ? parseFloat(value) : NaN
+  return Number.isFinite(seconds) && seconds >= 0 ? Math.round(seconds * 1000) : undefined
+}
+
+/**
+ * Classify a failed HTTP response by status code
+ * @param status - HTTP status
+ * @param message - Error message to keep
+ * @param modelName - Model the request was for
+ * @param retryAfter - Retry-After header value, if any
+ * @returns Classified error, or null when the status says nothing specific
+ */
+export const classifyHttpStatus = (
+  status: number,
+  message: string,
+  modelName: string,
+  retryAfter?: string | null
+): Error | null => {
+  if (status === 401 || status === 403) return new InvalidApiKeyError(message)
+  if (status === 404) return new ModelNotFoundError(message, modelName)
+  if (status === 413 || CONTENT_TOO_LARGE_PATTERN.test(message)) return new ContentTooLargeError(message)
+  if (status === 429) return new RateLimitError(message, parseRetryDelay(retryAfter))
+  if (status >= 500 && status <= 504) return new ServiceUnavailableError(message)
+  return null
+}
+
+/**
+ * Classify a fetch that failed before any response arrived
+ * @returns NetworkError for connection failures and timeouts, otherwise the error unchanged
+ */
+export const classifyNetworkError = (error: unknown): unknown => {
+  const cause = error instanceof Error ? (error as Error & { cause?: { code?: string } }).cause : undefined
+  if (cause?.code && NETWORK_ERROR_CODES.has(cause.code)) {
+    return new NetworkError(`The AI provider could not be reached (${cause.code})`)
+  }
+  if (error instanceof TypeError && error.message === 'fetch failed') {
+    return new NetworkError()
+  }
+  return error
+}
+
+/**
+ * Safety categories rated as the reason for a block
+ */
+const getBlockedCategories = (ratings: SafetyRating[] = []): SafetyCategory[] => {
+  const flagged = ratings.filter(rating =>
+    (rating as SafetyRating & { blocked?: boolean }).blocked ||
+    rating.probability === HarmProbability.HIGH ||
+    rating.probability === HarmProbability.MEDIUM
+  )
+  return Array.from(new Set(flagged.flatMap(rating => SAFETY_CATEGORIES[rating.category] ?? [])))
+}
+
+const classifyBlockedResponse = (error: GoogleGenerativeAIResponseError<EnhancedGenerateContentResponse>) => {
+  const response = error.response
+  const candidate = response?.candidates?.[0]
+  if (response?.promptFeedback?.blockReason) {
+    return new SafetyBlockError(
+      `The prompt was blocked (${response.promptFeedback.blockReason})`,
+      getBlockedCategories(response.promptFeedback.safetyRatings)
+    )
+  }
+  if (candidate?.finishReason === 'SAFETY') {
+    return new SafetyBlockError('The answer was blocked by safety filters', getBlockedCategories(candidate.safetyRatings))
+  }
+  return error
+}
+
+/**
+ * Find an entry of a Google RPC error details list by its type suffix, e.g. 'RetryInfo'
+ */
+const findErrorDetail = (details: unknown[] | undefined, type: string) =>
+  details?.find((detail): detail is Record<string, unknown> =>
+    typeof detail === 'object' && detail !== null && String((detail as Record<string, unknown>)['@type']).endsWith(type)
+  )
+
+const classifyFetchError = (error: GoogleGenerativeAIFetchError, modelName: string) => {
+  const details = error.errorDetails as unknown[] | undefined
+  const reason = findErrorDetail(details, 'ErrorInfo')?.reason
+  if (reason === 'API_KEY_INVALID' || /API key not valid/i.test(error.message)) {
+    return new InvalidApiKeyError()
+  }
+
+  if (error.status === 429) {
+    const retryDelay = findErrorDetail(details, 'RetryInfo')?.retryDelay
+    // Per-day quotas don't reset within a retry window
+    const violations = findErrorDetail(details, 'QuotaFailure')?.violations as { quotaId?: string }[] | undefined
+    const quotaExhausted = violations?.some(violation => /PerDay/i.test(violation.quotaId ?? '')) ?? false
+    return new RateLimitError(
+      quotaExhausted ? 'The daily AI quota is used up' : 'AI provider rate limit reached',
+      parseRetryDelay(typeof retryDelay === 'string' ? retryDelay : undefined),
+      quotaExhausted
+    )
+  }
+  if (error.status === 404) {
+    return new ModelNotFoundError(`Model "${modelName}" was not found`, modelName)
+  }
+
+  return classifyHttpStatus(error.status ?? 0, error.message, modelName) ?? error
+}
+
+/**
+ * Classify an error thrown by the Gemini SDK
+ *
+ * Cancellations and errors that match no class are returned unchanged.
+ * @param error - Error thrown while calling Gemini
+ * @param modelName - Model the request was for
+ */
+export const classifyGeminiError = (error: unknown, modelName: string): unknown => {
+  if (error instanceof GoogleGenerativeAIAbortError) return error
+  if (error instanceof GoogleGenerativeAIFetchError) return classifyFetchError(error, modelName)
+  if (error instanceof GoogleGenerativeAIResponseError) return classifyBlockedResponse(error)
+  // The SDK rethrows failed connections as a plain error naming the URL
+  if (error instanceof GoogleGenerativeAIError && /Error fetching from/.test(error.message)) {
+    return new NetworkError()
+  }
+  return classifyNetworkError(error)
+}
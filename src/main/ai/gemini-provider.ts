@@ -0,0 +1,119 @@
+// Google Gemini implementation of the AI provider interface
+import { GoogleGenerativeAI, HarmBlockThreshold, HarmCategory } from '@google/generative-ai'
+import type { GenerationConfig, ResponseSchema } from '@google/generative-ai'
+import type { AiProvider, AiRequest } from './provider'
+import type { SafetyCategory, Settings } from '../../types/electron'
+import { buildChatContents, buildParts } from '../utils/chat-history'
+import { classifyGeminiError, classifyHttpStatus } from './errors'
+import { GEMINI_API_BASE_URL } from '../../config/constants'
+
+/** Gemini harm category for each configurable safety setting */
+const HARM_CATEGORIES: Record<SafetyCategory, HarmCategory> = {
+  harassment: HarmCategory.HARM_CATEGORY_HARASSMENT,
+  hateSpeech: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+  sexuallyExplicit: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+  dangerousContent: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT
+}
+
+/**
+ * Create a provider backed by the Google Generative AI SDK
+ * @param apiKey - Gemini API key
+ * @param settings - Generation settings, with modelName already resolved (e.g. 'gemini-1.5-flash')
+ * @returns AiProvider talking to Gemini
+ */
+export const createGeminiProvider = (apiKey: string, settings: Settings): AiProvider => {
+  const { modelName } = settings
+  const generationConfig: GenerationConfig = {
+    temperature: settings.temperature,
+    topP: settings.topP,
+    topK: settings.topK,
+    maxOutputTokens: settings.maxOutputTokens
+  }
+  const model = new GoogleGenerativeAI(apiKey).getGenerativeModel({
+    model: modelName,
+    generationConfig,
+    safetySettings: (Object.keys(HARM_CATEGORIES) as SafetyCategory[]).map(category => ({
+      category: HARM_CATEGORIES[category],
+      threshold: settings.safetyThresholds[category] as HarmBlockThreshold
+    })),
+    ...(settings.systemInstruction.trim() && { systemInstruction: settings.systemInstruction })
+  })
+
+  // Replay the conversation so far as chat history and send the new prompt as the last turn
+  const startChat = (request: AiRequest) => {
+    const contents = buildChatContents(request.history, buildParts(request.prompt, request.images))
+    const chat = model.startChat({
+      history: contents.slice(0, -1),
+      // Chat params replace the model's generation config, so JSON mode has to extend it
+      ...(request.responseSchema && {
+        generationConfig: {
+          ...generationConfig,
+          responseMimeType: 'application/json',
+          responseSchema: request.responseSchema as unknown as ResponseSchema
+        }
+      })
+    })
+    return { chat, parts: contents[contents.length - 1].parts }
+  }
+
+  return {
+    id: 'gemini',
+    modelName,
+
+    analyze: async (request) => {
+      try {
+        const { chat, parts } = startChat(request)
+        const result = await chat.sendMessage(parts, { signal: request.signal })
+        return result.response.text()
+      } catch (error) {
+        throw classifyGeminiError(error, modelName)
+      }
+    },
+
+    stream: async (request, onChunk) => {
+      try {
+        const { chat, parts } = startChat(request)
+        const result = await chat.sendMessageStream(parts, { signal: request.signal })
+
+        // Forward each chunk as it arrives while accumulating the full answer
+        let text = ''
+        for await (const chunk of result.stream) {
+          const chunkText = chunk.text()
+          if (chunkText) {
+            text += chunkText
+            onChunk(chunkText)
+          }
+        }
+        return text
+      } catch (error) {
+        throw classifyGeminiError(error, modelName)
+      }
+    },
+
+    listModels: async () => {
+      // The SDK has no model listing, so query the REST endpoint directly
+      const response = await fetch(`${GEMINI_API_BASE_URL}/models?key=${encodeURIComponent(apiKey)}`)
+      if (!response.ok) {
+        const message = `Failed to list Gemini models (HTTP ${response.status})`
+        // An invalid key is reported as 400 API_KEY_INVALID rather than 401
+        const body = await response.text().catch(() => '')
+        throw /API_KEY_INVALID|API key not valid/.test(body)
+          ? classifyHttpStatus(401, message, modelName)
+          : classifyHttpStatus(response.status, message, modelName) ?? new Error(message)
+      }
+      const body = await response.json() as {
+        models?: { name: string; supportedGenerationMethods?: string[] }[]
+      }
+      return (body.models ?? [])
+        .filter(entry => entry.supportedGenerationMethods?.includes('generateContent'))
+        .map(entry => entry.name.replace(/^models\//, ''))
+    },
+
+    getStatus: () => ({
+      isInitialized: true,
+      hasApiKey: true,
+      modelName,
+      provider: 'gemini'
+    })
+  }
+}
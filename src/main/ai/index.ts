@@ -0,0 +1,62 @@
+// AI provider selection from the environment configuration
+import type { AiProviderId, AiStatus, LocalAiApi, Settings } from '../../types/electron'
+import type { AiProvider } from './provider'
+import { createGeminiProvider } from './gemini-provider'
+import { createLocalProvider } from './local-provider'
+import { DEFAULT_GEMINI_MODEL, DEFAULT_LOCAL_AI_URL, DEFAULT_LOCAL_AI_MODEL } from '../../config/constants'
+
+export type { AiProvider, AiRequest } from './provider'
+
+/**
+ * Which provider the environment asks for (AI_PROVIDER, defaults to Gemini)
+ */
+export const getConfiguredProviderId = (): AiProviderId => {
+  return process.env.AI_PROVIDER === 'local' ? 'local' : 'gemini'
+}
+
+/**
+ * Resolve the model to use: the one chosen in settings, else the environment, else the built-in default
+ */
+export const resolveModelName = (settings: Settings): string => {
+  if (settings.modelName) {
+    return settings.modelName
+  }
+  return getConfiguredProviderId() === 'local'
+    ? process.env.LOCAL_AI_MODEL || DEFAULT_LOCAL_AI_MODEL
+    : process.env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL
+}
+
+/**
+ * Create the configured AI provider
+ * @param geminiApiKey - Gemini API key (stored in the app or from .env)
+ * @param settings - Generation settings applied to every request
+ * @returns The provider, or null when it cannot be created (e.g. Gemini without an API key)
+ */
+export const createAiProvider = (geminiApiKey: string | null, settings: Settings): AiProvider | null => {
+  const resolvedSettings = { ...settings, modelName: resolveModelName(settings) }
+
+  if (getConfiguredProviderId() === 'local') {
+    const api: LocalAiApi = process.env.LOCAL_AI_API === 'openai' ? 'openai' : 'ollama'
+    return createLocalProvider({
+      baseUrl: process.env.LOCAL_AI_URL || DEFAULT_LOCAL_AI_URL,
+      api,
+      apiKey: process.env.LOCAL_AI_API_KEY,
+      settings: resolvedSettings
+    })
+  }
+
+  if (!geminiApiKey) {
+    return null
+  }
+  return createGeminiProvider(geminiApiKey, resolvedSettings)
+}
+
+/**
+ * Status reported when no provider could be created
+ */
+export const getUnavailableStatus = (settings: Settings): Omit<AiStatus, 'apiKeySource'> => ({
+  isInitialized: false,
+  hasApiKey: false,
+  modelName: resolveModelName(settings),
+  provider: getConfiguredProviderId()
+})
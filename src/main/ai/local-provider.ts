@@ -0,0 +1,202 @@
+// Local HTTP implementation of the AI provider interface (OpenAI-compatible or Ollama)
+import type { AiProvider, AiRequest } from './provider'
+import type { LocalAiApi, Settings } from '../../types/electron'
+import { classifyHttpStatus, classifyNetworkError } from './errors'
+
+/** Connection details for a local model server */
+export interface LocalProviderConfig {
+  /** Server base URL, e.g. http://localhost:11434 */
+  baseUrl: string
+  /** Wire protocol spoken by the server */
+  api: LocalAiApi
+  /** Optional bearer token for OpenAI-compatible servers that require one */
+  apiKey?: string
+  /** Generation settings, with modelName already resolved (safety thresholds do not apply) */
+  settings: Settings
+}
+
+/**
+ * Build the chat messages for an OpenAI-compatible /v1/chat/completions request
+ */
+const buildOpenAiMessages = (request: AiRequest, systemInstruction: string) => {
+  const toContent = (text: string, images: AiRequest['images']) => [
+    ...(text.trim() ? [{ type: 'text', text }] : []),
+    ...images.map(image => ({
+      type: 'image_url',
+      image_url: { url: `data:${image.mimeType};base64,${image.data}` }
+    }))
+  ]
+
+  return [
+    ...(systemInstruction.trim() ? [{ role: 'system', content: systemInstruction }] : []),
+    ...request.history.map(turn => ({ role: turn.role, content: toContent(turn.content, turn.images) })),
+    { role: 'user', content: toContent(request.prompt, request.images) }
+  ]
+}
+
+/**
+ * Build the chat messages for an Ollama /api/chat request
+ */
+const buildOllamaMessages = (request: AiRequest, systemInstruction: string) => [
+  ...(systemInstruction.trim() ? [{ role: 'system', content: systemInstruction }] : []),
+  ...request.history.map(turn => ({
+    role: turn.role,
+    content: turn.content,
+    ...(turn.images.length > 0 && { images: turn.images.map(image => image.data) })
+  })),
+  {
+    role: 'user',
+    content: request.prompt,
+    ...(request.images.length > 0 && { images: request.images.map(image => image.data) })
+  }
+]
+
+/**
+ * Read a streamed response body line by line
+ * @param response - Fetch response with a streaming body
+ * @param onLine - Called with each non-empty line
+ */
+const readLines = async (response: Response, onLine: (line: string) => void) => {
+  if (!response.body) {
+    throw new Error('Local AI server returned an empty response')
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffered = ''
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    buffered += decoder.decode(value, { stream: !done })
+
+    const lines = buffered.split('\n')
+    buffered = done ? '' : lines.pop() ?? ''
+    for (const line of lines) {
+      if (line.trim()) onLine(line.trim())
+    }
+
+    if (done) break
+  }
+}
+
+/**
+ * Create a provider talking to a local model server over HTTP
+ * @param config - Server URL, protocol and model
+ * @returns AiProvider for the local server
+ */
+export const createLocalProvider = (config: LocalProviderConfig): AiProvider => {
+  const { settings } = config
+  const baseUrl = config.baseUrl.replace(/\/+$/, '')
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` })
+  }
+
+  const post = async (path: string, body: unknown, signal?: AbortSignal) => {
+    let response: Response
+    try {
+      response = await fetch(`${baseUrl}${path}`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body),
+        signal
+      })
+    } catch (error) {
+      throw classifyNetworkError(error)
+    }
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '')
+      const message = `Local AI server responded with HTTP ${response.status}${detail ? `: ${detail}` : ''}`
+      throw classifyHttpStatus(response.status, message, settings.modelName, response.headers.get('retry-after')) ?? new Error(message)
+    }
+    return response
+  }
+
+  const stream = async (request: AiRequest, onChunk: (text: string) => void) => {
+    let text = ''
+    const append = (chunkText?: string) => {
+      if (chunkText) {
+        text += chunkText
+        onChunk(chunkText)
+      }
+    }
+
+    if (config.api === 'ollama') {
+      const response = await post('/api/chat', {
+        model: settings.modelName,
+        messages: buildOllamaMessages(request, settings.systemInstruction),
+        stream: true,
+        // Ollama accepts a JSON schema as the output format
+        ...(request.responseSchema && { format: request.responseSchema }),
+        options: {
+          temperature: settings.temperature,
+          top_p: settings.topP,
+          top_k: settings.topK,
+          num_predict: settings.maxOutputTokens
+        }
+      }, request.signal)
+      // Ollama streams newline-delimited JSON objects
+      await readLines(response, line => {
+        const chunk = JSON.parse(line) as { message?: { content?: string }; error?: string }
+        if (chunk.error) throw new Error(chunk.error)
+        append(chunk.message?.content)
+      })
+    } else {
+      const response = await post('/v1/chat/completions', {
+        model: settings.modelName,
+        messages: buildOpenAiMessages(request, settings.systemInstruction),
+        stream: true,
+        ...(request.responseSchema && { response_format: { type: 'json_object' } }),
+        temperature: settings.temperature,
+        top_p: settings.topP,
+        max_tokens: settings.maxOutputTokens
+      }, request.signal)
+      // OpenAI-compatible servers stream server-sent events
+      await readLines(response, line => {
+        if (!line.startsWith('data:')) return
+        const data = line.slice('data:'.length).trim()
+        if (data === '[DONE]') return
+        const chunk = JSON.parse(data) as { choices?: { delta?: { content?: string } }[] }
+        append(chunk.choices?.[0]?.delta?.content)
+      })
+    }
+
+    return text
+  }
+
+  return {
+    id: 'local',
+    modelName: settings.modelName,
+
+    analyze: (request) => stream(request, () => {}),
+
+    stream,
+
+    listModels: async () => {
+      // Classified like analysis failures, so a server that isn't running shows as unreachable
+      let response: Response
+      try {
+        response = await fetch(`${baseUrl}${config.api === 'ollama' ? '/api/tags' : '/v1/models'}`, { headers })
+      } catch (error) {
+        throw classifyNetworkError(error)
+      }
+      if (!response.ok) {
+        const message = `Failed to list local models (HTTP ${response.status})`
+        throw classifyHttpStatus(response.status, message, settings.modelName, response.headers.get('retry-after')) ?? new Error(message)
+      }
+      if (config.api === 'ollama') {
+        const body = await response.json() as { models?: { name: string }[] }
+        return (body.models ?? []).map(entry => entry.name)
+      }
+      const body = await response.json() as { data?: { id: string }[] }
+      return (body.data ?? []).map(entry => entry.id)
+    },
+
+    getStatus: () => ({
+      isInitialized: true,
+      hasApiKey: !!config.apiKey,
+      modelName: settings.modelName,
+      provider: 'local'
+    })
+  }
+}
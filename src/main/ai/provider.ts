@@ -0,0 +1,36 @@
+// AI provider abstraction shared by every model backend
+import type { AiProviderId, AiStatus, ImagePayload } from '../../types/electron'
+import type { ResolvedTurn } from '../utils/chat-history'
+
+/** Provider-neutral analysis request with images already loaded */
+export interface AiRequest {
+  prompt: string
+  images: ImagePayload[]
+  history: ResolvedTurn[]
+  /** When set, ask for a JSON response matching this schema (OpenAPI subset) */
+  responseSchema?: Record<string, unknown>
+  /** Aborts the underlying network call when the user cancels */
+  signal?: AbortSignal
+}
+
+/**
+ * Common interface implemented by every AI backend
+ *
+ * Implementations throw on failure; callers turn errors into AnalysisResult.
+ */
+export interface AiProvider {
+  readonly id: AiProviderId
+  readonly modelName: string
+
+  /** Run a request and resolve with the complete response text */
+  analyze: (request: AiRequest) => Promise<string>
+
+  /** Run a request, calling onChunk with each piece of text as it is generated */
+  stream: (request: AiRequest, onChunk: (text: string) => void) => Promise<string>
+
+  /** List the model names the backend can serve */
+  listModels: () => Promise<string[]>
+
+  /** Report the provider's current status (the caller adds where the key came from) */
+  getStatus: () => Omit<AiStatus, 'apiKeySource'>
+}
@@ -0,0 +1,75 @@
+// Automatic retries of AI requests that failed with a transient error
+import { isClassifiedAiError, RateLimitError } from '../../types/errors'
+import { AI_RETRY_MAX_ATTEMPTS, AI_RETRY_BASE_DELAY_MS, AI_RETRY_MAX_DELAY_MS } from '../../config/constants'
+
+export interface RetryOptions {
+  /** Stops waiting and retrying once aborted */
+  signal?: AbortSignal
+  /** Called before each wait with the attempt about to be made */
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void
+  /** Extra condition for retrying, e.g. nothing was streamed yet */
+  canRetry?: () => boolean
+}
+
+/**
+ * Exponential backoff with full jitter, so clients that failed together don't retry together
+ * @param attempt - Attempt about to be made, starting at 2
+ */
+export const getBackoffDelay = (attempt: number, random = Math.random): number =>
+  Math.round(random() * Math.min(AI_RETRY_MAX_DELAY_MS, AI_RETRY_BASE_DELAY_MS * 2 ** (attempt - 2)))
+
+/**
+ * How long to wait before retrying after an error
+ * @returns Delay in milliseconds, or null if the error should not be retried
+ */
+export const getRetryDelay = (error: unknown, attempt: number): number | null => {
+  if (!isClassifiedAiError(error) || !error.retryable) {
+    return null
+  }
+  // Honor the provider's requested wait (plus a little jitter) unless it's longer than we're willing to wait
+  if (error instanceof RateLimitError && error.retryAfterMs !== undefined) {
+    return error.retryAfterMs <= AI_RETRY_MAX_DELAY_MS
+      ? error.retryAfterMs + getBackoffDelay(2)
+      : null
+  }
+  return getBackoffDelay(attempt)
+}
+
+const waitFor = (delayMs: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new Error('Request was cancelled'))
+    return
+  }
+  const onAbort = () => {
+    clearTimeout(timer)
+    reject(new Error('Request was cancelled'))
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort)
+    resolve()
+  }, delayMs)
+  signal?.addEventListener('abort', onAbort, { once: true })
+})
+
+/**
+ * Run a request, retrying transient failures up to AI_RETRY_MAX_ATTEMPTS times
+ * @param task - The request; called again for every attempt
+ * @param options - Cancellation, retry notification and extra retry condition
+ * @returns The first successful result; the last error is thrown when retries run out
+ */
+export const withRetry = async <T>(task: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task()
+    } catch (error) {
+      const delayMs = attempt < AI_RETRY_MAX_ATTEMPTS && !options.signal?.aborted && (options.canRetry?.() ?? true)
+        ? getRetryDelay(error, attempt + 1)
+        : null
+      if (delayMs === null) {
+        throw error
+      }
+      options.onRetry?.(attempt + 1, delayMs, error)
+      await waitFor(delayMs, options.signal)
+    }
+  }
+}
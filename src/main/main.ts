@@ -1,15 +1,42 @@
-import { app, BrowserWindow, ipcMain, dialog, screen } from 'electron'
-import { join } from 'path'
+import { app, BrowserWindow, screen, protocol, dialog, shell } from 'electron'
+import { join, parse } from 'path'
+import { readFile, writeFile, mkdir, unlink } from 'fs/promises'
+import { randomUUID } from 'crypto'
 import { fileURLToPath } from 'url'
 import Store from 'electron-store'
 import dotenv from 'dotenv'
-import { GoogleGenerativeAI } from '@google/generative-ai'
-import type { ChatMessage, WindowState, Settings } from '../types/electron'
-import { IPC_CHANNELS } from '../types/ipc-channels'
-import { validateImageData } from '../utils/validation'
-import { validateChatHistory, validateWindowState, validateSettings, ChatMessageSchema, SettingsSchema } from '../types/schemas'
+import type {
+  ChatMessage,
+  Conversation,
+  ConversationSummary,
+  ConversationTurn,
+  StoredConversation,
+  WindowState,
+  Settings,
+  AnalysisMode,
+  AnalysisResult,
+  AnalysisRetry,
+  AiStatus,
+  ApiKeySource,
+  ApiKeyTestResult,
+  ImageAttachment,
+  ImagePayload,
+  PromptTemplate,
+  PromptTemplateImportResult,
+  ConversationExportResult,
+  ExportFormat,
+  BackupResult,
+  RestoreReport,
+  QueuedAnalysis
+} from '../types/electron'
+import { validateImageData, getDisplayImageHash } from '../utils/validation'
+import {
+  validateWindowState,
+  validateSettings,
+  validatePromptTemplates,
+  validateAnalysisQueue
+} from '../types/schemas'
 import { 
-  MAX_CHAT_HISTORY_SIZE, 
   ALLOWED_STORE_KEYS, 
   WINDOW_STATE_SAVE_DEBOUNCE_MS,
   MIN_WINDOW_WIDTH,
@@ -18,12 +45,76 @@ import {
   DEFAULT_WINDOW_HEIGHT,
   WINDOW_DISPLAY_MARGIN,
   MAX_DIMENSION_MULTIPLIER,
-  ALLOWED_IMAGE_TYPES
+  MODEL_IMAGE_TYPES,
+  IMAGE_PROTOCOL_SCHEME,
+  MAX_PROMPT_TEMPLATES,
+  EXTERNAL_LINK_PROTOCOLS,
+  DEFAULT_GEMINI_MODEL,
+  AI_RETRY_MAX_ATTEMPTS,
+  BACKUP_FILE_EXTENSION,
+  HISTORY_DIRECTORY,
+  MESSAGE_LOG_FILE,
+  RECOVERY_DIRECTORY,
+  MAX_QUEUED_ANALYSES,
+  RESPONSE_CACHE_DIRECTORY,
+  RESPONSE_CACHE_MAX_BYTES
 } from '../config/constants'
-import { wrapIpcHandler, wrapIpcBooleanHandler } from './utils/ipc-wrapper'
-import { StorageError, WindowControlError, ImageAnalysisError, ApiKeyMissingError } from '../types/errors'
+import { handleIpc, handleIpcBoolean, sendIpcEvent } from './utils/ipc-wrapper'
+import type { ResolvedTurn } from './utils/chat-history'
+import { createAiProvider, getUnavailableStatus } from './ai'
+import { createGeminiProvider } from './ai/gemini-provider'
+import { resolveApiKey, saveApiKey, clearApiKey } from './utils/api-key-store'
+import type { AiProvider, AiRequest } from './ai'
+import { withRetry } from './ai/retry'
+import type { RetryOptions } from './ai/retry'
+import { saveImage, readImage, readImagePayload, isImageHash, collectUnreferencedImages, getImageExtension } from './utils/image-store'
+import {
+  createConversation,
+  normalizeConversationTitle,
+  buildTitlePrompt
+} from './utils/conversations'
+import {
+  BUILT_IN_PROMPT_TEMPLATES,
+  isBuiltInTemplateId,
+  toUserTemplate,
+  buildTemplatePack,
+  parseTemplatePack
+} from './utils/prompt-templates'
+import {
+  STRUCTURED_ANALYSIS_RESPONSE_SCHEMA,
+  buildStructuredPrompt,
+  parseStructuredAnalysis
+} from './utils/structured-analysis'
+import { appendPalettesToPrompt } from './utils/color-palette'
+import { runStoreMigrations } from './utils/store-migrations'
+import { createMessageLog } from './utils/message-log'
+import { createConversationStore } from './utils/conversation-store'
+import { buildMarkdownReport, buildHtmlReport, toExportFileName } from './utils/conversation-export'
+import { createSearchIndex } from './utils/search-index'
+import type { SearchIndex } from './utils/search-index'
+import { writeBackupArchive, parseBackupArchive, mergeConversations, mergePromptTemplates } from './utils/backup'
+import {
+  createQueuedAnalysis,
+  moveQueuedAnalysis,
+  resetInterruptedAnalyses,
+  isAiUnavailableFailure,
+  getQueueRetryDelay
+} from './utils/analysis-queue'
+import { createResponseCache, buildResponseCacheKey } from './utils/response-cache'
+import { preprocessImage } from './utils/image-preprocess'
+import type { PreprocessedImage } from './utils/image-preprocess'
+import {
+  StorageError,
+  WindowControlError,
+  ImageAnalysisError,
+  ApiKeyMissingError,
+  AiProviderError,
+  ImageDecodeError,
+  isClassifiedAiError,
+  getAiErrorInfo
+} from '../types/errors'
 
-// Load environment variables
+// Load environment variables (.env is only a fallback for the API key)
 dotenv.config()
 
 const __dirname = fileURLToPath(new URL('.', import.meta.url))
@@ -31,24 +122,47 @@ const __dirname = fileURLToPath(new URL('.', import.meta.url))
 // Initialize electron store for persistent data
 const store = new Store()
 
-// Initialize Google Generative AI
-let genAI: GoogleGenerativeAI | null = null
-let model: any = null
+// Active AI provider (Gemini by default, or a local HTTP server), re-created when the API key changes
+let aiProvider: AiProvider | null = null
+let apiKeySource: ApiKeySource = 'none'
 
-if (process.env.GEMINI_API_KEY) {
-  genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY)
-  const modelName = process.env.GEMINI_MODEL || 'gemini-1.5-flash'
-  model = genAI.getGenerativeModel({ model: modelName })
-} else {
-  console.error('GEMINI_API_KEY not found in environment variables')
+/**
+ * Load the persisted settings, falling back to defaults when missing or invalid
+ */
+const loadSettings = (): Settings => validateSettings(store.get('settings', {}))
+
+const getAiStatus = (): AiStatus => ({
+  ...(aiProvider ? aiProvider.getStatus() : getUnavailableStatus(loadSettings())),
+  apiKeySource
+})
+
+/**
+ * (Re)create the AI provider from the current API key and settings and push the new status to the renderer
+ */
+const initializeAiProvider = () => {
+  const { apiKey, source } = resolveApiKey(store)
+  apiKeySource = source
+  aiProvider = createAiProvider(apiKey, loadSettings())
+
+  if (!aiProvider) {
+    console.error('Gemini API key not configured')
+  }
+
+  const status = getAiStatus()
+  BrowserWindow.getAllWindows().forEach(win => sendIpcEvent(win.webContents, 'onAiStatusChanged', status))
+
+  // Analyses queued while the AI was unavailable may be able to run now
+  void processAnalysisQueue()
 }
 
+// Stored images are served to the renderer through a custom protocol (must be registered before ready)
+protocol.registerSchemesAsPrivileged([
+  { scheme: IMAGE_PROTOCOL_SCHEME, privileges: { standard: true, secure: true, supportFetchAPI: true } }
+])
+
 // Keep a global reference of the window object
 let mainWindow: BrowserWindow | null = null
 
-// Chat history size limit
-const MAX_CHAT_HISTORY_SIZE_CONST = MAX_CHAT_HISTORY_SIZE
-
 // Allowed store keys for security
 const ALLOWED_STORE_KEYS_CONST = ALLOWED_STORE_KEYS
 
@@ -77,6 +191,22 @@ const saveWindowState = () => {
   }, WINDOW_STATE_SAVE_DEBOUNCE_MS)
 }
 
+/**
+ * Open a link in the user's browser if it uses an allowed scheme
+ */
+const openExternalLink = (url: string) => {
+  try {
+    const { protocol: scheme } = new URL(url)
+    if (EXTERNAL_LINK_PROTOCOLS.includes(scheme as typeof EXTERNAL_LINK_PROTOCOLS[number])) {
+      shell.openExternal(url)
+    } else {
+      console.warn('Blocked link with disallowed scheme:', scheme)
+    }
+  } catch {
+    console.warn('Blocked invalid link:', url)
+  }
+}
+
 const createWindow = () => {
   // Load saved window state
   const defaultState: WindowState = {
@@ -149,6 +279,18 @@ const createWindow = () => {
     mainWindow.loadFile(join(__dirname, '../renderer/index.html'))
   }
 
+  // Links never open inside the app window; allowed ones go to the external browser
+  mainWindow.webContents.setWindowOpenHandler(({ url }) => {
+    openExternalLink(url)
+    return { action: 'deny' }
+  })
+  mainWindow.webContents.on('will-navigate', (event, url) => {
+    if (url !== mainWindow?.webContents.getURL()) {
+      event.preventDefault()
+      openExternalLink(url)
+    }
+  })
+
   // Show window when ready to prevent visual flash
   mainWindow.once('ready-to-show', () => {
     mainWindow?.show()
@@ -164,13 +306,13 @@ const createWindow = () => {
   mainWindow.on('maximize', () => {
     if (mainWindow && !mainWindow.isDestroyed()) {
       saveWindowState()
-      mainWindow.webContents.send(IPC_CHANNELS.WINDOW_MAXIMIZE_CHANGED, mainWindow.isMaximized())
+      sendIpcEvent(mainWindow.webContents, 'onWindowMaximizeChanged', mainWindow.isMaximized())
     }
   })
   mainWindow.on('unmaximize', () => {
     if (mainWindow && !mainWindow.isDestroyed()) {
       saveWindowState()
-      mainWindow.webContents.send(IPC_CHANNELS.WINDOW_MAXIMIZE_CHANGED, mainWindow.isMaximized())
+      sendIpcEvent(mainWindow.webContents, 'onWindowMaximizeChanged', mainWindow.isMaximized())
     }
   })
 
@@ -179,50 +321,159 @@ const createWindow = () => {
   })
 }
 
+// Answers to earlier requests, reused when the same question is asked about the same images
+const responseCache = createResponseCache(join(app.getPath('userData'), RESPONSE_CACHE_DIRECTORY), RESPONSE_CACHE_MAX_BYTES)
+
+// How an analysis is run, besides what is sent to the model
+interface AnalysisOptions {
+  mode: AnalysisMode
+  /** Skip the response cache and ask the model again */
+  forceFresh?: boolean
+}
+
 // AI Analysis function
-const analyzeImage = async (imageBase64: string, mimeType: string, prompt: string) => {
+const analyzeImage = async (
+  request: AiRequest,
+  { mode, forceFresh = false }: AnalysisOptions,
+  onChunk?: (text: string) => void,
+  onRetry?: (retry: Omit<AnalysisRetry, 'requestId'>) => void
+): Promise<AnalysisResult> => {
+  // Kept so a cancelled answer still shows what had been generated
+  let streamedText = ''
   try {
-    if (!model) {
-      return { success: false, error: 'Google Generative AI not initialized. Check your API key.' }
+    const provider = aiProvider
+    if (!provider) {
+      return { success: false, error: 'AI provider not initialized. Add your API key in Settings.' }
     }
 
-    if (!imageBase64 || !mimeType || !prompt) {
-      return { success: false, error: 'Missing required parameters: imageBase64, mimeType, or prompt' }
+    const { prompt, images, history } = request
+    if (!prompt) {
+      return { success: false, error: 'Missing required parameter: prompt' }
     }
 
-    // Validate supported MIME types (defense-in-depth - redundant validation after IPC handler check)
-    const supportedTypes = ALLOWED_IMAGE_TYPES
-    if (!supportedTypes.includes(mimeType as any)) {
-      return { success: false, error: `Unsupported image type: ${mimeType}` }
+    // Validate supported MIME types (defense-in-depth - formats the model doesn't take were converted by the caller)
+    const supportedTypes = MODEL_IMAGE_TYPES
+    const allImages = [...images, ...history.flatMap(turn => turn.images)]
+    if (allImages.length === 0) {
+      return { success: false, error: 'An image is required to start an analysis' }
+    }
+    const unsupported = allImages.find(img => !supportedTypes.includes(img.mimeType as any))
+    if (unsupported) {
+      return { success: false, error: `Unsupported image type: ${unsupported.mimeType}` }
     }
 
-    const parts = [
-      { text: prompt },
-      { inlineData: { mimeType, data: imageBase64 } }
-    ]
+    // Same images, prompt, context, model and settings as an earlier request: reuse its answer
+    const { provider: providerId, modelName } = provider.getStatus()
+    const cacheKey = buildResponseCacheKey({ provider: providerId, modelName, settings: loadSettings(), mode, prompt, images, history })
+    if (!forceFresh) {
+      const cached = await responseCache.get(cacheKey)
+      if (cached) {
+        return { success: true, ...cached, cached: true }
+      }
+    }
 
-    const result = await model.generateContent({
-      contents: [{ role: 'user', parts }]
-    })
+    // Transient failures are retried, but never once text has been shown: the retry would repeat it
+    const retryOptions: RetryOptions = {
+      signal: request.signal,
+      canRetry: () => streamedText === '',
+      onRetry: (attempt, delayMs, error) => {
+        console.warn(`AI request failed, retrying in ${delayMs} ms (attempt ${attempt} of ${AI_RETRY_MAX_ATTEMPTS}):`, error)
+        const errorCode = isClassifiedAiError(error) ? error.code : 'unknown'
+        onRetry?.({ attempt, maxAttempts: AI_RETRY_MAX_ATTEMPTS, delayMs, errorCode })
+      }
+    }
 
-    const text = result.response.text()
+    if (mode === 'structured') {
+      // JSON is not useful half-finished, so structured answers are not streamed
+      const text = await withRetry(() => provider.analyze({
+        prompt: buildStructuredPrompt(prompt),
+        images,
+        history,
+        responseSchema: STRUCTURED_ANALYSIS_RESPONSE_SCHEMA,
+        signal: request.signal
+      }), retryOptions)
+      if (request.signal?.aborted) {
+        return { success: false, cancelled: true, text: '' }
+      }
+      const parsed = parseStructuredAnalysis(text)
+      if (!parsed.success) {
+        // Not cached, so asking again gives the model another chance at valid JSON
+        console.error('Structured analysis rejected:', parsed.error)
+        return { success: true, text, structuredError: parsed.error }
+      }
+      await responseCache.set(cacheKey, { text, structured: parsed.data })
+      return { success: true, text, structured: parsed.data }
+    }
+
+    const text = await withRetry(() => provider.stream({ prompt, images, history, signal: request.signal }, chunk => {
+      streamedText += chunk
+      onChunk?.(chunk)
+    }), retryOptions)
+    if (request.signal?.aborted) {
+      return { success: false, cancelled: true, text }
+    }
+    if (text) {
+      await responseCache.set(cacheKey, { text })
+    }
     return { success: true, text }
   } catch (error) {
+    // Aborting surfaces as a provider error; report it as a cancellation instead
+    if (request.signal?.aborted) {
+      return { success: false, cancelled: true, text: streamedText }
+    }
     console.error('AI Analysis Error:', error)
+    if (isClassifiedAiError(error)) {
+      const { code, details } = getAiErrorInfo(error)
+      return { success: false, error: error.message, errorCode: code, errorDetails: details }
+    }
     return { 
       success: false, 
-      error: error instanceof Error ? error.message : 'Unknown error occurred during analysis' 
+      error: error instanceof Error ? error.message : 'Unknown error occurred during analysis',
+      errorCode: 'unknown'
     }
   }
 }
 
 // App event listeners
-app.whenReady().then(() => {
-  // Check API key on startup
-  if (!process.env.GEMINI_API_KEY) {
-    const error = new ApiKeyMissingError('GEMINI_API_KEY not found in .env file. Please add your Google AI API key to continue.')
-    dialog.showErrorBox('Configuration Error', error.message)
+app.whenReady().then(async () => {
+  // Bring stored data up to the current schema before anything reads it
+  let isStoreValidated = false
+  try {
+    isStoreValidated = await runStoreMigrations(store)
+  } catch (error) {
+    console.error('Store migration failed; stored data was left unchanged:', error)
   }
+  try {
+    await messageLog.open()
+  } catch (error) {
+    console.error('Failed to open the message log:', error)
+  }
+  // Jobs cut off by the last quit run again once the AI is ready. The queue is only
+  // rewritten once invalid jobs are quarantined, as loading drops them.
+  const queue = loadAnalysisQueue()
+  if (isStoreValidated && queue.some(job => job.status === 'running')) {
+    saveAnalysisQueue(resetInterruptedAnalyses(queue))
+  }
+
+  // Decrypting the stored API key needs the app to be ready; without a key the renderer shows the setup screen
+  initializeAiProvider()
+
+  // Serve stored images as art-image://<hash>, rejecting anything that is not a bare hash
+  protocol.handle(IMAGE_PROTOCOL_SCHEME, async (request) => {
+    const hash = new URL(request.url).hostname
+    const image = isImageHash(hash) ? await readImage(hash) : null
+    if (!image) {
+      return new Response('Not found', { status: 404 })
+    }
+    // Stored SVGs may contain scripts; the policy keeps them inert even if opened as a document
+    return new Response(image.bytes, {
+      headers: {
+        'Content-Type': image.mimeType,
+        'Cache-Control': 'max-age=31536000, immutable',
+        'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'"
+      }
+    })
+  })
 
   createWindow()
 
@@ -238,6 +489,8 @@ app.on('before-quit', () => {
     clearTimeout(saveWindowStateTimeout)
     saveWindowStateTimeout = null
   }
+  // Queued writes finish before the log closes
+  void messageLog.close()
 })
 
 app.on('window-all-closed', () => {
@@ -246,119 +499,1003 @@ app.on('window-all-closed', () => {
   }
 })
 
-// IPC handlers for renderer communication
+// IPC handlers for renderer communication; arguments are validated against types/ipc-contract before a handler runs
 
 // Specific store getter methods
-ipcMain.handle(IPC_CHANNELS.GET_SETTINGS, wrapIpcHandler(async () => {
-  const rawData = store.get('settings', {})
-  return validateSettings(rawData)
-}, StorageError))
-
-ipcMain.handle(IPC_CHANNELS.SET_SETTINGS, wrapIpcBooleanHandler(async (_, value: Settings) => {
-  // Validate settings before persisting
-  const validation = SettingsSchema.safeParse(value)
-  if (!validation.success) {
-    console.error('Settings validation failed:', validation.error)
-    return false
-  }
-  
-  store.set('settings', validation.data)
+handleIpc('getSettings', async () => {
+  return loadSettings()
+}, StorageError)
+
+handleIpcBoolean('setSettings', async (_, settings) => {
+  store.set('settings', settings)
+  // Rebuild the provider so the new generation settings apply to the next request
+  initializeAiProvider()
   return true
-}, StorageError))
+}, StorageError)
 
-ipcMain.handle(IPC_CHANNELS.GET_WINDOW_STATE, wrapIpcHandler(async () => {
+handleIpc('getWindowState', async () => {
   const rawData = store.get('windowState')
   return validateWindowState(rawData)
-}, StorageError))
+}, StorageError)
 
 // API access handlers
-ipcMain.handle(IPC_CHANNELS.GET_AI_STATUS, () => {
-  return {
-    isInitialized: model !== null,
-    hasApiKey: !!process.env.GEMINI_API_KEY,
-    modelName: process.env.GEMINI_MODEL || 'gemini-1.5-flash'
+handleIpc('getAiStatus', (): AiStatus => {
+  return getAiStatus()
+})
+
+handleIpc('listAiModels', async () => {
+  if (!aiProvider) {
+    throw new ApiKeyMissingError()
+  }
+  return await aiProvider.listModels()
+}, AiProviderError)
+
+// API key management handlers
+handleIpc('testApiKey', async (_, apiKey): Promise<ApiKeyTestResult> => {
+  if (!apiKey.trim()) {
+    return { success: false, error: new ApiKeyMissingError().message }
+  }
+
+  try {
+    // Listing models is the cheapest authenticated call
+    await createGeminiProvider(apiKey.trim(), { ...loadSettings(), modelName: DEFAULT_GEMINI_MODEL }).listModels()
+    return { success: true }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'API key test failed'
+    }
   }
 })
 
+handleIpc('setApiKey', async (_, apiKey) => {
+  if (!apiKey.trim()) {
+    throw new ApiKeyMissingError()
+  }
+
+  saveApiKey(store, apiKey.trim())
+  initializeAiProvider()
+  return true
+}, StorageError)
+
+handleIpcBoolean('clearApiKey', async () => {
+  clearApiKey(store)
+  initializeAiProvider()
+  return true
+}, StorageError)
+
 // Window control handlers
-ipcMain.handle(IPC_CHANNELS.WINDOW_MINIMIZE, wrapIpcHandler(async () => {
+handleIpc('minimizeWindow', async () => {
   mainWindow?.minimize()
-}, WindowControlError))
+}, WindowControlError)
 
-ipcMain.handle(IPC_CHANNELS.WINDOW_MAXIMIZE, wrapIpcHandler(async () => {
+handleIpc('maximizeWindow', async () => {
   if (mainWindow?.isMaximized()) {
     mainWindow.unmaximize()
   } else {
     mainWindow?.maximize()
   }
-}, WindowControlError))
+}, WindowControlError)
 
-ipcMain.handle(IPC_CHANNELS.WINDOW_CLOSE, wrapIpcHandler(async () => {
+handleIpc('closeWindow', async () => {
   mainWindow?.close()
-}, WindowControlError))
+}, WindowControlError)
 
-ipcMain.handle(IPC_CHANNELS.WINDOW_IS_MAXIMIZED, wrapIpcHandler(async () => {
+handleIpc('isWindowMaximized', async () => {
   return mainWindow?.isMaximized() || false
-}, WindowControlError))
+}, WindowControlError)
+
+// Running analyses by request ID, so CANCEL_ANALYSIS can abort them
+const activeAnalyses = new Map<string, AbortController>()
+
+/**
+ * Downsize, strip and if needed convert an image for the model with the current size setting
+ * @returns Prepared image, or null if it can't be decoded here and is sent as is
+ * @throws ImageDecodeError if the image is in a format the model doesn't take and can't be converted
+ */
+const tryPreprocessImage = async (image: ImagePayload): Promise<PreprocessedImage | null> => {
+  try {
+    return await preprocessImage(image, loadSettings().imageMaxLongEdge)
+  } catch (error) {
+    // There is no original to fall back on when the model can't take it
+    if (error instanceof ImageDecodeError) {
+      throw error
+    }
+    console.error('Image preprocessing failed; sending the original:', error)
+    return null
+  }
+}
+
+/**
+ * Load the version of an attachment that is sent to the model
+ *
+ * Attachments saved before preprocessing existed, or whose sent version is gone, are prepared on the fly.
+ */
+const readSentImage = async (attachment: ImageAttachment): Promise<ImagePayload | null> => {
+  const processed = attachment.processed && await readImagePayload(attachment.processed.hash)
+  if (processed) {
+    return processed
+  }
+  const original = await readImagePayload(attachment.hash)
+  return original && ((await tryPreprocessImage(original))?.payload ?? original)
+}
+
+/**
+ * Load the sent versions of a prompt's attachments, with their measured palettes
+ * @returns Images in attachment order, or null if one is no longer in the image store
+ */
+const readAttachmentImages = async (attachments: ImageAttachment[]): Promise<ImagePayload[] | null> => {
+  const images: ImagePayload[] = []
+  for (const attachment of attachments) {
+    const storedImage = await readSentImage(attachment)
+    if (!storedImage) {
+      return null
+    }
+    images.push({ ...storedImage, ...(attachment.palette && { palette: attachment.palette }) })
+  }
+  return images
+}
+
+/**
+ * Load earlier attachments from the image store so the model sees them again
+ */
+const resolveHistory = async (history: ConversationTurn[]): Promise<ResolvedTurn[]> => {
+  const resolvedHistory: ResolvedTurn[] = []
+  for (const turn of history) {
+    const images: ImagePayload[] = []
+    for (const attachment of turn.attachments ?? []) {
+      const storedImage = await readSentImage(attachment)
+      if (storedImage) {
+        images.push(storedImage)
+      } else {
+        console.warn('Attachment missing from image store:', attachment.hash)
+      }
+    }
+    resolvedHistory.push({ role: turn.role, content: turn.content, images })
+  }
+  return resolvedHistory
+}
+
+/**
+ * Read a conversation's context from the message log, whatever part of it the renderer has loaded
+ *
+ * Cancelled partial answers and failure notices are left out, so the model only sees complete turns.
+ * @param promptMessageId - Saved message of the new prompt; it and anything after it are left out
+ */
+const readConversationHistory = async (conversationId: string, promptMessageId?: string): Promise<ChatMessage[]> => {
+  const messages = await messageLog.getMessages(conversationId)
+  const promptIndex = promptMessageId ? messages.findIndex(message => message.id === promptMessageId) : -1
+  return (promptIndex >= 0 ? messages.slice(0, promptIndex) : messages).filter(message => !message.status)
+}
 
 // AI Analysis handler
-ipcMain.handle(IPC_CHANNELS.ANALYZE_IMAGE, wrapIpcHandler(async (_, imageBase64: string, mimeType: string, prompt: string) => {
-  // Validate IPC parameters
-  if (typeof imageBase64 !== 'string' || typeof mimeType !== 'string' || typeof prompt !== 'string') {
-    return { success: false, error: 'Invalid arguments: imageBase64, mimeType, and prompt must all be strings' }
+handleIpc('analyzeImage', async (event, request) => {
+  const { requestId, conversationId, promptMessageId, prompt, attachments, mode, forceFresh } = request
+  if (activeAnalyses.has(requestId)) {
+    return { success: false, error: 'An analysis with this request ID is already running' }
   }
   
-  if (!imageBase64.trim() || !mimeType.trim() || !prompt.trim()) {
-    return { success: false, error: 'Invalid arguments: imageBase64, mimeType, and prompt cannot be empty' }
+  // Registered before anything is awaited, so a cancel can never arrive too early
+  const controller = new AbortController()
+  activeAnalyses.set(requestId, controller)
+  try {
+    // Attachments were validated and prepared for the model when they were saved
+    const images = await readAttachmentImages(attachments)
+    if (!images) {
+      return { success: false, error: 'An attached image is no longer in the image store' }
+    }
+    
+    // Measured palettes only reach the model when the user opted in
+    const fullPrompt = loadSettings().includeColorPalette ? appendPalettesToPrompt(prompt, images) : prompt
+    
+    const resolvedHistory = await resolveHistory(await readConversationHistory(conversationId, promptMessageId))
+    
+    // Stream partial text back to the requesting window as it is generated
+    const sendChunk = (text: string) => sendIpcEvent(event.sender, 'onAnalysisChunk', { requestId, text })
+    
+    // Tell the window an automatic retry is coming so it can show the wait
+    const sendRetry = (retry: Omit<AnalysisRetry, 'requestId'>) =>
+      sendIpcEvent(event.sender, 'onAnalysisRetry', { requestId, ...retry })
+    
+    return await analyzeImage(
+      { prompt: fullPrompt, images: images.map(({ data, mimeType }) => ({ data, mimeType })), history: resolvedHistory, signal: controller.signal },
+      { mode, forceFresh },
+      sendChunk,
+      sendRetry
+    )
+  } finally {
+    activeAnalyses.delete(requestId)
   }
-  
-  // Add server-side validation for image data
-  const validation = validateImageData(imageBase64, mimeType)
+}, ImageAnalysisError)
+
+handleIpcBoolean('cancelAnalysis', async (_, requestId) => {
+  const controller = activeAnalyses.get(requestId)
+  if (!controller) {
+    return false
+  }
+
+  controller.abort()
+  return true
+}, ImageAnalysisError)
+
+// Conversation store helpers; the store keeps conversation metadata, messages live in the message log
+const messageLog = createMessageLog(
+  join(app.getPath('userData'), HISTORY_DIRECTORY, MESSAGE_LOG_FILE),
+  join(app.getPath('userData'), RECOVERY_DIRECTORY)
+)
+
+const conversationStore = createConversationStore(store, messageLog)
+
+const loadStoredConversations = (): StoredConversation[] => conversationStore.load()
+
+const saveStoredConversations = (conversations: StoredConversation[]) => {
+  conversationStore.save(conversations)
+}
+
+const toConversationSummary = (conversation: StoredConversation): ConversationSummary => ({
+  ...conversation,
+  messageCount: messageLog.countMessages(conversation.id)
+})
+
+/**
+ * Load a conversation with all of its messages
+ */
+const loadConversation = async (conversation: StoredConversation): Promise<Conversation> => ({
+  ...conversation,
+  messages: await messageLog.getMessages(conversation.id)
+})
+
+/**
+ * Load every conversation with all of its messages (export, backup and search only; the UI reads pages)
+ */
+const loadConversations = async (): Promise<Conversation[]> => {
+  const conversations: Conversation[] = []
+  for (const conversation of loadStoredConversations()) {
+    conversations.push(await loadConversation(conversation))
+  }
+  return conversations
+}
+
+/**
+ * Replace all stored conversations and their messages
+ */
+const replaceConversations = async (conversations: Conversation[]) => {
+  await messageLog.replaceAll(conversations.flatMap(conv => conv.messages.map(message => ({ conversationId: conv.id, message }))))
+  saveStoredConversations(conversations.map(({ messages: _messages, ...conversation }) => conversation))
+}
+
+// Built on the first search, then kept in sync as messages are saved and deleted
+let searchIndex: SearchIndex | null = null
+// First build in progress, shared by searches that arrive meanwhile
+let searchIndexBuild: Promise<SearchIndex> | null = null
+// Changes made while the first build reads the history, applied in order once it is indexed
+let pendingSearchUpdates: ((index: SearchIndex) => void)[] = []
+
+const getSearchIndex = (): Promise<SearchIndex> => {
+  if (searchIndex) {
+    return Promise.resolve(searchIndex)
+  }
+  if (!searchIndexBuild) {
+    searchIndexBuild = (async () => {
+      try {
+        const index = createSearchIndex()
+        index.rebuild(await loadConversations())
+        // Replaying is safe for changes the loaded history already had: updates replace by ID
+        pendingSearchUpdates.forEach(update => update(index))
+        searchIndex = index
+        return index
+      } finally {
+        pendingSearchUpdates = []
+        searchIndexBuild = null
+      }
+    })()
+  }
+  return searchIndexBuild
+}
+
+/**
+ * Apply a change to the search index, or hold it until the first build finishes
+ */
+const updateSearchIndex = (update: (index: SearchIndex) => void) => {
+  if (searchIndex) {
+    update(searchIndex)
+  } else if (searchIndexBuild) {
+    pendingSearchUpdates.push(update)
+  }
+}
+
+/**
+ * Image store hashes an attachment list keeps alive: each original and the version sent for it
+ */
+const getAttachmentHashes = (attachments: ImageAttachment[] = []): string[] =>
+  attachments.flatMap(attachment => attachment.processed ? [attachment.hash, attachment.processed.hash] : [attachment.hash])
+
+/**
+ * Delete stored images that no remaining message or queued analysis references
+ */
+const collectImageGarbage = async () => {
+  try {
+    const referencedHashes = messageLog.getReferencedImageHashes()
+    loadAnalysisQueue().forEach(job => getAttachmentHashes(job.attachments).forEach(hash => referencedHashes.add(hash)))
+    await collectUnreferencedImages(referencedHashes)
+  } catch (error) {
+    console.error('Image garbage collection failed:', error)
+  }
+}
+
+// Conversation handlers
+handleIpc('getConversations', async () => {
+  return loadStoredConversations().map(toConversationSummary)
+}, StorageError)
+
+handleIpc('createConversation', async (_, title): Promise<ConversationSummary> => {
+  const { messages: _messages, ...conversation } = createConversation(title)
+  saveStoredConversations([...loadStoredConversations(), conversation])
+  return toConversationSummary(conversation)
+}, StorageError)
+
+handleIpcBoolean('renameConversation', async (_, conversationId, title) => {
+  const normalizedTitle = normalizeConversationTitle(title)
+  const conversations = loadStoredConversations()
+  const conversation = conversations.find(conv => conv.id === conversationId)
+  if (!conversation || !normalizedTitle) {
+    return false
+  }
+
+  conversation.title = normalizedTitle
+  saveStoredConversations(conversations)
+  return true
+}, StorageError)
+
+handleIpcBoolean('deleteConversation', async (_, conversationId) => {
+  const conversations = loadStoredConversations()
+  const filteredConversations = conversations.filter(conv => conv.id !== conversationId)
+  if (filteredConversations.length === conversations.length) {
+    return false
+  }
+
+  saveStoredConversations(filteredConversations)
+  await messageLog.deleteConversation(conversationId)
+  updateSearchIndex(index => index.removeConversation(conversationId))
+  await collectImageGarbage()
+  return true
+}, StorageError)
+
+/**
+ * Generate a title from a conversation's first exchange
+ * @returns Updated summary (with the old title if generation failed), or undefined if the conversation is gone
+ */
+const titleConversation = async (conversationId: string): Promise<ConversationSummary | undefined> => {
+  const conversation = loadStoredConversations().find(conv => conv.id === conversationId)
+  if (!conversation) {
+    return undefined
+  }
+
+  // Keep the provisional title when the model is unavailable or has nothing to summarize
+  const titlePrompt = buildTitlePrompt(await loadConversation(conversation))
+  if (!aiProvider || !titlePrompt) {
+    return toConversationSummary(conversation)
+  }
+
+  try {
+    const generatedTitle = await aiProvider.analyze({ prompt: titlePrompt, images: [], history: [] })
+    const title = normalizeConversationTitle(generatedTitle)
+    // Re-read the store; messages may have been saved while the model was answering
+    const conversations = loadStoredConversations()
+    const current = conversations.find(conv => conv.id === conversationId)
+    if (title && current) {
+      current.title = title
+      saveStoredConversations(conversations)
+      return toConversationSummary(current)
+    }
+  } catch (error) {
+    console.error('Conversation title generation failed:', error)
+  }
+
+  return toConversationSummary(conversation)
+}
+
+handleIpc('generateConversationTitle', async (_, conversationId) => {
+  return await titleConversation(conversationId)
+}, StorageError)
+
+const EXPORT_FILE_FILTERS: Record<ExportFormat, Electron.FileFilter> = {
+  markdown: { name: 'Markdown', extensions: ['md'] },
+  html: { name: 'HTML page', extensions: ['html'] },
+  pdf: { name: 'PDF document', extensions: ['pdf'] }
+}
+
+/**
+ * List the stored images attached in the given conversations, each once
+ * @param selectHashes - Images to list for each message's attachments; originals and sent copies by default
+ */
+const collectAttachedHashes = (
+  conversations: Conversation[],
+  selectHashes: (attachments?: ImageAttachment[]) => string[] = getAttachmentHashes
+): string[] =>
+  Array.from(new Set(conversations.flatMap(conv => conv.messages.flatMap(msg => selectHashes(msg.attachments)))))
+
+/**
+ * Load stored images attached in the given conversations, keyed by hash (missing images are left out)
+ * @param selectHashes - Images to load for each message's attachments
+ */
+const readAttachedImages = async (
+  conversations: Conversation[],
+  selectHashes?: (attachments?: ImageAttachment[]) => string[]
+) => {
+  const hashes = collectAttachedHashes(conversations, selectHashes)
+  const images = new Map<string, { bytes: Buffer; mimeType: string }>()
+  for (const hash of hashes) {
+    const image = await readImage(hash)
+    if (image) {
+      images.set(hash, image)
+    }
+  }
+  return images
+}
+
+// Exports show each attachment once, as the app does
+const getDisplayedHashes = (attachments: ImageAttachment[] = []): string[] => attachments.map(getDisplayImageHash)
+
+/**
+ * Write a Markdown export, copying the images into a folder next to the file
+ */
+const writeMarkdownExport = async (conversation: Conversation, filePath: string) => {
+  const { dir, name } = parse(filePath)
+  const imageDir = `${name}_images`
+  const imagePaths = new Map<string, string>()
+
+  for (const [hash, image] of await readAttachedImages([conversation], getDisplayedHashes)) {
+    const fileName = `${hash.slice(0, 16)}.${getImageExtension(image.mimeType) ?? 'img'}`
+    await mkdir(join(dir, imageDir), { recursive: true })
+    await writeFile(join(dir, imageDir, fileName), image.bytes)
+    imagePaths.set(hash, `${imageDir}/${fileName}`)
+  }
+
+  await writeFile(filePath, buildMarkdownReport(conversation, hash => imagePaths.get(hash)), 'utf-8')
+}
+
+/**
+ * Build the self-contained HTML export with images embedded as data URLs
+ */
+const renderHtmlExport = async (conversation: Conversation): Promise<string> => {
+  const imageSources = new Map<string, string>()
+  for (const [hash, image] of await readAttachedImages([conversation], getDisplayedHashes)) {
+    imageSources.set(hash, `data:${image.mimeType};base64,${image.bytes.toString('base64')}`)
+  }
+  return buildHtmlReport(conversation, hash => imageSources.get(hash))
+}
+
+/**
+ * Print an HTML report to PDF in a hidden window
+ */
+const printHtmlToPdf = async (html: string): Promise<Buffer> => {
+  // Loaded from a temp file since data URLs of large reports exceed URL length limits
+  const htmlPath = join(app.getPath('temp'), `art-analyst-export-${randomUUID()}.html`)
+  const printWindow = new BrowserWindow({
+    show: false,
+    webPreferences: {
+      javascript: false,
+      sandbox: true
+    }
+  })
+
+  try {
+    await writeFile(htmlPath, html, 'utf-8')
+    await printWindow.loadFile(htmlPath)
+    return await printWindow.webContents.printToPDF({ printBackground: true, pageSize: 'A4' })
+  } finally {
+    printWindow.destroy()
+    await unlink(htmlPath).catch(() => undefined)
+  }
+}
+
+handleIpc('exportConversation', async (_, conversationId, format): Promise<ConversationExportResult> => {
+  const storedConversation = loadStoredConversations().find(conv => conv.id === conversationId)
+  if (!storedConversation) {
+    throw new Error('Conversation not found')
+  }
+  const conversation = await loadConversation(storedConversation)
+
+  const filter = EXPORT_FILE_FILTERS[format]
+  const options: Electron.SaveDialogOptions = {
+    title: 'Export Conversation',
+    defaultPath: `${toExportFileName(conversation.title)}.${filter.extensions[0]}`,
+    filters: [filter]
+  }
+  const { canceled, filePath } = mainWindow
+    ? await dialog.showSaveDialog(mainWindow, options)
+    : await dialog.showSaveDialog(options)
+  if (canceled || !filePath) {
+    return { completed: false }
+  }
+
+  switch (format) {
+    case 'markdown':
+      await writeMarkdownExport(conversation, filePath)
+      break
+    case 'html':
+      await writeFile(filePath, await renderHtmlExport(conversation), 'utf-8')
+      break
+    case 'pdf':
+      await writeFile(filePath, await printHtmlToPdf(await renderHtmlExport(conversation)))
+      break
+  }
+
+  return { completed: true, filePath }
+}, StorageError)
+
+handleIpc('searchMessages', async (_, query) => {
+  const index = await getSearchIndex()
+  const titles = new Map(loadStoredConversations().map(conv => [conv.id, conv.title]))
+  return index.search(query, conversationId => titles.get(conversationId) ?? '')
+}, StorageError)
+
+// Image store handlers
+handleIpc('saveImage', async (_, image) => {
+  const validation = validateImageData(image.data, image.mimeType)
   if (!validation.isValid) {
-    return { success: false, error: validation.error }
+    throw new Error(validation.error)
   }
-  
-  // Normalize MIME type to lowercase after validation
-  const normalizedMimeType = mimeType.toLowerCase()
-  
-  return await analyzeImage(imageBase64, normalizedMimeType, prompt)
-}, ImageAnalysisError))
+
+  // Prepared first, so an image that can't be converted is never stored
+  const prepared = await tryPreprocessImage(image)
+  const attachment = await saveImage(image)
+
+  // The sent version is stored next to the original, so later turns send the same image
+  if (!prepared) {
+    return attachment
+  }
+  const { payload, ...sizes } = prepared
+  const sent = await saveImage(payload)
+  return { ...attachment, processed: { hash: sent.hash, mimeType: sent.mimeType, ...sizes } }
+}, StorageError)
+
+// Prompt template store helpers (only user-defined templates are persisted)
+const loadUserTemplates = (): PromptTemplate[] => validatePromptTemplates(store.get('promptTemplates', []))
+
+const saveUserTemplates = (templates: PromptTemplate[]) => {
+  store.set('promptTemplates', templates)
+}
+
+// Prompt template handlers
+handleIpc('getPromptTemplates', async () => {
+  return [...BUILT_IN_PROMPT_TEMPLATES, ...loadUserTemplates()]
+}, StorageError)
+
+handleIpc('savePromptTemplate', async (_, input) => {
+  if (input.id && isBuiltInTemplateId(input.id)) {
+    throw new Error('Built-in templates cannot be changed')
+  }
+
+  const templates = loadUserTemplates()
+  const template = toUserTemplate(input)
+  const index = templates.findIndex(existing => existing.id === template.id)
+  if (index >= 0) {
+    templates[index] = template
+  } else if (templates.length >= MAX_PROMPT_TEMPLATES) {
+    throw new Error(`You can save up to ${MAX_PROMPT_TEMPLATES} templates`)
+  } else {
+    templates.push(template)
+  }
+
+  saveUserTemplates(templates)
+  return template
+}, StorageError)
+
+handleIpcBoolean('deletePromptTemplate', async (_, templateId) => {
+  const templates = loadUserTemplates()
+  const remaining = templates.filter(template => template.id !== templateId)
+  if (remaining.length === templates.length) {
+    return false
+  }
+
+  saveUserTemplates(remaining)
+  return true
+}, StorageError)
+
+handleIpc('importPromptTemplates', async (): Promise<PromptTemplateImportResult> => {
+  const options: Electron.OpenDialogOptions = {
+    title: 'Import Prompt Templates',
+    filters: [{ name: 'Template pack', extensions: ['json'] }],
+    properties: ['openFile']
+  }
+  const { canceled, filePaths } = mainWindow
+    ? await dialog.showOpenDialog(mainWindow, options)
+    : await dialog.showOpenDialog(options)
+  if (canceled || filePaths.length === 0) {
+    return { completed: false, imported: 0, skipped: 0, rejected: 0 }
+  }
+
+  let data: unknown
+  try {
+    data = JSON.parse(await readFile(filePaths[0], 'utf-8'))
+  } catch {
+    throw new Error('The file is not valid JSON')
+  }
+
+  const userTemplates = loadUserTemplates()
+  const { templates, skipped, rejected } = parseTemplatePack(data, [...BUILT_IN_PROMPT_TEMPLATES, ...userTemplates])
+  if (userTemplates.length + templates.length > MAX_PROMPT_TEMPLATES) {
+    throw new Error(`Importing would exceed the limit of ${MAX_PROMPT_TEMPLATES} templates`)
+  }
+
+  saveUserTemplates([...userTemplates, ...templates])
+  return { completed: true, imported: templates.length, skipped, rejected }
+}, StorageError)
+
+handleIpcBoolean('exportPromptTemplates', async () => {
+  const options: Electron.SaveDialogOptions = {
+    title: 'Export Prompt Templates',
+    defaultPath: 'prompt-templates.json',
+    filters: [{ name: 'Template pack', extensions: ['json'] }]
+  }
+  const { canceled, filePath } = mainWindow
+    ? await dialog.showSaveDialog(mainWindow, options)
+    : await dialog.showSaveDialog(options)
+  if (canceled || !filePath) {
+    return false
+  }
+
+  await writeFile(filePath, JSON.stringify(buildTemplatePack(loadUserTemplates()), null, 2), 'utf-8')
+  return true
+}, StorageError)
+
+// Backup handlers
+const BACKUP_FILE_FILTER: Electron.FileFilter = { name: 'Art Analyst backup', extensions: [BACKUP_FILE_EXTENSION] }
+
+handleIpc('createBackup', async (): Promise<BackupResult> => {
+  const options: Electron.SaveDialogOptions = {
+    title: 'Back Up Art Analyst Data',
+    defaultPath: `art-analyst-backup-${new Date().toISOString().slice(0, 10)}.${BACKUP_FILE_EXTENSION}`,
+    filters: [BACKUP_FILE_FILTER]
+  }
+  const { canceled, filePath } = mainWindow
+    ? await dialog.showSaveDialog(mainWindow, options)
+    : await dialog.showSaveDialog(options)
+  if (canceled || !filePath) {
+    return { completed: false, conversations: 0, images: 0 }
+  }
+
+  const conversations = await loadConversations()
+  const images = await writeBackupArchive(filePath, {
+    conversations,
+    settings: loadSettings(),
+    promptTemplates: loadUserTemplates(),
+    imageHashes: collectAttachedHashes(conversations)
+  }, readImage, app.getVersion())
+
+  return { completed: true, filePath, conversations: conversations.length, images }
+}, StorageError)
+
+handleIpc('restoreBackup', async (_, mode): Promise<RestoreReport> => {
+  const options: Electron.OpenDialogOptions = {
+    title: 'Restore Art Analyst Backup',
+    filters: [BACKUP_FILE_FILTER],
+    properties: ['openFile']
+  }
+  const { canceled, filePaths } = mainWindow
+    ? await dialog.showOpenDialog(mainWindow, options)
+    : await dialog.showOpenDialog(options)
+  if (canceled || filePaths.length === 0) {
+    return { completed: false, conversations: 0, messages: 0, promptTemplates: 0, images: 0, settingsRestored: false, rejected: [] }
+  }
+
+  // Everything is validated before any existing data is touched; images are stored as they are read
+  const backup = await parseBackupArchive(filePaths[0], async image => {
+    await saveImage(image)
+  })
+  const rejected = [...backup.rejected]
+  const replace = mode === 'replace'
+
+  const existingTemplates = replace ? [] : loadUserTemplates()
+  const promptTemplates = mergePromptTemplates(existingTemplates, backup.promptTemplates, rejected)
+  let conversations = backup.conversations
+  if (replace) {
+    await replaceConversations(conversations)
+  } else {
+    // Only the messages the log doesn't have yet are appended
+    const existing = await loadConversations()
+    const existingMessageIds = new Set(existing.flatMap(conv => conv.messages.map(message => message.id)))
+    conversations = mergeConversations(existing, backup.conversations)
+    await messageLog.appendMany(conversations.flatMap(conv => conv.messages
+      .filter(message => !existingMessageIds.has(message.id))
+      .map(message => ({ conversationId: conv.id, message }))
+    ))
+    saveStoredConversations(conversations.map(({ messages: _messages, ...conversation }) => conversation))
+  }
+  saveUserTemplates(promptTemplates)
+  updateSearchIndex(index => index.rebuild(conversations))
+
+  // Merging keeps the current settings; they are machine-specific more often than not
+  const settingsRestored = replace && backup.settings !== undefined
+  if (settingsRestored) {
+    store.set('settings', backup.settings)
+    initializeAiProvider()
+  }
+
+  if (replace) {
+    await collectImageGarbage()
+  }
+
+  return {
+    completed: true,
+    conversations: backup.conversations.length,
+    messages: backup.conversations.reduce((total, conv) => total + conv.messages.length, 0),
+    promptTemplates: promptTemplates.length - existingTemplates.length,
+    images: backup.imageCount,
+    settingsRestored,
+    rejected
+  }
+}, StorageError)
 
 // Chat history handlers
-ipcMain.handle(IPC_CHANNELS.GET_CHAT_HISTORY, wrapIpcHandler(async () => {
-  const rawData = store.get('chatHistory', [])
-  return validateChatHistory(rawData)
-}, StorageError))
-
-ipcMain.handle(IPC_CHANNELS.SAVE_MESSAGE, wrapIpcBooleanHandler(async (_, message: ChatMessage) => {
-  // Validate incoming message before saving
-  const messageValidation = ChatMessageSchema.safeParse(message)
-  if (!messageValidation.success) {
-    console.error('Message validation failed:', messageValidation.error)
+handleIpc('getChatHistory', async (_, conversationId, query) => {
+  return await messageLog.getPage(conversationId, query)
+}, StorageError)
+
+/**
+ * Append a message to a conversation and keep its metadata and the search index in step
+ * @returns False if the conversation does not exist
+ */
+const saveConversationMessage = async (conversationId: string, message: ChatMessage): Promise<boolean> => {
+  // One appended line, however long the history already is; updatedAt follows from the log
+  if (!await conversationStore.saveMessage(conversationId, message)) {
+    console.error('Conversation not found:', conversationId)
     return false
   }
 
-  const rawHistory = store.get('chatHistory', [])
-  const history = validateChatHistory(rawHistory)
-  history.push(messageValidation.data)
-  
-  // Limit chat history size to prevent unbounded growth
-  if (history.length > MAX_CHAT_HISTORY_SIZE_CONST) {
-    history.splice(0, history.length - MAX_CHAT_HISTORY_SIZE_CONST)
+  updateSearchIndex(index => index.addMessage(conversationId, message))
+  return true
+}
+
+handleIpcBoolean('saveMessage', async (_, conversationId, message) => {
+  return await saveConversationMessage(conversationId, message)
+}, StorageError)
+
+handleIpc('hasConversationImage', async (_, conversationId) => {
+  return messageLog.hasImages(conversationId) ||
+    loadAnalysisQueue().some(job => job.conversationId === conversationId && job.attachments.length > 0)
+}, StorageError)
+
+handleIpcBoolean('clearHistory', async () => {
+  saveStoredConversations([])
+  await messageLog.clear()
+  // Cached answers would otherwise keep what was asked after the history is gone
+  await responseCache.clear()
+  updateSearchIndex(index => index.rebuild([]))
+  await collectImageGarbage()
+  return true
+}, StorageError)
+
+handleIpcBoolean('deleteMessage', async (_, messageId) => {
+  await messageLog.deleteMessage(messageId)
+  updateSearchIndex(index => index.removeMessage(messageId))
+  await collectImageGarbage()
+  return true
+}, StorageError)
+
+// Offline analysis queue: analyses saved while the AI was unavailable, run in order once it is ready
+const loadAnalysisQueue = (): QueuedAnalysis[] => validateAnalysisQueue(store.get('analysisQueue', []))
+
+const saveAnalysisQueue = (queue: QueuedAnalysis[]) => {
+  store.set('analysisQueue', queue)
+  BrowserWindow.getAllWindows().forEach(win => sendIpcEvent(win.webContents, 'onAnalysisQueueChanged', queue))
+}
+
+/**
+ * Change one stored job; a no-op if it was dropped meanwhile
+ */
+const updateQueuedJob = (jobId: string, changes: Partial<QueuedAnalysis>) => {
+  const queue = loadAnalysisQueue()
+  const index = queue.findIndex(job => job.id === jobId)
+  if (index !== -1) {
+    queue[index] = { ...queue[index], ...changes }
+    saveAnalysisQueue(queue)
   }
-  
-  store.set('chatHistory', history)
+}
+
+// Job the queue is running, so dropping it can stop the request
+let runningQueuedJob: { id: string; controller: AbortController } | null = null
+
+// Whether the queue loop is running; jobs added meanwhile are found as it re-reads the queue
+let isAnalysisQueueProcessing = false
+
+// Pending retry after the AI could not be reached
+let analysisQueueTimer: NodeJS.Timeout | null = null
+
+/**
+ * Run a queued job with its conversation's current history, as the renderer would have
+ */
+const runQueuedAnalysis = async (job: QueuedAnalysis, signal: AbortSignal): Promise<AnalysisResult> => {
+  const images = await readAttachmentImages(job.attachments)
+  if (!images) {
+    return { success: false, error: 'An attached image is no longer in the image store' }
+  }
+
+  // A deleted conversation has no messages left, so the job starts over without context
+  const history = await resolveHistory(await readConversationHistory(job.conversationId))
+  const prompt = loadSettings().includeColorPalette ? appendPalettesToPrompt(job.prompt, images) : job.prompt
+  return await analyzeImage(
+    { prompt, images: images.map(({ data, mimeType }) => ({ data, mimeType })), history, signal },
+    { mode: job.mode }
+  )
+}
+
+/**
+ * Save a queued job's prompt and answer to its conversation, starting a new one if it was deleted
+ * @returns Summary of the conversation the exchange was added to
+ */
+const saveQueuedExchange = async (job: QueuedAnalysis, result: AnalysisResult): Promise<ConversationSummary> => {
+  let conversationId = job.conversationId
+  if (!conversationStore.has(conversationId)) {
+    const { messages: _messages, ...conversation } = createConversation(job.prompt)
+    saveStoredConversations([...loadStoredConversations(), conversation])
+    conversationId = conversation.id
+  }
+  const isFirstExchange = messageLog.countMessages(conversationId) === 0
+
+  // Timestamped when answered, so the exchange follows whatever was said in the conversation meanwhile
+  const timestamp = Date.now()
+  const userMessage: ChatMessage = {
+    id: randomUUID(),
+    role: 'user',
+    content: job.prompt,
+    timestamp,
+    ...(job.attachments.length > 0 && { attachments: job.attachments })
+  }
+  const assistantMessage: ChatMessage = {
+    id: randomUUID(),
+    role: 'assistant',
+    content: result.text ?? '',
+    timestamp,
+    ...(result.structured && { structured: result.structured }),
+    ...(result.cached && { cached: true })
+  }
+  if (!await saveConversationMessage(conversationId, userMessage) ||
+      !await saveConversationMessage(conversationId, assistantMessage)) {
+    throw new StorageError('The conversation was deleted while the answer was being saved')
+  }
+
+  const titled = isFirstExchange ? await titleConversation(conversationId) : undefined
+  const conversation = loadStoredConversations().find(conv => conv.id === conversationId)
+  if (!conversation) {
+    throw new StorageError('The conversation was deleted while the answer was being saved')
+  }
+  return titled ?? toConversationSummary(conversation)
+}
+
+/**
+ * Run pending jobs in order while the AI is available
+ *
+ * A job that fails because the AI is unavailable stays pending and stops the queue until
+ * a delayed retry or the next AI status change; other failures are left for the user to edit or drop.
+ */
+const processAnalysisQueue = async () => {
+  // Held until the loop ends, including while an answer is saved, so jobs never run side by side
+  if (isAnalysisQueueProcessing) return
+  if (analysisQueueTimer) {
+    clearTimeout(analysisQueueTimer)
+    analysisQueueTimer = null
+  }
+
+  isAnalysisQueueProcessing = true
+  try {
+    await runPendingAnalyses()
+  } finally {
+    isAnalysisQueueProcessing = false
+  }
+}
+
+const runPendingAnalyses = async () => {
+  while (aiProvider) {
+    const job = loadAnalysisQueue().find(queued => queued.status === 'pending')
+    if (!job) return
+
+    const controller = new AbortController()
+    runningQueuedJob = { id: job.id, controller }
+    updateQueuedJob(job.id, { status: 'running', error: undefined, errorCode: undefined })
+    let result: AnalysisResult
+    try {
+      result = await runQueuedAnalysis(job, controller.signal)
+    } catch (error) {
+      console.error('Queued analysis failed:', error)
+      result = { success: false, error: error instanceof Error ? error.message : 'Unknown error occurred during analysis' }
+    } finally {
+      runningQueuedJob = null
+    }
+
+    // Dropped while it ran
+    if (result.cancelled || !loadAnalysisQueue().some(queued => queued.id === job.id)) {
+      continue
+    }
+
+    if (result.success && result.text) {
+      try {
+        const conversation = await saveQueuedExchange(job, result)
+        saveAnalysisQueue(loadAnalysisQueue().filter(queued => queued.id !== job.id))
+        BrowserWindow.getAllWindows().forEach(win =>
+          sendIpcEvent(win.webContents, 'onQueuedAnalysisCompleted', { jobId: job.id, conversation }))
+      } catch (error) {
+        console.error('Failed to save queued analysis:', error)
+        updateQueuedJob(job.id, { status: 'failed', error: 'The answer could not be saved' })
+      }
+      continue
+    }
+
+    const error = result.error || 'The AI returned an empty answer'
+    if (!aiProvider || isAiUnavailableFailure(result)) {
+      updateQueuedJob(job.id, { status: 'pending', error, errorCode: result.errorCode })
+      const delayMs = getQueueRetryDelay(result)
+      if (delayMs !== null) {
+        analysisQueueTimer = setTimeout(() => void processAnalysisQueue(), delayMs)
+      }
+      return
+    }
+    updateQueuedJob(job.id, { status: 'failed', error, errorCode: result.errorCode })
+  }
+}
+
+// Offline analysis queue handlers
+handleIpc('getAnalysisQueue', async () => {
+  return loadAnalysisQueue()
+}, StorageError)
+
+handleIpc('enqueueAnalysis', async (_, input) => {
+  const queue = loadAnalysisQueue()
+  if (queue.length >= MAX_QUEUED_ANALYSES) {
+    throw new StorageError(`The queue is full (${MAX_QUEUED_ANALYSES} analyses). Wait for it to run or drop some jobs.`)
+  }
+
+  const job = createQueuedAnalysis(input)
+  saveAnalysisQueue([...queue, job])
+  void processAnalysisQueue()
+  return job
+}, StorageError)
+
+handleIpcBoolean('updateQueuedAnalysis', async (_, jobId, update) => {
+  const queue = loadAnalysisQueue()
+  const index = queue.findIndex(job => job.id === jobId)
+  if (index === -1 || queue[index].status === 'running') {
+    return false
+  }
+
+  // Editing a failed job (even without changes) gives it another try
+  const job = queue[index]
+  queue[index] = {
+    ...job,
+    prompt: update.prompt ?? job.prompt,
+    mode: update.mode ?? job.mode,
+    status: 'pending',
+    error: undefined,
+    errorCode: undefined
+  }
+  saveAnalysisQueue(queue)
+  void processAnalysisQueue()
   return true
-}, StorageError))
+}, StorageError)
+
+handleIpcBoolean('moveQueuedAnalysis', async (_, jobId, toIndex) => {
+  const reordered = moveQueuedAnalysis(loadAnalysisQueue(), jobId, toIndex)
+  if (!reordered) {
+    return false
+  }
 
-ipcMain.handle(IPC_CHANNELS.CLEAR_HISTORY, wrapIpcBooleanHandler(async () => {
-  store.set('chatHistory', [])
+  saveAnalysisQueue(reordered)
   return true
-}, StorageError))
+}, StorageError)
 
-ipcMain.handle(IPC_CHANNELS.DELETE_MESSAGE, wrapIpcBooleanHandler(async (_, messageId: string) => {
-  const history = validateChatHistory(store.get('chatHistory', []))
-  const filteredHistory = history.filter(msg => msg.id !== messageId)
-  store.set('chatHistory', filteredHistory)
+handleIpcBoolean('removeQueuedAnalysis', async (_, jobId) => {
+  const queue = loadAnalysisQueue()
+  const remaining = queue.filter(job => job.id !== jobId)
+  if (remaining.length === queue.length) {
+    return false
+  }
+
+  saveAnalysisQueue(remaining)
+  if (runningQueuedJob?.id === jobId) {
+    runningQueuedJob.controller.abort()
+  }
+  await collectImageGarbage()
   return true
-}, StorageError))
\ No newline at end of file
+}, StorageError)
@@ -0,0 +1,61 @@
+// Offline analysis queue helpers: job creation, ordering and deciding when to wait for the AI
+import { randomUUID } from 'crypto'
+import type { AiErrorCode, AnalysisResult, QueuedAnalysis, QueuedAnalysisInput } from '../../types/electron'
+import { ANALYSIS_QUEUE_RETRY_DELAY_MS } from '../../config/constants'
+
+// Failures that say the AI can't be used right now rather than that the job is at fault
+const AI_UNAVAILABLE_ERROR_CODES: AiErrorCode[] = ['invalid-api-key', 'rate-limit', 'network', 'service-unavailable']
+
+/**
+ * Create a pending job
+ * @param input - Validated job fields from the renderer
+ * @param now - Time the job was queued
+ */
+export const createQueuedAnalysis = (input: QueuedAnalysisInput, now = Date.now()): QueuedAnalysis => ({
+  id: randomUUID(),
+  conversationId: input.conversationId,
+  prompt: input.prompt,
+  attachments: input.attachments,
+  mode: input.mode ?? 'text',
+  createdAt: now,
+  status: 'pending'
+})
+
+/**
+ * Move a job to a new position, clamped to the end of the queue
+ * @returns Reordered copy of the queue, or null if the job is not in it
+ */
+export const moveQueuedAnalysis = (queue: QueuedAnalysis[], jobId: string, toIndex: number): QueuedAnalysis[] | null => {
+  const index = queue.findIndex(job => job.id === jobId)
+  if (index === -1) {
+    return null
+  }
+
+  const reordered = [...queue]
+  const [job] = reordered.splice(index, 1)
+  reordered.splice(Math.min(toIndex, reordered.length), 0, job)
+  return reordered
+}
+
+/**
+ * Put jobs that were running when the app quit back to pending so they run again
+ */
+export const resetInterruptedAnalyses = (queue: QueuedAnalysis[]): QueuedAnalysis[] =>
+  queue.map(job => job.status === 'running' ? { ...job, status: 'pending' } : job)
+
+/**
+ * Whether a failed attempt means the AI is unavailable, so the job should stay pending
+ */
+export const isAiUnavailableFailure = (result: AnalysisResult): boolean =>
+  result.errorCode !== undefined && AI_UNAVAILABLE_ERROR_CODES.includes(result.errorCode)
+
+/**
+ * How long the queue waits before trying again after the AI was unavailable
+ * @returns Delay in milliseconds, or null to wait for the next AI status change (a rejected key won't fix itself)
+ */
+export const getQueueRetryDelay = (result: AnalysisResult): number | null => {
+  if (result.errorCode === 'invalid-api-key') {
+    return null
+  }
+  return Math.max(result.errorDetails?.retryAfterMs ?? 0, ANALYSIS_QUEUE_RETRY_DELAY_MS)
+}
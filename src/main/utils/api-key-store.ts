@@ -0,0 +1,52 @@
+// Encrypted API key persistence using Electron safeStorage
+import { safeStorage } from 'electron'
+import type Store from 'electron-store'
+import type { ApiKeySource } from '../../types/electron'
+
+/** Store key holding the base64 of the safeStorage-encrypted API key */
+const ENCRYPTED_API_KEY_STORE_KEY = 'encryptedApiKey'
+
+/**
+ * Resolve the Gemini API key to use
+ *
+ * A key saved in the app takes precedence; GEMINI_API_KEY from the
+ * environment (.env) is only a fallback.
+ * @param store - Application electron-store
+ * @returns The key and where it came from, or null with source 'none'
+ */
+export const resolveApiKey = (store: Store): { apiKey: string | null; source: ApiKeySource } => {
+  const encrypted = store.get(ENCRYPTED_API_KEY_STORE_KEY)
+  if (typeof encrypted === 'string' && encrypted) {
+    try {
+      return { apiKey: safeStorage.decryptString(Buffer.from(encrypted, 'base64')), source: 'stored' }
+    } catch (error) {
+      console.error('Failed to decrypt stored API key:', error)
+    }
+  }
+
+  if (process.env.GEMINI_API_KEY) {
+    return { apiKey: process.env.GEMINI_API_KEY, source: 'env' }
+  }
+  return { apiKey: null, source: 'none' }
+}
+
+/**
+ * Encrypt and persist an API key
+ * @param store - Application electron-store
+ * @param apiKey - Plain-text API key
+ * @throws Error if the OS provides no encryption backend
+ */
+export const saveApiKey = (store: Store, apiKey: string) => {
+  if (!safeStorage.isEncryptionAvailable()) {
+    throw new Error('Secure storage is not available on this system, so the API key cannot be saved')
+  }
+  store.set(ENCRYPTED_API_KEY_STORE_KEY, safeStorage.encryptString(apiKey).toString('base64'))
+}
+
+/**
+ * Remove the stored API key (the .env fallback, if any, applies again)
+ * @param store - Application electron-store
+ */
+export const clearApiKey = (store: Store) => {
+  store.delete(ENCRYPTED_API_KEY_STORE_KEY)
+}
@@ -0,0 +1,316 @@
+// Backup archives: gzip-compressed JSON lines, a header with the store data then one line per stored image
+import { createHash } from 'crypto'
+import { createReadStream, createWriteStream, promises as fs } from 'fs'
+import { createInterface } from 'readline'
+import { Readable } from 'stream'
+import { pipeline } from 'stream/promises'
+import { createGunzip, createGzip } from 'zlib'
+import { z } from 'zod'
+import type {
+  ChatMessage,
+  Conversation,
+  ImagePayload,
+  PromptTemplate,
+  RestoreRejection,
+  Settings
+} from '../../types/electron'
+import {
+  BackupArchiveSchema,
+  BackupImageSchema,
+  ChatMessageSchema,
+  ConversationSchema,
+  PromptTemplateSchema,
+  SettingsSchema,
+  formatValidationIssues,
+  getRecordLabel
+} from '../../types/schemas'
+import { validateImageData } from '../../utils/validation'
+import { migrateLegacyChatHistory } from './conversations'
+import {
+  BACKUP_FORMAT_ID,
+  BACKUP_SCHEMA_VERSION,
+  MAX_PROMPT_TEMPLATES
+} from '../../config/constants'
+
+/** Stored image as written to an archive */
+export interface BackupImage extends ImagePayload {
+  hash: string
+}
+
+/** Everything a backup holds */
+export interface BackupContents {
+  conversations: Conversation[]
+  settings: Settings
+  promptTemplates: PromptTemplate[]
+  /** Stored images to include; each is read only when its line is written */
+  imageHashes: string[]
+}
+
+/** Reads a stored image, or null if it is gone */
+export type BackupImageReader = (hash: string) => Promise<{ bytes: Buffer; mimeType: string } | null>
+
+/** Stores a validated image from an archive as soon as its line is read */
+export type BackupImageWriter = (image: BackupImage) => Promise<void>
+
+/** Validated archive contents plus the records that were dropped */
+export interface ParsedBackup {
+  conversations: Conversation[]
+  /** Undefined when the archive has no valid settings */
+  settings?: Settings
+  promptTemplates: PromptTemplate[]
+  /** Images handed to the image writer */
+  imageCount: number
+  rejected: RestoreRejection[]
+}
+
+// Conversation shell; messages are checked one by one so a bad message doesn't drop the conversation
+const ConversationShellSchema = ConversationSchema.extend({ messages: z.array(z.unknown()) })
+
+/**
+ * Write a backup archive
+ *
+ * Images are streamed through gzip one line at a time, so the archive is never held
+ * in memory as a whole and its size isn't bound by the longest possible string.
+ * @param filePath - Archive path; written next to it first and swapped in when complete
+ * @param contents - Store data and images to include
+ * @param readImage - Reads each stored image as it is written
+ * @param appVersion - Version of the app writing the backup
+ * @returns Number of images written (missing ones are skipped)
+ */
+export const writeBackupArchive = async (
+  filePath: string,
+  contents: BackupContents,
+  readImage: BackupImageReader,
+  appVersion: string
+): Promise<number> => {
+  const header = {
+    manifest: {
+      format: BACKUP_FORMAT_ID,
+      schemaVersion: BACKUP_SCHEMA_VERSION,
+      createdAt: Date.now(),
+      appVersion
+    },
+    store: {
+      conversations: contents.conversations,
+      settings: contents.settings,
+      promptTemplates: contents.promptTemplates
+    }
+  }
+
+  let imageCount = 0
+  async function* archiveLines() {
+    yield JSON.stringify(header) + '\n'
+    for (const hash of contents.imageHashes) {
+      const image = await readImage(hash)
+      if (!image) continue
+      const record: BackupImage = { hash, mimeType: image.mimeType, data: image.bytes.toString('base64') }
+      imageCount++
+      yield JSON.stringify(record) + '\n'
+    }
+  }
+
+  const tempPath = `${filePath}.tmp`
+  try {
+    await pipeline(Readable.from(archiveLines()), createGzip(), createWriteStream(tempPath))
+    await fs.rename(tempPath, filePath)
+  } catch (error) {
+    await fs.rm(tempPath, { force: true })
+    throw error
+  }
+  return imageCount
+}
+
+const NOT_A_BACKUP_MESSAGE = 'The file is not a backup archive'
+
+/**
+ * Read the lines of an archive one at a time: the header, then one image record per line
+ *
+ * Archives from schema version 1 are a single JSON document with the images inside,
+ * which reads as a header line with an `images` list. Lines that aren't JSON come out
+ * as null and are rejected by validation.
+ */
+async function* readArchiveLines(filePath: string): AsyncGenerator<unknown> {
+  let lineCount = 0
+  try {
+    const lines = createInterface({ input: createReadStream(filePath).pipe(createGunzip()), crlfDelay: Infinity })
+    for await (const line of lines) {
+      if (!line) continue
+      lineCount++
+      let record: unknown = null
+      try {
+        record = JSON.parse(line)
+      } catch {
+        if (lineCount === 1) throw new Error(NOT_A_BACKUP_MESSAGE)
+      }
+      yield record
+    }
+  } catch {
+    throw new Error(lineCount > 1 ? 'The backup archive is incomplete or damaged' : NOT_A_BACKUP_MESSAGE)
+  }
+}
+
+/**
+ * Read and validate a backup archive
+ *
+ * The manifest must be valid or the whole archive is refused; individual records
+ * that fail validation are left out and listed in `rejected`. Images are checked and
+ * handed to `writeImage` as their lines arrive, so they are never all held in memory;
+ * the store is content-addressed, so this touches no existing data.
+ * @param filePath - Archive file
+ * @param writeImage - Stores each valid image
+ * @returns Valid records and the rejected ones with their reasons
+ */
+export const parseBackupArchive = async (filePath: string, writeImage: BackupImageWriter): Promise<ParsedBackup> => {
+  const lines = readArchiveLines(filePath)
+  const first = await lines.next()
+  if (first.done) {
+    throw new Error(NOT_A_BACKUP_MESSAGE)
+  }
+
+  const archive = BackupArchiveSchema.safeParse(first.value)
+  if (!archive.success) {
+    await lines.return(undefined)
+    throw new Error(`The backup manifest is invalid: ${formatValidationIssues(archive.error)}`)
+  }
+  if (archive.data.manifest.schemaVersion > BACKUP_SCHEMA_VERSION) {
+    await lines.return(undefined)
+    throw new Error(`Backup schema version ${archive.data.manifest.schemaVersion} was written by a newer version of the app`)
+  }
+
+  const { store } = archive.data
+  const rejected: RestoreRejection[] = []
+
+  const validateMessages = (records: unknown[], section: 'messages' | 'chatHistory') =>
+    records.flatMap((record, index): ChatMessage[] => {
+      const result = ChatMessageSchema.safeParse(record)
+      if (!result.success) {
+        rejected.push({ section, id: getRecordLabel(record, index), reason: formatValidationIssues(result.error) })
+        return []
+      }
+      return [result.data]
+    })
+
+  const conversations = store.conversations.flatMap((record, index): Conversation[] => {
+    const result = ConversationShellSchema.safeParse(record)
+    if (!result.success) {
+      rejected.push({ section: 'conversations', id: getRecordLabel(record, index), reason: formatValidationIssues(result.error) })
+      return []
+    }
+    return [{ ...result.data, messages: validateMessages(result.data.messages, 'messages') }]
+  })
+
+  // Archives made before conversations existed hold a flat message list
+  const legacyMessages = validateMessages(store.chatHistory, 'chatHistory')
+  conversations.push(...migrateLegacyChatHistory(legacyMessages))
+
+  let settings: Settings | undefined
+  if (store.settings !== undefined) {
+    const result = SettingsSchema.safeParse(store.settings)
+    if (result.success) {
+      settings = result.data
+    } else {
+      rejected.push({ section: 'settings', id: 'settings', reason: formatValidationIssues(result.error) })
+    }
+  }
+
+  const promptTemplates = store.promptTemplates.flatMap((record, index): PromptTemplate[] => {
+    const result = PromptTemplateSchema.safeParse(record)
+    if (!result.success) {
+      rejected.push({ section: 'promptTemplates', id: getRecordLabel(record, index), reason: formatValidationIssues(result.error) })
+      return []
+    }
+    return [result.data]
+  })
+
+  let imageCount = 0
+  const restoreImage = async (record: unknown, index: number) => {
+    const id = getRecordLabel(record, index)
+    const result = BackupImageSchema.safeParse(record)
+    if (!result.success) {
+      rejected.push({ section: 'images', id, reason: formatValidationIssues(result.error) })
+      return
+    }
+
+    const validation = validateImageData(result.data.data, result.data.mimeType)
+    if (!validation.isValid) {
+      rejected.push({ section: 'images', id, reason: validation.error ?? 'Invalid image data' })
+      return
+    }
+
+    // The store is content-addressed, so an image whose bytes don't match its hash is corrupt
+    const hash = createHash('sha256').update(Buffer.from(result.data.data, 'base64')).digest('hex')
+    if (hash !== result.data.hash) {
+      rejected.push({ section: 'images', id, reason: 'Image data does not match its hash' })
+      return
+    }
+    await writeImage(result.data)
+    imageCount++
+  }
+
+  let index = 0
+  for (const record of archive.data.images) {
+    await restoreImage(record, index++)
+  }
+  for await (const record of lines) {
+    await restoreImage(record, index++)
+  }
+
+  return { conversations, settings, promptTemplates, imageCount, rejected }
+}
+
+/**
+ * Merge restored conversations into existing ones
+ *
+ * Conversations are matched by ID; messages missing from an existing
+ * conversation are added and the thread is re-sorted by time.
+ */
+export const mergeConversations = (existing: Conversation[], restored: Conversation[]): Conversation[] => {
+  const merged = existing.map(conversation => ({ ...conversation, messages: [...conversation.messages] }))
+  const byId = new Map(merged.map(conversation => [conversation.id, conversation]))
+
+  for (const conversation of restored) {
+    const current = byId.get(conversation.id)
+    if (!current) {
+      merged.push(conversation)
+      byId.set(conversation.id, conversation)
+      continue
+    }
+
+    const messageIds = new Set(current.messages.map(message => message.id))
+    const added = conversation.messages.filter(message => !messageIds.has(message.id))
+    if (added.length > 0) {
+      current.messages = [...current.messages, ...added]
+        .sort((a, b) => a.timestamp - b.timestamp)
+      current.updatedAt = Math.max(current.updatedAt, conversation.updatedAt)
+    }
+  }
+
+  return merged
+}
+
+/**
+ * Combine restored templates with existing ones, enforcing the template limit
+ * @param existing - Current user templates (empty when replacing)
+ * @param restored - Valid templates from the archive
+ * @param rejected - Receives templates over the limit
+ */
+export const mergePromptTemplates = (
+  existing: PromptTemplate[],
+  restored: PromptTemplate[],
+  rejected: RestoreRejection[]
+): PromptTemplate[] => {
+  const ids = new Set(existing.map(template => template.id))
+  const merged = [...existing]
+
+  for (const template of restored) {
+    if (ids.has(template.id)) continue
+    if (merged.length >= MAX_PROMPT_TEMPLATES) {
+      rejected.push({ section: 'promptTemplates', id: template.id, reason: `Template limit of ${MAX_PROMPT_TEMPLATES} reached` })
+      continue
+    }
+    ids.add(template.id)
+    merged.push(template)
+  }
+
+  return merged
+}
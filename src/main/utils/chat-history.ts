@@ -0,0 +1,62 @@
+// Conversion of renderer conversation turns into Gemini chat content
+import type { Content, Part } from '@google/generative-ai'
+import type { ConversationTurn, ImagePayload } from '../../types/electron'
+
+/** Conversation turn with its attachments loaded from the image store */
+export interface ResolvedTurn extends Omit<ConversationTurn, 'attachments'> {
+  images: ImagePayload[]
+}
+
+/**
+ * Build the Gemini parts for a single turn
+ * @param text - Turn text, omitted when empty
+ * @param images - Inline images attached to the turn
+ * @returns Parts array with text first, followed by the images
+ */
+export const buildParts = (text: string, images: ImagePayload[] = []): Part[] => {
+  const parts: Part[] = []
+  if (text.trim()) {
+    parts.push({ text })
+  }
+  for (const image of images) {
+    parts.push({ inlineData: { mimeType: image.mimeType, data: image.data } })
+  }
+  return parts
+}
+
+/**
+ * Convert a conversation plus the new prompt into Gemini chat contents
+ *
+ * Gemini expects contents to start with a user turn and alternate between
+ * 'user' and 'model', so consecutive turns from the same role (e.g. a prompt
+ * whose answer failed) are merged and leading assistant turns are dropped.
+ * @param turns - Prior conversation turns in chronological order
+ * @param promptParts - Parts of the new user prompt
+ * @returns Content array whose last entry is the new user turn
+ */
+export const buildChatContents = (turns: ResolvedTurn[], promptParts: Part[]): Content[] => {
+  const contents: Content[] = []
+  const allTurns: Content[] = [
+    ...turns.map(turn => ({
+      role: turn.role === 'assistant' ? 'model' : 'user',
+      parts: buildParts(turn.content, turn.images)
+    })),
+    { role: 'user', parts: promptParts }
+  ]
+
+  for (const turn of allTurns) {
+    if (turn.parts.length === 0) continue
+
+    // Contents must open with a user turn
+    if (contents.length === 0 && turn.role === 'model') continue
+
+    const previous = contents[contents.length - 1]
+    if (previous && previous.role === turn.role) {
+      previous.parts.push(...turn.parts)
+    } else {
+      contents.push({ role: turn.role, parts: [...turn.parts] })
+    }
+  }
+
+  return contents
+}
@@ -0,0 +1,27 @@
+// Grounds the model's color commentary in palettes measured by the renderer
+import type { ImagePayload } from '../../types/electron'
+
+/**
+ * Append the measured palettes of the attached images to a prompt
+ * @param prompt - The user's prompt
+ * @param images - Attached images, in request order
+ * @returns The prompt with one palette line per image, or the prompt unchanged if none were measured
+ */
+export const appendPalettesToPrompt = (prompt: string, images: ImagePayload[]): string => {
+  const lines = images.flatMap((image, index) => {
+    if (!image.palette?.length) return []
+    const colors = image.palette
+      .map(color => `${color.hex} rgb(${color.rgb.join(', ')}) ${color.percentage}%`)
+      .join('; ')
+    const label = images.length > 1 ? `Image ${index + 1}` : 'Image'
+    return [`- ${label}: ${colors}`]
+  })
+
+  if (lines.length === 0) {
+    return prompt
+  }
+  return `${prompt}
+
+Measured dominant colors (share of pixels), for reference when discussing color:
+${lines.join('\n')}`
+}
@@ -0,0 +1,169 @@
+// Conversation export as a Markdown or self-contained HTML report (PDF is printed from the HTML)
+import { unified } from 'unified'
+import remarkParse from 'remark-parse'
+import remarkGfm from 'remark-gfm'
+import remarkRehype from 'remark-rehype'
+import rehypeStringify from 'rehype-stringify'
+import type { ChatMessage, Conversation, PaletteColor, StructuredAnalysis } from '../../types/electron'
+import { formatTimestamp } from '../../utils/formatting'
+import { getDisplayImageHash } from '../../utils/validation'
+
+// Raw HTML in answers is dropped by remark-rehype, so the output is safe to embed
+const markdownProcessor = unified().use(remarkParse).use(remarkGfm).use(remarkRehype).use(rehypeStringify)
+
+const ROLE_LABELS: Record<ChatMessage['role'], string> = {
+  user: 'Prompt',
+  assistant: 'Analysis'
+}
+
+const getMessageLabel = (message: ChatMessage) =>
+  message.status === 'cancelled' ? `${ROLE_LABELS[message.role]} (cancelled)` : ROLE_LABELS[message.role]
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+
+const formatPalette = (palette: PaletteColor[]) =>
+  palette.map(color => `${color.hex} (${color.percentage}%)`).join(', ')
+
+/**
+ * Write a structured analysis as Markdown sections
+ */
+const structuredToMarkdown = (analysis: StructuredAnalysis): string => {
+  const list = (items: string[]) => items.length > 0 ? items.map(item => `- ${item}`).join('\n') : '_None noted_'
+  return [
+    `**Style:** ${analysis.style}`,
+    `**Period:** ${analysis.period}`,
+    `**Medium:** ${analysis.mediumGuess}`,
+    `**Palette:** ${analysis.palette.join(', ') || '_None noted_'}`,
+    `**Confidence:** ${Math.round(analysis.confidence * 100)}%`,
+    `#### Composition\n\n${analysis.compositionNotes}`,
+    `#### Strengths\n\n${list(analysis.strengths)}`,
+    `#### Weaknesses\n\n${list(analysis.weaknesses)}`
+  ].join('\n\n')
+}
+
+/**
+ * Message body as Markdown; user prompts are quoted as typed, answers are already Markdown
+ */
+const messageToMarkdown = (message: ChatMessage): string => {
+  if (message.structured) {
+    return structuredToMarkdown(message.structured)
+  }
+  if (message.role === 'user') {
+    return message.content.split('\n').map(line => `> ${line}`).join('\n')
+  }
+  return message.content
+}
+
+/**
+ * Build a Markdown report of a conversation
+ * @param conversation - Conversation to export
+ * @param getImagePath - Relative path of the exported copy of a stored image (converted formats use their converted copy)
+ * @param exportedAt - Export time, also the reference for relative timestamps
+ * @returns Markdown document
+ */
+export const buildMarkdownReport = (
+  conversation: Conversation,
+  getImagePath: (hash: string) => string | undefined,
+  exportedAt = Date.now()
+): string => {
+  const sections = conversation.messages.map(message => {
+    const images = (message.attachments ?? []).flatMap((attachment, index) => {
+      const path = getImagePath(getDisplayImageHash(attachment))
+      if (!path) return []
+      const palette = attachment.palette?.length ? `\n\n_Colors: ${formatPalette(attachment.palette)}_` : ''
+      return [`![Artwork ${index + 1}](${encodeURI(path)})${palette}`]
+    })
+
+    return [
+      `### ${getMessageLabel(message)} · ${formatTimestamp(message.timestamp, exportedAt)}`,
+      ...images,
+      messageToMarkdown(message)
+    ].join('\n\n')
+  })
+
+  const header = `# ${conversation.title}\n\n_Exported ${new Date(exportedAt).toLocaleString('en-US')} from Art Analyst_`
+  return [header, ...sections].join('\n\n---\n\n') + '\n'
+}
+
+const REPORT_STYLES = `
+  body { font-family: -apple-system, 'Segoe UI', Roboto, sans-serif; color: #1f2328; max-width: 820px; margin: 2rem auto; padding: 0 1.5rem; line-height: 1.55; }
+  header { border-bottom: 1px solid #d0d7de; margin-bottom: 1.5rem; }
+  header p { color: #59636e; margin-top: 0; }
+  .message { margin-bottom: 1.75rem; page-break-inside: avoid; }
+  .message h2 { font-size: 0.85rem; text-transform: uppercase; letter-spacing: 0.04em; color: #59636e; margin-bottom: 0.5rem; }
+  .prompt { background: #f6f8fa; border-left: 4px solid #5865f2; padding: 0.75rem 1rem; white-space: pre-wrap; }
+  .artwork { display: flex; flex-wrap: wrap; gap: 0.75rem; margin-bottom: 0.75rem; }
+  .artwork figure { margin: 0; }
+  .artwork img { max-width: 360px; max-height: 300px; border: 1px solid #d0d7de; border-radius: 4px; }
+  .swatches { display: flex; gap: 4px; margin-top: 4px; }
+  .swatch { width: 18px; height: 18px; border-radius: 3px; border: 1px solid rgba(0,0,0,0.15); }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #d0d7de; padding: 4px 8px; text-align: left; }
+  pre { background: #f6f8fa; padding: 0.75rem; overflow-x: auto; }
+  blockquote { border-left: 4px solid #d0d7de; margin-left: 0; padding-left: 1rem; color: #59636e; }
+`
+
+/**
+ * Build a self-contained HTML report of a conversation
+ * @param conversation - Conversation to export
+ * @param getImageSource - Data URL of a stored image, embedded so the file needs nothing else (converted formats use their converted copy)
+ * @param exportedAt - Export time, also the reference for relative timestamps
+ * @returns HTML document
+ */
+export const buildHtmlReport = (
+  conversation: Conversation,
+  getImageSource: (hash: string) => string | undefined,
+  exportedAt = Date.now()
+): string => {
+  const sections = conversation.messages.map(message => {
+    const figures = (message.attachments ?? []).flatMap((attachment, index) => {
+      const source = getImageSource(getDisplayImageHash(attachment))
+      if (!source) return []
+      const swatches = attachment.palette?.length
+        ? `<div class="swatches">${attachment.palette.map(color =>
+          `<span class="swatch" style="background:${escapeHtml(color.hex)}" title="${escapeHtml(`${color.hex} ${color.percentage}%`)}"></span>`
+        ).join('')}</div>`
+        : ''
+      return [`<figure><img src="${source}" alt="Artwork ${index + 1}">${swatches}</figure>`]
+    })
+
+    const body = message.role === 'user' && !message.structured
+      ? `<div class="prompt">${escapeHtml(message.content)}</div>`
+      : `<div class="answer">${String(markdownProcessor.processSync(messageToMarkdown(message)))}</div>`
+
+    return `<section class="message">
+  <h2>${escapeHtml(getMessageLabel(message))} · ${escapeHtml(formatTimestamp(message.timestamp, exportedAt))}</h2>
+  ${figures.length > 0 ? `<div class="artwork">${figures.join('')}</div>` : ''}
+  ${body}
+</section>`
+  })
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(conversation.title)}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(conversation.title)}</h1>
+  <p>Exported ${escapeHtml(new Date(exportedAt).toLocaleString('en-US'))} from Art Analyst</p>
+</header>
+${sections.join('\n')}
+</body>
+</html>
+`
+}
+
+/**
+ * Turn a conversation title into a safe default file name (without extension)
+ */
+export const toExportFileName = (title: string): string =>
+  title.replace(/[\\/:*?"<>|\r\n]+/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 80) || 'conversation'
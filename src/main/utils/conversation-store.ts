@@ -0,0 +1,62 @@
+// Conversation metadata kept in the store, validated once and cached so saving a message never rewrites the store
+import type { ChatMessage, StoredConversation } from '../../types/electron'
+import { validateStoredConversations } from '../../types/schemas'
+import type { MessageLog } from './message-log'
+
+/** The part of electron-store this module uses */
+export interface ConversationMetadataStore {
+  get: (key: 'conversations', defaultValue: StoredConversation[]) => unknown
+  set: (key: 'conversations', value: StoredConversation[]) => void
+}
+
+export interface ConversationStore {
+  /** @returns Copies of the stored conversations, with updatedAt raised to their newest logged message */
+  load: () => StoredConversation[]
+  /** Replace the stored conversations */
+  save: (conversations: StoredConversation[]) => void
+  has: (conversationId: string) => boolean
+  /**
+   * Append a message to a conversation; the store is not written, as updatedAt is read back from the log
+   * @returns False if the conversation does not exist
+   */
+  saveMessage: (conversationId: string, message: ChatMessage) => Promise<boolean>
+}
+
+/**
+ * Create the conversation metadata store
+ *
+ * The store is read and validated on first use only; this module must be its sole
+ * writer afterwards, so run store migrations before the first call.
+ * @param store - Application electron-store
+ * @param messageLog - Open message log holding the conversations' messages
+ */
+export const createConversationStore = (store: ConversationMetadataStore, messageLog: MessageLog): ConversationStore => {
+  let cached: StoredConversation[] | null = null
+
+  const getCached = () => {
+    cached ??= validateStoredConversations(store.get('conversations', []))
+    return cached
+  }
+
+  const load = () => getCached().map(conversation => ({
+    ...conversation,
+    updatedAt: Math.max(conversation.updatedAt, messageLog.getLatestTimestamp(conversation.id) ?? 0)
+  }))
+
+  const save = (conversations: StoredConversation[]) => {
+    store.set('conversations', conversations)
+    cached = conversations.map(conversation => ({ ...conversation }))
+  }
+
+  const has = (conversationId: string) => getCached().some(conversation => conversation.id === conversationId)
+
+  const saveMessage = async (conversationId: string, message: ChatMessage) => {
+    if (!has(conversationId)) {
+      return false
+    }
+    await messageLog.append(conversationId, message)
+    return true
+  }
+
+  return { load, save, has, saveMessage }
+}
@@ -0,0 +1,87 @@
+// Conversation helpers for creation, titling and legacy history migration
+import { randomUUID } from 'crypto'
+import type { ChatMessage, Conversation } from '../../types/electron'
+import { DEFAULT_CONVERSATION_TITLE, MAX_CONVERSATION_TITLE_LENGTH } from '../../config/constants'
+
+/**
+ * Normalize a conversation title to a single trimmed line within the length limit
+ * @param title - Raw title text
+ * @returns Cleaned title, or an empty string if nothing usable remains
+ */
+export const normalizeConversationTitle = (title: string): string => {
+  const singleLine = title
+    .replace(/[\r\n]+/g, ' ')
+    .replace(/^["'#*\s]+|["'*\s.]+$/g, '')
+    .replace(/\s{2,}/g, ' ')
+    .trim()
+
+  if (singleLine.length <= MAX_CONVERSATION_TITLE_LENGTH) {
+    return singleLine
+  }
+  return singleLine.substring(0, MAX_CONVERSATION_TITLE_LENGTH).trim() + '...'
+}
+
+/**
+ * Create an empty conversation
+ * @param title - Optional initial title, defaults to DEFAULT_CONVERSATION_TITLE
+ * @param now - Creation timestamp
+ * @returns New conversation with no messages
+ */
+export const createConversation = (title?: string, now = Date.now()): Conversation => ({
+  id: randomUUID(),
+  title: normalizeConversationTitle(title || '') || DEFAULT_CONVERSATION_TITLE,
+  createdAt: now,
+  updatedAt: now,
+  messages: []
+})
+
+/**
+ * Build the prompt asking the model to title a conversation from its first exchange
+ * @param conversation - Conversation containing at least one user message
+ * @returns Prompt text, or null if there is no exchange to summarize
+ */
+export const buildTitlePrompt = (conversation: Conversation): string | null => {
+  const firstPrompt = conversation.messages.find(msg => msg.role === 'user')
+  const firstAnswer = conversation.messages.find(msg => msg.role === 'assistant')
+  if (!firstPrompt || !firstAnswer) {
+    return null
+  }
+
+  return [
+    'Write a short title (at most 6 words) for an art analysis conversation that starts with the exchange below.',
+    'Reply with the title only, without quotes or punctuation at the end.',
+    '',
+    `User: ${firstPrompt.content}`,
+    `Assistant: ${firstAnswer.content.substring(0, 2000)}`
+  ].join('\n')
+}
+
+/**
+ * Split a legacy flat chat history into conversations
+ *
+ * Before conversations existed every analysis was a one-shot request, so each
+ * user message together with the replies that follow it becomes its own
+ * conversation, titled after the prompt.
+ * @param messages - Legacy chatHistory messages in chronological order
+ * @returns Conversations preserving the original message ids and timestamps
+ */
+export const migrateLegacyChatHistory = (messages: ChatMessage[]): Conversation[] => {
+  const conversations: Conversation[] = []
+
+  for (const message of messages) {
+    const current = conversations[conversations.length - 1]
+    if (message.role === 'user' || !current) {
+      const conversation = createConversation(
+        message.role === 'user' ? message.content : undefined,
+        message.timestamp
+      )
+      conversation.messages.push(message)
+      conversations.push(conversation)
+    } else {
+      current.messages.push(message)
+      current.updatedAt = Math.max(current.updatedAt, message.timestamp)
+    }
+  }
+
+  return conversations
+}
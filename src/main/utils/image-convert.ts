@@ -0,0 +1,139 @@
+// Conversion of image formats the model doesn't accept (TIFF, BMP, AVIF, HEIC, SVG) into a decoded image
+import { app, BrowserWindow, nativeImage } from 'electron'
+import type { NativeImage } from 'electron'
+import { randomUUID } from 'crypto'
+import { promises as fs } from 'fs'
+import { join } from 'path'
+import type { ImagePayload } from '../../types/electron'
+import { ImageDecodeError } from '../../types/errors'
+import { IMAGE_CONVERSION_TIMEOUT_MS } from '../../config/constants'
+import { getImageExtension } from './image-store'
+
+/** Decoded image with the size of the file it came from */
+export interface ConvertedImage {
+  image: NativeImage
+  originalWidth: number
+  originalHeight: number
+}
+
+const FORMAT_NAMES: Record<string, string> = {
+  'image/tiff': 'TIFF',
+  'image/bmp': 'BMP',
+  'image/avif': 'AVIF',
+  'image/heic': 'HEIC',
+  'image/heif': 'HEIF',
+  'image/svg+xml': 'SVG'
+}
+
+const SVG_MIME_TYPE = 'image/svg+xml'
+
+/**
+ * Script run in the hidden window: decode with Chromium's decoders and draw onto a canvas
+ *
+ * SVGs are drawn with their long edge at maxLongEdge whatever their own size; an SVG
+ * without a size of its own is drawn square. Other formats are only ever scaled down.
+ */
+const buildRasterizeScript = (source: string, maxLongEdge: number, isVector: boolean) => `(async () => {
+  const image = new Image()
+  image.src = ${JSON.stringify(source)}
+  try {
+    await image.decode()
+  } catch {
+    return null
+  }
+  const width = image.naturalWidth || ${maxLongEdge}
+  const height = image.naturalHeight || ${maxLongEdge}
+  const fit = ${maxLongEdge} / Math.max(width, height)
+  const scale = ${isVector} ? fit : Math.min(1, fit)
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(width * scale))
+  canvas.height = Math.max(1, Math.round(height * scale))
+  canvas.getContext('2d').drawImage(image, 0, 0, canvas.width, canvas.height)
+  return { dataUrl: canvas.toDataURL('image/png'), width, height }
+})()`
+
+/**
+ * Decode an image in a hidden window, which covers BMP, AVIF and SVG on every platform
+ * @returns Decoded image, or null if Chromium can't decode the format
+ */
+const rasterizeInHiddenWindow = async (image: ImagePayload, maxLongEdge: number): Promise<ConvertedImage | null> => {
+  // <img> never runs scripts or loads resources referenced by an SVG
+  const rasterWindow = new BrowserWindow({
+    show: false,
+    webPreferences: {
+      sandbox: true,
+      contextIsolation: true,
+      nodeIntegration: false
+    }
+  })
+  let timer: NodeJS.Timeout | undefined
+
+  try {
+    await rasterWindow.loadURL('about:blank')
+    const source = `data:${image.mimeType};base64,${image.data}`
+    const script = buildRasterizeScript(source, maxLongEdge, image.mimeType === SVG_MIME_TYPE)
+    const timeout = new Promise<null>(resolve => {
+      timer = setTimeout(() => resolve(null), IMAGE_CONVERSION_TIMEOUT_MS)
+    })
+    const result: { dataUrl: string; width: number; height: number } | null =
+      await Promise.race([rasterWindow.webContents.executeJavaScript(script), timeout])
+    if (!result) {
+      return null
+    }
+
+    const decoded = nativeImage.createFromDataURL(result.dataUrl)
+    return decoded.isEmpty() ? null : { image: decoded, originalWidth: result.width, originalHeight: result.height }
+  } catch (error) {
+    console.error('Image conversion in the hidden window failed:', error)
+    return null
+  } finally {
+    clearTimeout(timer)
+    rasterWindow.destroy()
+  }
+}
+
+/**
+ * Decode an image with the system thumbnailer, which on macOS and Windows also reads formats such as HEIC and TIFF
+ * @returns Image no larger than maxLongEdge, or null on other platforms or if the system can't decode it either
+ */
+const createSystemThumbnail = async (image: ImagePayload, maxLongEdge: number): Promise<NativeImage | null> => {
+  if (process.platform !== 'darwin' && process.platform !== 'win32') {
+    return null
+  }
+
+  // The thumbnailer picks its decoder by file extension
+  const path = join(app.getPath('temp'), `art-analyst-convert-${randomUUID()}.${getImageExtension(image.mimeType) ?? 'img'}`)
+  try {
+    await fs.writeFile(path, Buffer.from(image.data, 'base64'))
+    const thumbnail = await nativeImage.createThumbnailFromPath(path, { width: maxLongEdge, height: maxLongEdge })
+    return thumbnail.isEmpty() ? null : thumbnail
+  } catch (error) {
+    console.error('System thumbnailer could not decode the image:', error)
+    return null
+  } finally {
+    await fs.rm(path, { force: true })
+  }
+}
+
+/**
+ * Decode an image in a format the model doesn't accept, so it can be re-encoded as JPEG or PNG
+ * @param image - Validated payload with a lowercase MIME type from CONVERTED_IMAGE_TYPES
+ * @param maxLongEdge - Longest side of the result; SVGs are rasterized at exactly this size
+ * @throws ImageDecodeError if neither Chromium nor the system can decode the image
+ */
+export const convertImage = async (image: ImagePayload, maxLongEdge: number): Promise<ConvertedImage> => {
+  const rasterized = await rasterizeInHiddenWindow(image, maxLongEdge)
+  if (rasterized) {
+    return rasterized
+  }
+
+  // Thumbnails keep no record of the full size, so the thumbnail's own size is reported
+  const thumbnail = image.mimeType === SVG_MIME_TYPE ? null : await createSystemThumbnail(image, maxLongEdge)
+  if (thumbnail) {
+    const { width, height } = thumbnail.getSize()
+    return { image: thumbnail, originalWidth: width, originalHeight: height }
+  }
+
+  const format = FORMAT_NAMES[image.mimeType] ?? image.mimeType
+  throw new ImageDecodeError(`This ${format} image could not be decoded on this system. Convert it to PNG or JPEG and try again.`)
+}
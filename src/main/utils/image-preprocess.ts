@@ -0,0 +1,161 @@
+// Image preprocessing before analysis: downsize, apply EXIF orientation and re-encode without metadata
+import { nativeImage } from 'electron'
+import type { NativeImage } from 'electron'
+import type { ImagePayload } from '../../types/electron'
+import { PREPROCESS_JPEG_QUALITY } from '../../config/constants'
+import { isConvertedImageType } from '../../utils/validation'
+import { convertImage } from './image-convert'
+
+/** Version of an image prepared for the model, with what was changed */
+export interface PreprocessedImage {
+  payload: ImagePayload
+  width: number
+  height: number
+  bytes: number
+  /** Size as displayed, i.e. after applying the EXIF orientation */
+  originalWidth: number
+  originalHeight: number
+  originalBytes: number
+}
+
+const EXIF_ORIENTATION_TAG = 0x0112
+
+/**
+ * Read the EXIF orientation of a JPEG
+ * @returns Orientation from 1 (as stored) to 8, 1 when absent or unreadable
+ */
+export const readJpegOrientation = (bytes: Buffer): number => {
+  try {
+    if (bytes.readUInt16BE(0) !== 0xffd8) return 1
+
+    let offset = 2
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+      const marker = bytes[offset + 1]
+      const length = bytes.readUInt16BE(offset + 2)
+      // Metadata segments all come before the image data
+      if (marker === 0xda || marker === 0xd9) return 1
+
+      if (marker === 0xe1 && bytes.toString('latin1', offset + 4, offset + 10) === 'Exif\0\0') {
+        const tiff = offset + 10
+        const littleEndian = bytes.toString('latin1', tiff, tiff + 2) === 'II'
+        const read16 = (at: number) => littleEndian ? bytes.readUInt16LE(at) : bytes.readUInt16BE(at)
+        const read32 = (at: number) => littleEndian ? bytes.readUInt32LE(at) : bytes.readUInt32BE(at)
+
+        const ifd = tiff + read32(tiff + 4)
+        const entryCount = read16(ifd)
+        for (let index = 0; index < entryCount; index++) {
+          const entry = ifd + 2 + index * 12
+          if (read16(entry) === EXIF_ORIENTATION_TAG) {
+            const orientation = read16(entry + 8)
+            return orientation >= 1 && orientation <= 8 ? orientation : 1
+          }
+        }
+        return 1
+      }
+      offset += 2 + length
+    }
+  } catch {
+    // Truncated or malformed EXIF: treat the image as upright
+  }
+  return 1
+}
+
+/**
+ * Turn a 4-byte-per-pixel bitmap upright according to its EXIF orientation
+ * @returns New bitmap and its size (width and height swap for orientations 5 to 8)
+ */
+export const orientBitmap = (
+  bitmap: Buffer,
+  width: number,
+  height: number,
+  orientation: number
+): { bitmap: Buffer; width: number; height: number } => {
+  if (orientation <= 1 || orientation > 8) {
+    return { bitmap, width, height }
+  }
+
+  const swapsAxes = orientation >= 5
+  const outWidth = swapsAxes ? height : width
+  const outHeight = swapsAxes ? width : height
+  // Source pixel shown at each output position
+  const sourceOf: Record<number, (x: number, y: number) => [number, number]> = {
+    2: (x, y) => [width - 1 - x, y],
+    3: (x, y) => [width - 1 - x, height - 1 - y],
+    4: (x, y) => [x, height - 1 - y],
+    5: (x, y) => [y, x],
+    6: (x, y) => [y, height - 1 - x],
+    7: (x, y) => [width - 1 - y, height - 1 - x],
+    8: (x, y) => [width - 1 - y, x]
+  }
+  const source = sourceOf[orientation]
+
+  // Move whole pixels as 32-bit words (the copy also guarantees the alignment Uint32Array needs)
+  const pixels = new Uint32Array(Uint8Array.from(bitmap).buffer)
+  const oriented = new Uint32Array(pixels.length)
+  for (let y = 0; y < outHeight; y++) {
+    for (let x = 0; x < outWidth; x++) {
+      const [sx, sy] = source(x, y)
+      oriented[y * outWidth + x] = pixels[sy * width + sx]
+    }
+  }
+  return { bitmap: Buffer.from(oriented.buffer), width: outWidth, height: outHeight }
+}
+
+const hasTransparency = (bitmap: Buffer): boolean => {
+  for (let index = 3; index < bitmap.length; index += 4) {
+    if (bitmap[index] !== 255) return true
+  }
+  return false
+}
+
+/**
+ * Prepare an image for the model
+ *
+ * Downsizes to maxLongEdge, applies the EXIF orientation and re-encodes, which drops
+ * EXIF (including GPS) and other metadata. Opaque images become JPEG, transparent ones PNG.
+ * Formats the model doesn't accept (TIFF, HEIC, SVG...) are converted first.
+ * @param image - Validated image payload
+ * @param maxLongEdge - Longest side of the sent image in pixels
+ * @returns Prepared image, or null if a format the model accepts can't be decoded here (it is then sent as is)
+ * @throws ImageDecodeError if a format that needs converting can't be decoded
+ */
+export const preprocessImage = async (image: ImagePayload, maxLongEdge: number): Promise<PreprocessedImage | null> => {
+  const bytes = Buffer.from(image.data, 'base64')
+  const mimeType = image.mimeType.toLowerCase()
+  // Converted images come out upright: Chromium and the system thumbnailer apply the orientation themselves
+  const converted = isConvertedImageType(mimeType) ? await convertImage({ data: image.data, mimeType }, maxLongEdge) : null
+  let decoded: NativeImage = converted ? converted.image : nativeImage.createFromBuffer(bytes)
+  if (decoded.isEmpty()) {
+    return null
+  }
+
+  const orientation = /^image\/jpe?g$/.test(mimeType) ? readJpegOrientation(bytes) : 1
+  const { width: storedWidth, height: storedHeight } = decoded.getSize()
+  const scale = Math.min(1, maxLongEdge / Math.max(storedWidth, storedHeight))
+  if (scale < 1) {
+    decoded = decoded.resize({
+      width: Math.max(1, Math.round(storedWidth * scale)),
+      height: Math.max(1, Math.round(storedHeight * scale)),
+      quality: 'best'
+    })
+  }
+
+  const size = decoded.getSize()
+  const upright = orientBitmap(decoded.toBitmap(), size.width, size.height, orientation)
+  const result = orientation > 1
+    ? nativeImage.createFromBitmap(upright.bitmap, { width: upright.width, height: upright.height })
+    : decoded
+
+  const isTransparent = hasTransparency(upright.bitmap)
+  const encoded = isTransparent ? result.toPNG() : result.toJPEG(PREPROCESS_JPEG_QUALITY)
+  const swapsAxes = orientation >= 5
+  return {
+    payload: { data: encoded.toString('base64'), mimeType: isTransparent ? 'image/png' : 'image/jpeg' },
+    width: upright.width,
+    height: upright.height,
+    bytes: encoded.length,
+    originalWidth: converted?.originalWidth ?? (swapsAxes ? storedHeight : storedWidth),
+    originalHeight: converted?.originalHeight ?? (swapsAxes ? storedWidth : storedHeight),
+    originalBytes: bytes.length
+  }
+}
@@ -0,0 +1,165 @@
+// Content-addressed image store under the app's userData directory
+import { app } from 'electron'
+import { createHash } from 'crypto'
+import { promises as fs } from 'fs'
+import { join } from 'path'
+import type { ImageAttachment, ImagePayload } from '../../types/electron'
+import { IMAGE_STORE_DIRECTORY, IMAGE_GC_GRACE_PERIOD_MS } from '../../config/constants'
+
+/** File extension used for each stored MIME type */
+const EXTENSION_BY_MIME_TYPE: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/tiff': 'tiff',
+  'image/bmp': 'bmp',
+  'image/avif': 'avif',
+  'image/heic': 'heic',
+  'image/heif': 'heif',
+  'image/svg+xml': 'svg'
+}
+
+const MIME_TYPE_BY_EXTENSION: Record<string, string> = {
+  jpg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  tiff: 'image/tiff',
+  bmp: 'image/bmp',
+  avif: 'image/avif',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  svg: 'image/svg+xml'
+}
+
+/** SHA-256 hex digest, the only accepted form of an image hash */
+const HASH_PATTERN = /^[a-f0-9]{64}$/
+
+/**
+ * Check that a string is a well-formed image hash (guards every path built from one)
+ */
+export const isImageHash = (hash: string): boolean => HASH_PATTERN.test(hash)
+
+/**
+ * File extension for a stored image's MIME type (e.g. 'jpg'), or undefined if unsupported
+ */
+export const getImageExtension = (mimeType: string): string | undefined => EXTENSION_BY_MIME_TYPE[mimeType.toLowerCase()]
+
+const getImageStoreDir = () => join(app.getPath('userData'), IMAGE_STORE_DIRECTORY)
+
+/**
+ * Find the stored file for a hash, whatever its extension
+ * @returns Absolute path and MIME type, or null if no such image is stored
+ */
+const findImageFile = async (hash: string): Promise<{ path: string; mimeType: string } | null> => {
+  if (!isImageHash(hash)) {
+    return null
+  }
+
+  for (const [extension, mimeType] of Object.entries(MIME_TYPE_BY_EXTENSION)) {
+    const path = join(getImageStoreDir(), `${hash}.${extension}`)
+    try {
+      await fs.access(path)
+      return { path, mimeType }
+    } catch {
+      // Try the next extension
+    }
+  }
+  return null
+}
+
+/**
+ * Store an image, deduplicated by the SHA-256 hash of its bytes
+ * @param image - Base64 image data and MIME type (already validated)
+ * @returns Attachment referencing the stored image
+ */
+export const saveImage = async (image: ImagePayload): Promise<ImageAttachment> => {
+  const mimeType = image.mimeType.toLowerCase()
+  const extension = EXTENSION_BY_MIME_TYPE[mimeType]
+  if (!extension) {
+    throw new Error(`Unsupported image type: ${image.mimeType}`)
+  }
+
+  const bytes = Buffer.from(image.data, 'base64')
+  const hash = createHash('sha256').update(bytes).digest('hex')
+
+  const existing = await findImageFile(hash)
+  if (existing) {
+    // Restart the garbage collection grace period, which may have run out for an unreferenced copy
+    const now = new Date()
+    await fs.utimes(existing.path, now, now)
+  } else {
+    await fs.mkdir(getImageStoreDir(), { recursive: true })
+    // Write to a temporary file first so a crash never leaves a truncated image behind
+    const path = join(getImageStoreDir(), `${hash}.${extension}`)
+    const tempPath = `${path}.tmp`
+    await fs.writeFile(tempPath, bytes)
+    await fs.rename(tempPath, path)
+  }
+
+  return { hash, mimeType: existing?.mimeType ?? MIME_TYPE_BY_EXTENSION[extension] }
+}
+
+/**
+ * Read a stored image
+ * @param hash - Image hash
+ * @returns Raw bytes and MIME type, or null if the image is not stored
+ */
+export const readImage = async (hash: string): Promise<{ bytes: Buffer; mimeType: string } | null> => {
+  const file = await findImageFile(hash)
+  if (!file) {
+    return null
+  }
+  return { bytes: await fs.readFile(file.path), mimeType: file.mimeType }
+}
+
+/**
+ * Read a stored image as an inline payload for the model
+ * @param hash - Image hash
+ * @returns Base64 payload, or null if the image is not stored
+ */
+export const readImagePayload = async (hash: string): Promise<ImagePayload | null> => {
+  const image = await readImage(hash)
+  if (!image) {
+    return null
+  }
+  return { data: image.bytes.toString('base64'), mimeType: image.mimeType }
+}
+
+/**
+ * Delete stored images that no message references any more
+ *
+ * Recently written files are kept so an image saved just before its message
+ * is not collected in between.
+ * @param referencedHashes - Hashes still referenced by any message
+ * @returns Number of images deleted
+ */
+export const collectUnreferencedImages = async (referencedHashes: Set<string>): Promise<number> => {
+  let entries: string[]
+  try {
+    entries = await fs.readdir(getImageStoreDir())
+  } catch {
+    // Nothing stored yet
+    return 0
+  }
+
+  const now = Date.now()
+  let deleted = 0
+  for (const entry of entries) {
+    const hash = entry.split('.')[0]
+    if (referencedHashes.has(hash)) continue
+
+    const path = join(getImageStoreDir(), entry)
+    try {
+      const stats = await fs.stat(path)
+      if (now - stats.mtimeMs < IMAGE_GC_GRACE_PERIOD_MS) continue
+      await fs.unlink(path)
+      deleted++
+    } catch (error) {
+      console.error('Failed to delete unreferenced image:', entry, error)
+    }
+  }
+  return deleted
+}
@@ -1,35 +1,39 @@
 // IPC error handling wrapper for standardized error responses
-import { createErrorResponse } from '../../types/errors'
+import { ipcMain } from 'electron'
+import type { IpcMainInvokeEvent, WebContents } from 'electron'
+import { InvalidArgumentsError, createErrorResponse, createSuccessResponse } from '../../types/errors'
+import type { AppError, IpcResponse } from '../../types/errors'
+import { IPC_CONTRACT, IPC_EVENTS, parseIpcArgs } from '../../types/ipc-contract'
+import type {
+  IpcEventName,
+  IpcEventPayload,
+  IpcHandlerArgs,
+  IpcHandlerResult,
+  IpcInvokeMethod
+} from '../../types/ipc-contract'
 
 /**
  * Wraps IPC handlers with standardized error handling
  * @param handler - The IPC handler function to wrap
- * @param errorType - Optional specific error class to throw
- * @returns Wrapped handler with consistent error handling
+ * @param errorType - Optional error class for failures that aren't already a typed error
+ * @returns Wrapped handler resolving to an IpcResponse envelope
  */
 export function wrapIpcHandler<T>(
   handler: (...args: any[]) => T | Promise<T>,
-  errorType?: new (message?: string) => Error
-): (...args: any[]) => Promise<T> {
-  return async (...args: any[]): Promise<T> => {
+  errorType?: new (message?: string) => AppError
+): (...args: any[]) => Promise<IpcResponse<T>> {
+  return async (...args: any[]): Promise<IpcResponse<T>> => {
     try {
       const result = await handler(...args)
-      return result
+      return createSuccessResponse(result)
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+      const response = createErrorResponse(error, errorType)
       console.error('IPC Handler Error:', {
         handler: handler.name || 'anonymous',
-        error: errorMessage,
+        error: response.success ? undefined : `${response.errorType}: ${response.message}`,
         args: args.slice(1) // Exclude event object from logging
       })
-
-      // Throw specific error type if provided
-      if (errorType) {
-        throw new errorType(errorMessage)
-      }
-
-      // Re-throw original error
-      throw error
+      return response
     }
   }
 }
@@ -37,27 +41,97 @@ export function wrapIpcHandler<T>(
 /**
  * Wraps IPC handlers that return boolean success indicators
  * @param handler - The IPC handler function to wrap
- * @param errorType - Optional specific error class to use
- * @returns Wrapped handler that returns false on error
+ * @param errorType - Optional error class for failures that aren't already a typed error
+ * @returns Wrapped handler resolving to an IpcResponse envelope; false only when the handler reports it
  */
 export function wrapIpcBooleanHandler(
   handler: (...args: any[]) => boolean | Promise<boolean>,
-  errorType?: new (message?: string) => Error
-): (...args: any[]) => Promise<boolean> {
-  return async (...args: any[]): Promise<boolean> => {
+  errorType?: new (message?: string) => AppError
+): (...args: any[]) => Promise<IpcResponse<boolean>> {
+  return async (...args: any[]): Promise<IpcResponse<boolean>> => {
     try {
       const result = await handler(...args)
-      return result
+      return createSuccessResponse(result)
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+      const response = createErrorResponse(error, errorType)
       console.error('IPC Boolean Handler Error:', {
         handler: handler.name || 'anonymous',
-        error: errorMessage,
+        error: response.success ? undefined : `${response.errorType}: ${response.message}`,
         args: args.slice(1) // Exclude event object from logging
       })
+      return response
+    }
+  }
+}
+
+// Main process handler for a contract method; arguments arrive validated
+type IpcHandler<M extends IpcInvokeMethod> = (
+  event: IpcMainInvokeEvent,
+  ...args: IpcHandlerArgs<M>
+) => IpcHandlerResult<M> | Promise<IpcHandlerResult<M>>
+
+// Contract methods that resolve to a boolean success indicator
+type IpcBooleanMethod = {
+  [M in IpcInvokeMethod]: IpcHandlerResult<M> extends boolean ? M : never
+}[IpcInvokeMethod]
+
+/**
+ * Validate the arguments of a call against the contract
+ * @returns Parsed arguments, with defaults applied
+ * @throws InvalidArgumentsError describing what is wrong
+ */
+const validateArgs = (method: IpcInvokeMethod, args: unknown[]): unknown[] => {
+  const parsed = parseIpcArgs(method, args)
+  if (!parsed.success) {
+    throw new InvalidArgumentsError(`Invalid arguments for ${method}: ${parsed.error}`)
+  }
+  return parsed.data
+}
 
-      // Return false for boolean handlers instead of throwing
-      return false
+/**
+ * Register the main process handler of a contract method
+ * @param method - electronAPI method the handler answers
+ * @param handler - Receives the validated arguments
+ * @param errorType - Optional error class for failures that aren't already a typed error
+ */
+export const handleIpc = <M extends IpcInvokeMethod>(
+  method: M,
+  handler: IpcHandler<M>,
+  errorType?: new (message?: string) => AppError
+) => {
+  const run = handler as (event: IpcMainInvokeEvent, ...args: unknown[]) => unknown
+  ipcMain.handle(IPC_CONTRACT[method].channel, wrapIpcHandler(
+    (event: IpcMainInvokeEvent, ...args: unknown[]) => run(event, ...validateArgs(method, args)),
+    errorType
+  ))
+}
+
+/**
+ * Register the handler of a contract method that resolves to a success indicator
+ *
+ * False means the handler declined (e.g. nothing to delete); invalid arguments and failures
+ * inside the handler are reported as typed errors, as with handleIpc.
+ */
+export const handleIpcBoolean = <M extends IpcBooleanMethod>(
+  method: M,
+  handler: IpcHandler<M>,
+  errorType?: new (message?: string) => AppError
+) => {
+  const run = wrapIpcBooleanHandler(handler as (...args: any[]) => boolean | Promise<boolean>, errorType)
+  ipcMain.handle(IPC_CONTRACT[method].channel, async (event, ...args: unknown[]) => {
+    const parsed = parseIpcArgs(method, args)
+    if (!parsed.success) {
+      return createErrorResponse(new InvalidArgumentsError(`Invalid arguments for ${method}: ${parsed.error}`))
     }
+    return run(event, ...(parsed.data as unknown[]))
+  })
+}
+
+/**
+ * Send a contract event to a window, if it is still open
+ */
+export const sendIpcEvent = <E extends IpcEventName>(contents: WebContents, event: E, payload: IpcEventPayload<E>) => {
+  if (!contents.isDestroyed()) {
+    contents.send(IPC_EVENTS[event].channel, payload)
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,440 @@
+// Append-only JSONL message log with an in-memory index, so saving a message never rewrites the history
+import { promises as fs, createReadStream } from 'fs'
+import type { FileHandle } from 'fs/promises'
+import { dirname, join } from 'path'
+import { createInterface } from 'readline'
+import type { ChatHistoryPage, ChatHistoryQuery, ChatMessage } from '../../types/electron'
+import { ChatMessageSchema } from '../../types/schemas'
+import {
+  CHAT_HISTORY_PAGE_SIZE,
+  MESSAGE_LOG_COMPACT_MIN_BYTES,
+  MESSAGE_LOG_COMPACT_RATIO
+} from '../../config/constants'
+
+// Startup checks only the fields the index reads: ID, timestamp and attachments
+const IndexedMessageSchema = ChatMessageSchema.pick({ id: true, timestamp: true, attachments: true })
+
+/** One line of the log; later lines win, deletes are tombstones until the next compaction */
+type LogRecord =
+  | { type: 'message'; conversationId: string; message: ChatMessage }
+  | { type: 'delete-message'; messageId: string }
+  | { type: 'delete-conversation'; conversationId: string }
+
+/** Where a live message sits in the log file */
+interface IndexEntry {
+  conversationId: string
+  offset: number
+  length: number
+  timestamp: number
+  imageHashes: string[]
+}
+
+export interface MessageLog {
+  /** Load the index from disk; must finish before any other call */
+  open: () => Promise<void>
+  close: () => Promise<void>
+  /** Add a message, or replace the one with the same ID */
+  append: (conversationId: string, message: ChatMessage) => Promise<void>
+  /** Add many messages with a single write */
+  appendMany: (entries: { conversationId: string; message: ChatMessage }[]) => Promise<void>
+  /** @returns False if no such message exists */
+  deleteMessage: (messageId: string) => Promise<boolean>
+  deleteConversation: (conversationId: string) => Promise<void>
+  clear: () => Promise<void>
+  /** Swap the whole log for the given messages; a crash leaves either the old or the new log */
+  replaceAll: (entries: { conversationId: string; message: ChatMessage }[]) => Promise<void>
+  /**
+   * Read a page of a conversation, oldest first
+   * @param query - Page size, cursor, and optionally a message the page must reach back to
+   */
+  getPage: (conversationId: string, query?: ChatHistoryQuery) => Promise<ChatHistoryPage>
+  /** Read every message of a conversation, oldest first */
+  getMessages: (conversationId: string) => Promise<ChatMessage[]>
+  countMessages: (conversationId: string) => number
+  /** Timestamp of a conversation's newest message, answered from the index */
+  getLatestTimestamp: (conversationId: string) => number | undefined
+  /** Whether any message of a conversation has an attachment, answered from the index */
+  hasImages: (conversationId: string) => boolean
+  /** Image hashes attached to any live message, for image garbage collection */
+  getReferencedImageHashes: () => Set<string>
+}
+
+const serialize = (record: LogRecord) => Buffer.from(JSON.stringify(record) + '\n', 'utf-8')
+
+/**
+ * Append message records to a log file without opening it as a MessageLog (used by store migrations)
+ * @param filePath - Log file path
+ * @param entries - Messages to append, in order
+ */
+export const appendToMessageLog = async (
+  filePath: string,
+  entries: { conversationId: string; message: ChatMessage }[]
+): Promise<void> => {
+  await fs.mkdir(dirname(filePath), { recursive: true })
+  await fs.appendFile(filePath, Buffer.concat(entries.map(({ conversationId, message }) =>
+    serialize({ type: 'message', conversationId, message })
+  )))
+}
+
+/**
+ * Create a message log backed by the given file
+ *
+ * Every change is one appended line, so saving costs the same at 50 messages or 50,000.
+ * The file is compacted once tombstones and replaced lines make up most of it.
+ * Lines that can't be read are copied to the recovery directory before they leave the log.
+ * @param filePath - Log file path (created on open)
+ * @param recoveryDirectory - Directory receiving unreadable lines, kept for repair by hand
+ */
+export const createMessageLog = (filePath: string, recoveryDirectory: string): MessageLog => {
+  const entries = new Map<string, IndexEntry>()
+  // Conversation ID -> message IDs ordered by timestamp
+  const conversations = new Map<string, string[]>()
+  let handle: FileHandle | null = null
+  let fileSize = 0
+  let liveBytes = 0
+  // Unreadable lines found on open; they stay in the file until compaction copies them to recovery
+  let skippedLines: string[] = []
+
+  // Operations run one at a time so appends, reads and compaction never interleave
+  let queue: Promise<unknown> = Promise.resolve()
+  const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+    const run = queue.then(task)
+    queue = run.catch(() => undefined)
+    return run
+  }
+
+  const getHandle = () => {
+    if (!handle) {
+      throw new Error('Message log is not open')
+    }
+    return handle
+  }
+
+  const unindexMessage = (messageId: string) => {
+    const entry = entries.get(messageId)
+    if (!entry) return false
+
+    const ids = conversations.get(entry.conversationId)
+    if (ids) {
+      ids.splice(ids.lastIndexOf(messageId), 1)
+      if (ids.length === 0) conversations.delete(entry.conversationId)
+    }
+    liveBytes -= entry.length
+    entries.delete(messageId)
+    return true
+  }
+
+  const indexMessage = (conversationId: string, message: ChatMessage, offset: number, length: number) => {
+    unindexMessage(message.id)
+    entries.set(message.id, {
+      conversationId,
+      offset,
+      length,
+      timestamp: message.timestamp,
+      // The sent version of a preprocessed image is kept as long as its original
+      imageHashes: (message.attachments ?? []).flatMap(attachment =>
+        attachment.processed ? [attachment.hash, attachment.processed.hash] : [attachment.hash])
+    })
+    liveBytes += length
+
+    let ids = conversations.get(conversationId)
+    if (!ids) {
+      ids = []
+      conversations.set(conversationId, ids)
+    }
+    // New messages are nearly always the latest, so this is usually a push
+    let position = ids.length
+    while (position > 0 && (entries.get(ids[position - 1])?.timestamp ?? 0) > message.timestamp) {
+      position--
+    }
+    ids.splice(position, 0, message.id)
+  }
+
+  const unindexConversation = (conversationId: string) => {
+    for (const messageId of [...(conversations.get(conversationId) ?? [])]) {
+      unindexMessage(messageId)
+    }
+  }
+
+  const applyRecord = (record: LogRecord, offset: number, length: number) => {
+    switch (record.type) {
+      case 'message':
+        indexMessage(record.conversationId, record.message, offset, length)
+        break
+      case 'delete-message':
+        unindexMessage(record.messageId)
+        break
+      case 'delete-conversation':
+        unindexConversation(record.conversationId)
+        break
+    }
+  }
+
+  /**
+   * Parse one log line
+   * @param validateMessage - Fully validate message records; startup only checks the fields the index needs
+   */
+  const parseRecord = (line: string, validateMessage = true): LogRecord | null => {
+    try {
+      const record = JSON.parse(line) as LogRecord
+      if (record.type === 'message') {
+        if (typeof record.conversationId !== 'string') return null
+        if (!validateMessage) {
+          return IndexedMessageSchema.safeParse(record.message).success ? record : null
+        }
+        const message = ChatMessageSchema.safeParse(record.message)
+        return message.success ? { type: 'message', conversationId: record.conversationId, message: message.data } : null
+      }
+      if (record.type === 'delete-message' || record.type === 'delete-conversation') {
+        return record
+      }
+    } catch {
+      // Reported by the caller
+    }
+    return null
+  }
+
+  /**
+   * Copy unreadable lines to a recovery file, so dropping them from the log loses nothing
+   */
+  const quarantineLines = async (lines: string[]) => {
+    if (lines.length === 0) return
+
+    await fs.mkdir(recoveryDirectory, { recursive: true })
+    const recoveryPath = join(recoveryDirectory, `message-log-${new Date().toISOString().replace(/[:.]/g, '-')}.jsonl`)
+    await fs.appendFile(recoveryPath, lines.map(line => `${line}\n`).join(''), 'utf-8')
+    console.error(`Copied ${lines.length} unreadable message log lines to ${recoveryPath}`)
+  }
+
+  const writeRecords = async (records: LogRecord[]) => {
+    const lines = records.map(serialize)
+    await getHandle().appendFile(Buffer.concat(lines))
+    for (const [index, record] of records.entries()) {
+      applyRecord(record, fileSize, lines[index].length)
+      fileSize += lines[index].length
+    }
+  }
+
+  const readLine = async (entry: IndexEntry): Promise<string> => {
+    const buffer = Buffer.alloc(entry.length)
+    await getHandle().read(buffer, 0, entry.length, entry.offset)
+    return buffer.toString('utf-8').replace(/\n$/, '')
+  }
+
+  /**
+   * Read a live message
+   * @returns The message, or null if it is unknown or its line fails validation (compaction then quarantines it)
+   */
+  const readMessage = async (messageId: string): Promise<ChatMessage | null> => {
+    const entry = entries.get(messageId)
+    if (!entry) return null
+
+    const record = parseRecord(await readLine(entry))
+    return record?.type === 'message' ? record.message : null
+  }
+
+  const readMessages = async (messageIds: string[]) => {
+    const messages: ChatMessage[] = []
+    for (const messageId of messageIds) {
+      const message = await readMessage(messageId)
+      if (message) messages.push(message)
+    }
+    return messages
+  }
+
+  /**
+   * Rewrite the log with only live messages once dead lines dominate it
+   */
+  const compactIfNeeded = async () => {
+    const deadBytes = fileSize - liveBytes
+    if (fileSize < MESSAGE_LOG_COMPACT_MIN_BYTES || deadBytes / fileSize < MESSAGE_LOG_COMPACT_RATIO) {
+      return
+    }
+
+    // Startup only checks what the index needs, so messages are fully validated here before the rewrite
+    const live: { conversationId: string; message: ChatMessage }[] = []
+    const unreadable: string[] = []
+    for (const [conversationId, ids] of conversations) {
+      for (const messageId of ids) {
+        const line = await readLine(entries.get(messageId)!)
+        const record = parseRecord(line)
+        if (record?.type === 'message') {
+          live.push({ conversationId, message: record.message })
+        } else {
+          unreadable.push(line)
+        }
+      }
+    }
+    await quarantineLines([...skippedLines, ...unreadable])
+    await rewrite(live)
+    console.log(`Compacted message log to ${live.length} messages`)
+  }
+
+  /**
+   * Replace the log file with the given messages and index them
+   *
+   * The new file is written next to the log and swapped in atomically, so a crash
+   * leaves either the old or the new file.
+   */
+  const rewrite = async (live: { conversationId: string; message: ChatMessage }[]) => {
+    const tempPath = `${filePath}.rewrite`
+    try {
+      await fs.writeFile(tempPath, Buffer.concat(live.map(({ conversationId, message }) =>
+        serialize({ type: 'message', conversationId, message })
+      )))
+      await getHandle().close()
+      try {
+        await fs.rename(tempPath, filePath)
+      } finally {
+        // After a failed rename the old file and the index still match
+        handle = await fs.open(filePath, 'a+')
+      }
+    } catch (error) {
+      await fs.rm(tempPath, { force: true })
+      throw error
+    }
+
+    entries.clear()
+    conversations.clear()
+    fileSize = 0
+    liveBytes = 0
+    skippedLines = []
+    for (const { conversationId, message } of live) {
+      const length = serialize({ type: 'message', conversationId, message }).length
+      indexMessage(conversationId, message, fileSize, length)
+      fileSize += length
+    }
+  }
+
+  const open = () => enqueue(async () => {
+    await fs.mkdir(dirname(filePath), { recursive: true })
+    handle = await fs.open(filePath, 'a+')
+    const { size } = await handle.stat()
+
+    let offset = 0
+    let brokenTail: string | null = null
+    let truncateAt: number | null = null
+    const lines = createInterface({ input: createReadStream(filePath, { encoding: 'utf-8' }), crlfDelay: Infinity })
+    for await (const line of lines) {
+      const length = Buffer.byteLength(line, 'utf-8') + 1
+      const record = line ? parseRecord(line, false) : null
+      if (record) {
+        applyRecord(record, offset, length)
+      } else if (offset + length > size) {
+        // A crash mid-write leaves an unterminated last line
+        truncateAt = offset
+        brokenTail = line
+      } else if (line) {
+        skippedLines.push(line)
+      }
+      offset += length
+    }
+
+    if (size > 0 && offset > size) {
+      // The last line had no newline; drop it if it is broken, otherwise terminate it
+      truncateAt = truncateAt ?? size
+      if (truncateAt === size) {
+        await handle.appendFile('\n')
+        fileSize = size + 1
+      } else {
+        if (brokenTail) await quarantineLines([brokenTail])
+        await handle.truncate(truncateAt)
+        fileSize = truncateAt
+      }
+    } else {
+      fileSize = size
+    }
+
+    if (skippedLines.length > 0) {
+      console.error(`Skipped ${skippedLines.length} unreadable lines in the message log`)
+    }
+  })
+
+  const close = () => enqueue(async () => {
+    await handle?.close()
+    handle = null
+  })
+
+  const append = (conversationId: string, message: ChatMessage) =>
+    enqueue(() => writeRecords([{ type: 'message', conversationId, message }]))
+
+  const appendMany = (items: { conversationId: string; message: ChatMessage }[]) =>
+    enqueue(() => writeRecords(items.map(({ conversationId, message }) => ({ type: 'message' as const, conversationId, message }))))
+
+  const deleteMessage = (messageId: string) => enqueue(async () => {
+    if (!entries.has(messageId)) return false
+    await writeRecords([{ type: 'delete-message', messageId }])
+    await compactIfNeeded()
+    return true
+  })
+
+  const deleteConversation = (conversationId: string) => enqueue(async () => {
+    if (!conversations.has(conversationId)) return
+    await writeRecords([{ type: 'delete-conversation', conversationId }])
+    await compactIfNeeded()
+  })
+
+  const clear = () => enqueue(async () => {
+    await getHandle().truncate(0)
+    entries.clear()
+    conversations.clear()
+    fileSize = 0
+    liveBytes = 0
+    skippedLines = []
+  })
+
+  const replaceAll = (items: { conversationId: string; message: ChatMessage }[]) => enqueue(async () => {
+    // Lines skipped on open would be lost with the old file
+    await quarantineLines(skippedLines)
+    await rewrite(items)
+  })
+
+  const getPage = (conversationId: string, query: ChatHistoryQuery = {}) => enqueue(async (): Promise<ChatHistoryPage> => {
+    const ids = conversations.get(conversationId) ?? []
+    const limit = query.limit ?? CHAT_HISTORY_PAGE_SIZE
+
+    const beforeIndex = query.before ? ids.indexOf(query.before) : -1
+    const end = beforeIndex >= 0 ? beforeIndex : ids.length
+    let start = Math.max(0, end - limit)
+    // Reach back far enough to include e.g. a search hit
+    const includeIndex = query.includeMessageId ? ids.indexOf(query.includeMessageId) : -1
+    if (includeIndex >= 0 && includeIndex < start) {
+      start = includeIndex
+    }
+
+    return { messages: await readMessages(ids.slice(start, end)), hasMore: start > 0 }
+  })
+
+  const getMessages = (conversationId: string) =>
+    enqueue(() => readMessages([...(conversations.get(conversationId) ?? [])]))
+
+  const countMessages = (conversationId: string) => conversations.get(conversationId)?.length ?? 0
+
+  const getLatestTimestamp = (conversationId: string) => {
+    const ids = conversations.get(conversationId)
+    return ids ? entries.get(ids[ids.length - 1])?.timestamp : undefined
+  }
+
+  const hasImages = (conversationId: string) =>
+    (conversations.get(conversationId) ?? []).some(messageId => (entries.get(messageId)?.imageHashes.length ?? 0) > 0)
+
+  const getReferencedImageHashes = () =>
+    new Set(Array.from(entries.values()).flatMap(entry => entry.imageHashes))
+
+  return {
+    open,
+    close,
+    append,
+    appendMany,
+    deleteMessage,
+    deleteConversation,
+    clear,
+    replaceAll,
+    getPage,
+    getMessages,
+    countMessages,
+    getLatestTimestamp,
+    hasImages,
+    getReferencedImageHashes
+  }
+}
@@ -0,0 +1,112 @@
+// Prompt template helpers: built-in templates and template pack import/export
+import { randomUUID } from 'crypto'
+import type { PromptTemplate, PromptTemplateInput, PromptTemplatePack } from '../../types/electron'
+import { PromptTemplateInputSchema, PromptTemplatePackSchema } from '../../types/schemas'
+import { PROMPT_TEMPLATE_PACK_VERSION } from '../../config/constants'
+
+/** Templates that ship with the app */
+export const BUILT_IN_PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'builtin-composition',
+    name: 'Analyze composition',
+    description: 'Layout, balance, focal points and movement',
+    body: 'Analyze the composition of this artwork. Describe the layout, balance, focal points, use of lines and shapes, and how the eye moves through the image.',
+    builtIn: true
+  },
+  {
+    id: 'builtin-art-movement',
+    name: 'Identify art movement',
+    description: 'Style, period and influences',
+    body: 'Which art movement or period does this artwork most likely belong to? Explain the stylistic features that support your answer and mention related artists.',
+    builtIn: true
+  },
+  {
+    id: 'builtin-beginner-critique',
+    name: 'Critique technique for a beginner',
+    description: 'Encouraging feedback with concrete next steps',
+    body: 'Critique the technique in this {{medium}} piece as if speaking to a beginner. Point out what works well, what could be improved, and suggest two or three exercises to practice.',
+    builtIn: true
+  },
+  {
+    id: 'builtin-compare-artist',
+    name: 'Compare with an artist',
+    description: 'Similarities and differences with a named artist',
+    body: 'Compare this artwork with the work of {{artist}}. Discuss similarities and differences in subject matter, technique, color and mood.',
+    builtIn: true
+  },
+  {
+    id: 'builtin-color',
+    name: 'Describe color and light',
+    description: 'Palette, contrast and lighting',
+    body: 'Describe the use of color and light in this artwork: the palette, temperature, contrast, and how lighting shapes the mood.',
+    builtIn: true
+  }
+]
+
+/**
+ * Check whether a template ID belongs to a built-in template
+ */
+export const isBuiltInTemplateId = (templateId: string): boolean =>
+  BUILT_IN_PROMPT_TEMPLATES.some(template => template.id === templateId)
+
+/**
+ * Turn validated input into a stored user template, keeping its ID when updating
+ */
+export const toUserTemplate = (input: PromptTemplateInput): PromptTemplate => ({
+  id: input.id || randomUUID(),
+  name: input.name,
+  description: input.description,
+  body: input.body,
+  builtIn: false
+})
+
+/**
+ * Build a shareable pack from user-defined templates (IDs are not exported)
+ * @param templates - Templates to export
+ * @returns Pack ready to be serialized as JSON
+ */
+export const buildTemplatePack = (templates: PromptTemplate[]): PromptTemplatePack => ({
+  version: PROMPT_TEMPLATE_PACK_VERSION,
+  templates: templates.map(({ name, description, body }) => ({ name, description, body }))
+})
+
+/**
+ * Validate a parsed template pack and turn its entries into new templates
+ * @param data - Parsed JSON file contents
+ * @param existing - Templates already available, used to skip duplicates
+ * @returns New templates plus the number of skipped duplicates and rejected entries
+ * @throws Error if the data is not a template pack at all
+ */
+export const parseTemplatePack = (data: unknown, existing: PromptTemplate[]) => {
+  const pack = PromptTemplatePackSchema.safeParse(data)
+  if (!pack.success) {
+    throw new Error('The file is not a prompt template pack')
+  }
+  if (pack.data.version > PROMPT_TEMPLATE_PACK_VERSION) {
+    throw new Error(`Template pack version ${pack.data.version} is not supported`)
+  }
+
+  const seen = new Set(existing.map(template => `${template.name}\n${template.body}`))
+  const templates: PromptTemplate[] = []
+  let skipped = 0
+  let rejected = 0
+
+  pack.data.templates.forEach(entry => {
+    const result = PromptTemplateInputSchema.safeParse(entry)
+    if (!result.success) {
+      rejected++
+      return
+    }
+
+    const key = `${result.data.name}\n${result.data.body}`
+    if (seen.has(key)) {
+      skipped++
+      return
+    }
+    seen.add(key)
+    // Imported templates always get fresh IDs so they can't overwrite existing ones
+    templates.push(toUserTemplate({ ...result.data, id: undefined }))
+  })
+
+  return { templates, skipped, rejected }
+}
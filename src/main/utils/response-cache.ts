@@ -0,0 +1,198 @@
+// On-disk LRU cache of analysis answers, so asking the same question about the same image costs no API call
+import { createHash } from 'crypto'
+import { promises as fs } from 'fs'
+import { join } from 'path'
+import { z } from 'zod'
+import type { AiProviderId, AnalysisMode, ImagePayload, Settings, StructuredAnalysis } from '../../types/electron'
+import { StructuredAnalysisSchema } from '../../types/schemas'
+import type { ResolvedTurn } from './chat-history'
+
+/** Answer kept for a request */
+export interface CachedResponse {
+  text: string
+  structured?: StructuredAnalysis
+}
+
+/** Everything that shapes an answer; requests that agree on all of it get the cached one */
+export interface ResponseCacheKeyInput {
+  provider: AiProviderId
+  /** Model actually used, not the possibly empty setting */
+  modelName: string
+  settings: Settings
+  mode: AnalysisMode
+  prompt: string
+  images: ImagePayload[]
+  history: ResolvedTurn[]
+}
+
+export interface ResponseCache {
+  /** @returns The cached answer, or null on a miss (including an unreadable entry) */
+  get: (key: string) => Promise<CachedResponse | null>
+  /** Store an answer, evicting the least recently used ones beyond the size limit */
+  set: (key: string, response: CachedResponse) => Promise<void>
+  clear: () => Promise<void>
+}
+
+const CachedResponseSchema = z.object({
+  text: z.string(),
+  structured: StructuredAnalysisSchema.optional()
+})
+
+const CacheIndexSchema = z.object({
+  entries: z.array(z.object({
+    key: z.string().regex(/^[a-f0-9]{64}$/),
+    bytes: z.number().int().min(0)
+  }))
+})
+
+const INDEX_FILE = 'index.json'
+
+const sha256 = (data: string | Buffer) => createHash('sha256').update(data).digest('hex')
+
+const parseEntry = (contents: string): CachedResponse | null => {
+  try {
+    const parsed = CachedResponseSchema.safeParse(JSON.parse(contents))
+    return parsed.success ? parsed.data : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Normalize a prompt so whitespace differences don't miss the cache
+ */
+export const normalizeCachePrompt = (prompt: string): string => prompt.normalize('NFC').replace(/\s+/g, ' ').trim()
+
+/**
+ * Build the cache key of a request: a hash of the image bytes, normalized prompt and context, model and settings
+ */
+export const buildResponseCacheKey = (input: ResponseCacheKeyInput): string => {
+  const hashImages = (images: ImagePayload[]) => images.map(image => sha256(Buffer.from(image.data, 'base64')))
+  return sha256(JSON.stringify({
+    provider: input.provider,
+    modelName: input.modelName,
+    settings: input.settings,
+    mode: input.mode,
+    prompt: normalizeCachePrompt(input.prompt),
+    images: hashImages(input.images),
+    history: input.history.map(turn => ({
+      role: turn.role,
+      content: normalizeCachePrompt(turn.content),
+      images: hashImages(turn.images)
+    }))
+  }))
+}
+
+/**
+ * Create a response cache stored in the given directory
+ *
+ * Each answer is its own file; a small index keeps them in least-recently-used order
+ * so the oldest are evicted once the total size passes maxBytes.
+ * @param directory - Cache directory (created on first write)
+ * @param maxBytes - Size limit of all cached answers together
+ */
+export const createResponseCache = (directory: string, maxBytes: number): ResponseCache => {
+  // Key -> size in bytes, least recently used first
+  let entries: Map<string, number> | null = null
+
+  // Operations run one at a time so the index never interleaves with entry writes
+  let queue: Promise<unknown> = Promise.resolve()
+  const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+    const run = queue.then(task)
+    queue = run.catch(() => undefined)
+    return run
+  }
+
+  const getEntryPath = (key: string) => join(directory, `${key}.json`)
+
+  const loadIndex = async (): Promise<Map<string, number>> => {
+    if (entries) return entries
+
+    entries = new Map()
+    try {
+      const parsed = CacheIndexSchema.safeParse(JSON.parse(await fs.readFile(join(directory, INDEX_FILE), 'utf-8')))
+      if (parsed.success) {
+        parsed.data.entries.forEach(({ key, bytes }) => entries!.set(key, bytes))
+      } else {
+        console.error('Response cache index is invalid; starting empty')
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Failed to read the response cache index:', error)
+      }
+    }
+    return entries
+  }
+
+  const saveIndex = async (index: Map<string, number>) => {
+    await fs.mkdir(directory, { recursive: true })
+    // Write next to the index and swap, so a crash never leaves it half written
+    const indexPath = join(directory, INDEX_FILE)
+    const tempPath = `${indexPath}.tmp`
+    const contents = { entries: Array.from(index, ([key, bytes]) => ({ key, bytes })) }
+    await fs.writeFile(tempPath, JSON.stringify(contents))
+    await fs.rename(tempPath, indexPath)
+  }
+
+  const removeEntry = async (index: Map<string, number>, key: string) => {
+    index.delete(key)
+    await fs.rm(getEntryPath(key), { force: true })
+  }
+
+  const get = (key: string) => enqueue(async (): Promise<CachedResponse | null> => {
+    try {
+      const index = await loadIndex()
+      if (!index.has(key)) return null
+
+      // A missing or damaged entry is dropped and counts as a miss
+      const contents = await fs.readFile(getEntryPath(key), 'utf-8').catch(() => null)
+      const response = contents === null ? null : parseEntry(contents)
+      if (!response) {
+        await removeEntry(index, key)
+        await saveIndex(index)
+        return null
+      }
+
+      // Move to the most recently used end
+      const bytes = index.get(key)!
+      index.delete(key)
+      index.set(key, bytes)
+      await saveIndex(index)
+      return response
+    } catch (error) {
+      console.error('Response cache read failed:', error)
+      return null
+    }
+  })
+
+  const set = (key: string, response: CachedResponse) => enqueue(async () => {
+    try {
+      const index = await loadIndex()
+      const contents = JSON.stringify(response)
+      const bytes = Buffer.byteLength(contents, 'utf-8')
+      if (bytes > maxBytes) return
+
+      await fs.mkdir(directory, { recursive: true })
+      await fs.writeFile(getEntryPath(key), contents)
+      index.delete(key)
+      index.set(key, bytes)
+
+      let total = Array.from(index.values()).reduce((sum, size) => sum + size, 0)
+      for (const [oldestKey, oldestBytes] of index) {
+        if (total <= maxBytes) break
+        await removeEntry(index, oldestKey)
+        total -= oldestBytes
+      }
+      await saveIndex(index)
+    } catch (error) {
+      console.error('Response cache write failed:', error)
+    }
+  })
+
+  const clear = () => enqueue(async () => {
+    await fs.rm(directory, { recursive: true, force: true })
+    entries = new Map()
+  })
+
+  return { get, set, clear }
+}
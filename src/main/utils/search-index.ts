@@ -0,0 +1,237 @@
+// In-memory inverted index over message text for full-text search
+import type { ChatMessage, Conversation, SearchHit, SearchQuery } from '../../types/electron'
+import { SEARCH_RESULT_LIMIT, SEARCH_SNIPPET_LENGTH } from '../../config/constants'
+
+/** BM25 term frequency saturation and length normalization */
+const BM25_K1 = 1.2
+const BM25_B = 0.75
+
+/** Letters and digits in any script make up a word */
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu
+
+interface IndexedMessage {
+  conversationId: string
+  role: ChatMessage['role']
+  timestamp: number
+  text: string
+  length: number
+}
+
+interface Token {
+  term: string
+  start: number
+  end: number
+}
+
+/** Phrase of one or more terms that must appear consecutively */
+type QueryClause = string[]
+
+export interface SearchIndex {
+  /** Replace the whole index with the given conversations */
+  rebuild: (conversations: Conversation[]) => void
+  addMessage: (conversationId: string, message: ChatMessage) => void
+  removeMessage: (messageId: string) => void
+  removeConversation: (conversationId: string) => void
+  /**
+   * Find messages containing every word and phrase of the query
+   * @param query - Search text plus optional role and date filters
+   * @param getConversationTitle - Current title of a conversation, looked up at search time so renames show
+   * @returns Hits ranked by relevance, best first
+   */
+  search: (query: SearchQuery, getConversationTitle: (conversationId: string) => string) => SearchHit[]
+}
+
+// Case- and accent-insensitive, so "Cezanne" finds "Cézanne"
+const normalizeTerm = (word: string) => word.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase()
+
+const tokenize = (text: string): Token[] =>
+  Array.from(text.matchAll(WORD_PATTERN), match => ({
+    term: normalizeTerm(match[0]),
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length
+  }))
+
+/**
+ * Text a message is found by; structured analyses are indexed by their fields rather than the raw JSON
+ */
+const getSearchableText = (message: ChatMessage): string => {
+  if (!message.structured) {
+    return message.content
+  }
+  const { style, period, mediumGuess, palette, compositionNotes, strengths, weaknesses } = message.structured
+  return [style, period, mediumGuess, palette.join(', '), compositionNotes, ...strengths, ...weaknesses].join('\n')
+}
+
+/**
+ * Split a query into clauses: "quoted text" is a phrase, other words must each appear
+ * (a hyphenated word like "mid-century" is treated as a phrase)
+ */
+export const parseSearchQuery = (text: string): QueryClause[] =>
+  Array.from(text.matchAll(/"([^"]*)"?|(\S+)/g), match => tokenize(match[1] ?? match[2]).map(token => token.term))
+    .filter(clause => clause.length > 0)
+
+/**
+ * Cut a window of text around the first match and locate the query terms in it
+ */
+const buildSnippet = (text: string, terms: Set<string>): Pick<SearchHit, 'snippet' | 'highlights'> => {
+  const tokens = tokenize(text)
+  const firstMatch = tokens.find(token => terms.has(token.term))
+  const center = firstMatch ? firstMatch.start : 0
+
+  let start = Math.max(0, center - Math.floor(SEARCH_SNIPPET_LENGTH / 3))
+  let end = Math.min(text.length, start + SEARCH_SNIPPET_LENGTH)
+  start = Math.max(0, end - SEARCH_SNIPPET_LENGTH)
+  // Don't cut words in half at either edge
+  const edgeTokens = tokens.filter(token => token.start < start && token.end > start)
+  if (edgeTokens.length > 0) start = edgeTokens[0].end
+  const tailTokens = tokens.filter(token => token.start < end && token.end > end)
+  if (tailTokens.length > 0) end = tailTokens[0].start
+
+  const prefix = start > 0 ? '…' : ''
+  const suffix = end < text.length ? '…' : ''
+  const snippet = prefix + text.slice(start, end).replace(/\s+/g, ' ').trim() + suffix
+
+  // Offsets are recomputed on the collapsed snippet text
+  const highlights = tokenize(snippet)
+    .filter(token => terms.has(token.term))
+    .map(token => [token.start, token.end] as [number, number])
+
+  return { snippet, highlights }
+}
+
+/**
+ * Create an empty search index
+ */
+export const createSearchIndex = (): SearchIndex => {
+  const messages = new Map<string, IndexedMessage>()
+  // term -> message ID -> token positions
+  const postings = new Map<string, Map<string, number[]>>()
+  let totalLength = 0
+
+  const addMessage = (conversationId: string, message: ChatMessage) => {
+    removeMessage(message.id)
+
+    const text = getSearchableText(message)
+    const tokens = tokenize(text)
+    messages.set(message.id, { conversationId, role: message.role, timestamp: message.timestamp, text, length: tokens.length })
+    totalLength += tokens.length
+
+    tokens.forEach(({ term }, position) => {
+      let termPostings = postings.get(term)
+      if (!termPostings) {
+        termPostings = new Map()
+        postings.set(term, termPostings)
+      }
+      const positions = termPostings.get(message.id)
+      if (positions) {
+        positions.push(position)
+      } else {
+        termPostings.set(message.id, [position])
+      }
+    })
+  }
+
+  const removeMessage = (messageId: string) => {
+    const indexed = messages.get(messageId)
+    if (!indexed) return
+
+    for (const { term } of tokenize(indexed.text)) {
+      const termPostings = postings.get(term)
+      termPostings?.delete(messageId)
+      if (termPostings?.size === 0) {
+        postings.delete(term)
+      }
+    }
+    totalLength -= indexed.length
+    messages.delete(messageId)
+  }
+
+  const removeConversation = (conversationId: string) => {
+    for (const [messageId, indexed] of messages) {
+      if (indexed.conversationId === conversationId) {
+        removeMessage(messageId)
+      }
+    }
+  }
+
+  const rebuild = (conversations: Conversation[]) => {
+    messages.clear()
+    postings.clear()
+    totalLength = 0
+    for (const conversation of conversations) {
+      for (const message of conversation.messages) {
+        addMessage(conversation.id, message)
+      }
+    }
+  }
+
+  /**
+   * Occurrences of a clause per message: positions of a single term, or starts of the whole phrase
+   */
+  const matchClause = (clause: QueryClause): Map<string, number> => {
+    const matches = new Map<string, number>()
+    const first = postings.get(clause[0])
+    if (!first) return matches
+
+    for (const [messageId, positions] of first) {
+      const count = positions.filter(position =>
+        clause.every((term, offset) => offset === 0 || postings.get(term)?.get(messageId)?.includes(position + offset))
+      ).length
+      if (count > 0) {
+        matches.set(messageId, count)
+      }
+    }
+    return matches
+  }
+
+  const search: SearchIndex['search'] = (query, getConversationTitle) => {
+    const clauses = parseSearchQuery(query.text)
+    if (clauses.length === 0 || messages.size === 0) {
+      return []
+    }
+
+    const clauseMatches = clauses.map(matchClause)
+    const averageLength = totalLength / messages.size
+
+    // Every clause must match; start from the rarest to keep the candidate set small
+    const [rarest, ...others] = [...clauseMatches].sort((a, b) => a.size - b.size)
+    const hits: SearchHit[] = []
+
+    for (const messageId of rarest.keys()) {
+      if (!others.every(matches => matches.has(messageId))) continue
+
+      const indexed = messages.get(messageId)
+      if (!indexed) continue
+      if (query.role && indexed.role !== query.role) continue
+      if (query.from !== undefined && indexed.timestamp < query.from) continue
+      if (query.to !== undefined && indexed.timestamp > query.to) continue
+
+      const score = clauseMatches.reduce((total, matches) => {
+        const frequency = matches.get(messageId) ?? 0
+        const idf = Math.log(1 + (messages.size - matches.size + 0.5) / (matches.size + 0.5))
+        const norm = BM25_K1 * (1 - BM25_B + BM25_B * (indexed.length / averageLength))
+        return total + idf * (frequency * (BM25_K1 + 1)) / (frequency + norm)
+      }, 0)
+
+      hits.push({
+        conversationId: indexed.conversationId,
+        conversationTitle: getConversationTitle(indexed.conversationId),
+        messageId,
+        role: indexed.role,
+        timestamp: indexed.timestamp,
+        score,
+        snippet: '',
+        highlights: []
+      })
+    }
+
+    // Newer messages win ties; snippets are only built for the hits that are returned
+    const terms = new Set(clauses.flat())
+    return hits
+      .sort((a, b) => b.score - a.score || b.timestamp - a.timestamp)
+      .slice(0, query.limit ?? SEARCH_RESULT_LIMIT)
+      .map(hit => ({ ...hit, ...buildSnippet(messages.get(hit.messageId)?.text ?? '', terms) }))
+  }
+
+  return { rebuild, addMessage, removeMessage, removeConversation, search }
+}
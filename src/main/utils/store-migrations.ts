@@ -0,0 +1,231 @@
+// Versioned store schema: ordered migrations run at startup, with invalid records quarantined instead of dropped
+import { app } from 'electron'
+import { promises as fs } from 'fs'
+import { join } from 'path'
+import type Store from 'electron-store'
+import { z } from 'zod'
+import type { ChatMessage } from '../../types/electron'
+import {
+  ChatMessageSchema,
+  ConversationSchema,
+  StoredConversationSchema,
+  PromptTemplateSchema,
+  QueuedAnalysisSchema,
+  SettingsSchema,
+  WindowStateSchema,
+  formatValidationIssues,
+  getRecordLabel
+} from '../../types/schemas'
+import { migrateLegacyChatHistory } from './conversations'
+import { appendToMessageLog } from './message-log'
+import {
+  STORE_SCHEMA_VERSION,
+  RECOVERY_DIRECTORY,
+  HISTORY_DIRECTORY,
+  MESSAGE_LOG_FILE
+} from '../../config/constants'
+
+/** Store key holding the schema version the data was written with */
+const SCHEMA_VERSION_STORE_KEY = 'schemaVersion'
+
+/** Raw store contents, before validation */
+type StoreData = Record<string, unknown>
+
+/** Record moved out of the store because it failed validation */
+interface QuarantinedRecord {
+  key: string
+  id: string
+  reason: string
+  record: unknown
+}
+
+type Quarantine = (record: QuarantinedRecord) => void
+
+interface StoreMigration {
+  /** Schema version the store is at once this migration has run */
+  version: number
+  description: string
+  migrate: (data: StoreData, quarantine: Quarantine) => StoreData | Promise<StoreData>
+}
+
+// Conversation shell; messages are checked one by one so a bad message doesn't drop the conversation
+const ConversationShellSchema = ConversationSchema.extend({ messages: z.array(z.unknown()) })
+
+/**
+ * Keep the entries of a list that pass a schema and quarantine the rest
+ */
+const partitionRecords = <T>(
+  key: string,
+  records: unknown[],
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  quarantine: Quarantine
+): T[] =>
+  records.flatMap((record, index) => {
+    const result = schema.safeParse(record)
+    if (!result.success) {
+      quarantine({ key, id: getRecordLabel(record, index), reason: formatValidationIssues(result.error), record })
+      return []
+    }
+    return [result.data]
+  })
+
+/**
+ * Ordered migrations; each one moves the store from version - 1 to version
+ *
+ * Never edit a released migration, append a new one and bump STORE_SCHEMA_VERSION.
+ */
+export const STORE_MIGRATIONS: StoreMigration[] = [
+  {
+    version: 1,
+    description: 'Move the flat chatHistory list into conversations',
+    migrate: (data, quarantine) => {
+      const { chatHistory, ...rest } = data
+      if (!Array.isArray(chatHistory)) {
+        return rest
+      }
+
+      const messages: ChatMessage[] = partitionRecords('chatHistory', chatHistory, ChatMessageSchema, quarantine)
+      const conversations = Array.isArray(rest.conversations) ? rest.conversations : []
+      return { ...rest, conversations: [...conversations, ...migrateLegacyChatHistory(messages)] }
+    }
+  },
+  {
+    version: 2,
+    description: 'Move conversation messages into the message log',
+    migrate: async (data, quarantine) => {
+      if (!Array.isArray(data.conversations)) {
+        return data
+      }
+
+      const conversations = partitionRecords('conversations', data.conversations, ConversationShellSchema, quarantine)
+      const entries = conversations.flatMap(conversation =>
+        partitionRecords(`conversations.${conversation.id}.messages`, conversation.messages, ChatMessageSchema, quarantine)
+          .map(message => ({ conversationId: conversation.id, message }))
+      )
+      // If the store write below never happens this runs again; the log keeps the last copy of each message ID
+      await appendToMessageLog(join(app.getPath('userData'), HISTORY_DIRECTORY, MESSAGE_LOG_FILE), entries)
+
+      return { ...data, conversations: conversations.map(({ messages: _messages, ...conversation }) => conversation) }
+    }
+  }
+]
+
+/**
+ * Validate every record of the current schema, quarantining the ones that fail
+ * @returns Store data holding only valid records
+ */
+const quarantineInvalidRecords = (data: StoreData, quarantine: Quarantine): StoreData => {
+  const sanitized = { ...data }
+
+  if (data.conversations !== undefined) {
+    const conversations = Array.isArray(data.conversations) ? data.conversations : []
+    if (!Array.isArray(data.conversations)) {
+      quarantine({ key: 'conversations', id: 'conversations', reason: 'Expected a list', record: data.conversations })
+    }
+    sanitized.conversations = partitionRecords('conversations', conversations, StoredConversationSchema, quarantine)
+  }
+
+  if (data.promptTemplates !== undefined) {
+    const templates = Array.isArray(data.promptTemplates) ? data.promptTemplates : []
+    if (!Array.isArray(data.promptTemplates)) {
+      quarantine({ key: 'promptTemplates', id: 'promptTemplates', reason: 'Expected a list', record: data.promptTemplates })
+    }
+    sanitized.promptTemplates = partitionRecords('promptTemplates', templates, PromptTemplateSchema, quarantine)
+  }
+
+  if (data.analysisQueue !== undefined) {
+    const queue = Array.isArray(data.analysisQueue) ? data.analysisQueue : []
+    if (!Array.isArray(data.analysisQueue)) {
+      quarantine({ key: 'analysisQueue', id: 'analysisQueue', reason: 'Expected a list', record: data.analysisQueue })
+    }
+    sanitized.analysisQueue = partitionRecords('analysisQueue', queue, QueuedAnalysisSchema, quarantine)
+  }
+
+  // Invalid settings or window state are removed so the defaults apply
+  for (const [key, schema] of [['settings', SettingsSchema], ['windowState', WindowStateSchema]] as const) {
+    if (data[key] === undefined) continue
+    const result = schema.safeParse(data[key])
+    if (!result.success) {
+      quarantine({ key, id: key, reason: formatValidationIssues(result.error), record: data[key] })
+      delete sanitized[key]
+    }
+  }
+
+  return sanitized
+}
+
+const getRecoveryDir = () => join(app.getPath('userData'), RECOVERY_DIRECTORY)
+
+const getFileTimestamp = () => new Date().toISOString().replace(/[:.]/g, '-')
+
+/**
+ * Copy the store file aside before it is rewritten
+ * @returns Path of the snapshot
+ */
+const snapshotStore = async (store: Store, version: number): Promise<string> => {
+  await fs.mkdir(getRecoveryDir(), { recursive: true })
+  const snapshotPath = join(getRecoveryDir(), `store-v${version}-${getFileTimestamp()}.json`)
+  await fs.copyFile(store.path, snapshotPath)
+  return snapshotPath
+}
+
+/**
+ * Write quarantined records to a recovery file so they can be repaired by hand
+ * @returns Path of the recovery file
+ */
+const writeQuarantineFile = async (records: QuarantinedRecord[], version: number): Promise<string> => {
+  await fs.mkdir(getRecoveryDir(), { recursive: true })
+  const recoveryPath = join(getRecoveryDir(), `quarantine-${getFileTimestamp()}.json`)
+  const contents = { quarantinedAt: Date.now(), schemaVersion: version, records }
+  await fs.writeFile(recoveryPath, JSON.stringify(contents, null, 2), 'utf-8')
+  return recoveryPath
+}
+
+/**
+ * Bring the store up to STORE_SCHEMA_VERSION
+ *
+ * Pending migrations run in order, then every record is validated. If anything
+ * changes, the store file is snapshotted first and failed records are written
+ * to a quarantine file. A store from a newer app version is left untouched.
+ * @param store - Application electron-store
+ * @returns Whether every stored record is now known to be valid (false for a store from a newer version)
+ */
+export const runStoreMigrations = async (store: Store): Promise<boolean> => {
+  const storedVersion = store.get(SCHEMA_VERSION_STORE_KEY)
+  // Stores from before versioning have no version key
+  const version = typeof storedVersion === 'number' ? storedVersion : 0
+
+  if (version > STORE_SCHEMA_VERSION) {
+    console.error(`Store schema version ${version} is newer than this app supports (${STORE_SCHEMA_VERSION}); skipping migration`)
+    return false
+  }
+
+  const original: StoreData = { ...store.store }
+  const quarantined: QuarantinedRecord[] = []
+  const quarantine: Quarantine = record => quarantined.push(record)
+
+  const pending = STORE_MIGRATIONS.filter(migration => migration.version > version)
+  let data = original
+  for (const migration of pending) {
+    data = await migration.migrate(data, quarantine)
+    console.log(`Store migrated to schema version ${migration.version}: ${migration.description}`)
+  }
+  data = quarantineInvalidRecords(data, quarantine)
+
+  if (pending.length === 0 && quarantined.length === 0) {
+    return true
+  }
+
+  // Nothing is rewritten unless the snapshot succeeded
+  if (Object.keys(original).length > 0) {
+    const snapshotPath = await snapshotStore(store, version)
+    console.log(`Store snapshot saved to ${snapshotPath}`)
+  }
+  if (quarantined.length > 0) {
+    const recoveryPath = await writeQuarantineFile(quarantined, version)
+    console.error(`${quarantined.length} invalid store records moved to ${recoveryPath}`)
+  }
+
+  store.store = { ...data, [SCHEMA_VERSION_STORE_KEY]: STORE_SCHEMA_VERSION }
+  return true
+}
@@ -0,0 +1,58 @@
+// Structured analysis mode: response schema, prompt and validation of the model's JSON
+import type { StructuredAnalysis } from '../../types/electron'
+import { StructuredAnalysisSchema } from '../../types/schemas'
+
+/**
+ * JSON schema (OpenAPI subset understood by Gemini and Ollama) mirroring StructuredAnalysisSchema
+ */
+export const STRUCTURED_ANALYSIS_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    style: { type: 'string', description: 'Artistic style, e.g. Impressionism' },
+    period: { type: 'string', description: 'Likely period or date range' },
+    mediumGuess: { type: 'string', description: 'Most likely medium and support, e.g. oil on canvas' },
+    palette: { type: 'array', items: { type: 'string' }, description: 'Dominant colors' },
+    compositionNotes: { type: 'string', description: 'Notes on layout, balance and focal points' },
+    strengths: { type: 'array', items: { type: 'string' } },
+    weaknesses: { type: 'array', items: { type: 'string' } },
+    confidence: { type: 'number', description: 'Confidence in the attribution from 0 to 1' }
+  },
+  required: ['style', 'period', 'mediumGuess', 'palette', 'compositionNotes', 'strengths', 'weaknesses', 'confidence']
+}
+
+/**
+ * Append the output contract to the user's prompt
+ *
+ * Providers that cannot enforce a response schema rely on this description alone.
+ */
+export const buildStructuredPrompt = (prompt: string): string => `${prompt}
+
+Respond only with a JSON object with these fields: style (string), period (string), mediumGuess (string), palette (array of color strings), compositionNotes (string), strengths (array of strings), weaknesses (array of strings), confidence (number from 0 to 1).`
+
+/**
+ * Parse and validate the model's JSON response
+ * @param text - Raw response text, optionally wrapped in a Markdown code fence
+ * @returns The validated analysis, or an error message describing why it was rejected
+ */
+export const parseStructuredAnalysis = (
+  text: string
+): { success: true; data: StructuredAnalysis } | { success: false; error: string } => {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '')
+
+  let data: unknown
+  try {
+    data = JSON.parse(json)
+  } catch {
+    return { success: false, error: 'The model did not return valid JSON' }
+  }
+
+  const result = StructuredAnalysisSchema.safeParse(data)
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    return {
+      success: false,
+      error: `The model's JSON did not match the analysis format (${issue.path.join('.') || 'root'}: ${issue.message})`
+    }
+  }
+  return { success: true, data: result.data }
+}
@@ -1,120 +1,81 @@
 import { contextBridge, ipcRenderer } from 'electron'
-import type { ChatMessage, AnalysisResult, AiStatus, ElectronAPI, Settings } from '../types/electron'
-import { IPC_CHANNELS } from '../types/ipc-channels'
+import type { IpcRendererEvent } from 'electron'
+import type { ElectronAPI } from '../types/electron'
+import type { IpcError, IpcResponse } from '../types/errors'
+import { IPC_CONTRACT, IPC_EVENTS } from '../types/ipc-contract'
+import type { IpcEventApi, IpcEventName, IpcInvokeApi, IpcInvokeMethod } from '../types/ipc-contract'
+import { formatValidationIssues } from '../types/schemas'
+
+/**
+ * Invoke a contract method and unwrap its IpcResponse envelope
+ *
+ * Error instances lose their class when passed through the context bridge, so failures
+ * reject with the plain IpcError; the renderer's electronAPI turns it back into a typed error.
+ * The result is validated against the contract before the renderer sees it.
+ */
+const invoke = async (method: IpcInvokeMethod, args: unknown[]) => {
+  const { channel, result } = IPC_CONTRACT[method]
+  const response: IpcResponse<unknown> = await ipcRenderer.invoke(channel, ...args)
+  if (!response.success) {
+    const { errorType, code, message, details } = response
+    const error: IpcError = { errorType, code, message, ...(details && { details }) }
+    throw error
+  }
+
+  const parsed = result.safeParse(response.data)
+  if (!parsed.success) {
+    const error: IpcError = {
+      errorType: 'InvalidResponseError',
+      code: 'invalid-response',
+      message: `Invalid response from ${method}: ${formatValidationIssues(parsed.error)}`
+    }
+    throw error
+  }
+  return parsed.data
+}
+
+/**
+ * Listen to a contract event; payloads that don't match the contract are dropped
+ * @returns Cleanup function to remove the listener
+ */
+const listen = (name: IpcEventName, callback: (payload: unknown) => void) => {
+  const { channel, payload } = IPC_EVENTS[name]
+  const listener = (_: IpcRendererEvent, data: unknown) => {
+    const parsed = payload.safeParse(data)
+    if (parsed.success) {
+      callback(parsed.data)
+    } else {
+      console.error(`Invalid ${name} payload:`, formatValidationIssues(parsed.error))
+    }
+  }
+  ipcRenderer.on(channel, listener)
+  return () => {
+    ipcRenderer.removeListener(channel, listener)
+  }
+}
+
+const invokeApi = Object.fromEntries(
+  (Object.keys(IPC_CONTRACT) as IpcInvokeMethod[]).map(method => [method, (...args: unknown[]) => invoke(method, args)])
+) as IpcInvokeApi
+
+const eventApi = Object.fromEntries(
+  (Object.keys(IPC_EVENTS) as IpcEventName[]).map(name => [name, (callback: (payload: unknown) => void) => listen(name, callback)])
+) as IpcEventApi
 
 /**
  * Secure IPC Bridge for Electron Renderer Process
  * 
  * Exposes a limited, type-safe API to the renderer process without
  * giving direct access to Node.js APIs or the full ipcRenderer.
+ * One method per entry of the IPC contract (types/ipc-contract), which documents each of them.
  * 
- * All methods return Promises and handle errors gracefully.
- * Use window.electronAPI in your React components to access these methods.
+ * All methods return Promises; failed calls reject with the handler's IpcError.
+ * Use electronAPI from renderer/utils/electron-api in your React components,
+ * which rebuilds those failures as typed errors (StorageError, RateLimitError, ...).
  */
-contextBridge.exposeInMainWorld('electronAPI', {
-  // Store operations - specific getters only
-  /**
-   * Get application settings
-   * @returns Promise resolving to settings object
-   */
-  getSettings: () => ipcRenderer.invoke(IPC_CHANNELS.GET_SETTINGS),
-  
-  /**
-   * Set application settings
-   * @param value - Settings object to save
-   * @returns Promise resolving to true if successful
-   */
-  setSettings: (value: Settings) => ipcRenderer.invoke(IPC_CHANNELS.SET_SETTINGS, value),
-  
-  /**
-   * Get window state
-   * @returns Promise resolving to WindowState object or undefined
-   */
-  getWindowState: () => ipcRenderer.invoke(IPC_CHANNELS.GET_WINDOW_STATE),
-  
-  /**
-   * Get AI initialization status
-   * @returns Promise resolving to AiStatus object with initialization info
-   */
-  getAiStatus: () => ipcRenderer.invoke(IPC_CHANNELS.GET_AI_STATUS),
-  
-  // Window controls
-  /**
-   * Minimize the application window
-   * @returns Promise that resolves when window is minimized
-   */
-  minimizeWindow: () => ipcRenderer.invoke(IPC_CHANNELS.WINDOW_MINIMIZE),
-  
-  /**
-   * Toggle maximize/restore the application window
-   * @returns Promise that resolves when window state changes
-   */
-  maximizeWindow: () => ipcRenderer.invoke(IPC_CHANNELS.WINDOW_MAXIMIZE),
-  
-  /**
-   * Close the application window
-   * @returns Promise that resolves when window closes
-   */
-  closeWindow: () => ipcRenderer.invoke(IPC_CHANNELS.WINDOW_CLOSE),
-  
-  /**
-   * Check if window is currently maximized
-   * @returns Promise resolving to true if maximized, false otherwise
-   */
-  isWindowMaximized: () => ipcRenderer.invoke(IPC_CHANNELS.WINDOW_IS_MAXIMIZED),
-  
-  /**
-   * Listen for window maximize state changes
-   * @param callback - Function called when maximize state changes
-   * @returns Cleanup function to remove the listener
-   */
-  onWindowMaximizeChanged: (callback: (isMaximized: boolean) => void) => {
-    const listener = (_: any, isMaximized: boolean) => callback(isMaximized)
-    ipcRenderer.on(IPC_CHANNELS.WINDOW_MAXIMIZE_CHANGED, listener)
-    // Return cleanup function
-    return () => {
-      ipcRenderer.removeListener(IPC_CHANNELS.WINDOW_MAXIMIZE_CHANGED, listener)
-    }
-  },
-  
-  // AI Analysis
-  /**
-   * Analyze an image using Google Gemini AI
-   * @param imageBase64 - Base64 encoded image data
-   * @param mimeType - Image MIME type (e.g., 'image/jpeg')
-   * @param prompt - Analysis prompt for the AI
-   * @returns Promise resolving to AnalysisResult with success/error info
-   */
-  analyzeImage: (imageBase64: string, mimeType: string, prompt: string) => 
-    ipcRenderer.invoke(IPC_CHANNELS.ANALYZE_IMAGE, imageBase64, mimeType, prompt),
-  
-  // Chat history
-  /**
-   * Retrieve all chat messages from storage
-   * @returns Promise resolving to array of ChatMessage objects
-   */
-  getChatHistory: () => ipcRenderer.invoke(IPC_CHANNELS.GET_CHAT_HISTORY),
-  
-  /**
-   * Save a new message to chat history
-   * @param message - ChatMessage object to save
-   * @returns Promise resolving to true if successful
-   */
-  saveMessage: (message: ChatMessage) => ipcRenderer.invoke(IPC_CHANNELS.SAVE_MESSAGE, message),
-  
-  /**
-   * Clear all chat history
-   * @returns Promise resolving to true if successful
-   */
-  clearHistory: () => ipcRenderer.invoke(IPC_CHANNELS.CLEAR_HISTORY),
-  
-  /**
-   * Delete a specific message from chat history
-   * @param messageId - ID of the message to delete
-   * @returns Promise resolving to true if successful
-   */
-  deleteMessage: (messageId: string) => ipcRenderer.invoke(IPC_CHANNELS.DELETE_MESSAGE, messageId),
-})
+const electronAPI: ElectronAPI = { ...invokeApi, ...eventApi }
+
+contextBridge.exposeInMainWorld('electronAPI', electronAPI)
 
 // Re-export types from centralized definitions for backward compatibility
-export type { ChatMessage, AnalysisResult, AiStatus, ElectronAPI } from '../types/electron'
\ No newline at end of file
+export type { ChatMessage, Conversation, AnalysisRequest, AnalysisResult, AiStatus, ElectronAPI } from '../types/electron'
@@ -3,174 +3,476 @@ import TitleBar from './components/TitleBar'
 import Sidebar from './components/Sidebar'
 import MessageList from './components/MessageList'
 import InputArea from './components/InputArea'
-import { ChatMessage, AnalysisResult, AiStatus } from '../types/electron'
-import { generateMessageId } from './utils/helpers'
+import ApiKeySetup from './components/ApiKeySetup'
+import SettingsPanel from './components/SettingsPanel'
+import Countdown from './components/Countdown'
+import AnalysisQueuePanel from './components/AnalysisQueuePanel'
+import {
+  ChatMessage,
+  ConversationSummary,
+  AnalysisResult,
+  AnalysisRetry,
+  AnalysisMode,
+  AiStatus,
+  ImagePayload,
+  PromptTemplate,
+  ExportFormat,
+  SearchHit,
+  QueuedAnalysis,
+  QueuedAnalysisCompletion
+} from '../types/electron'
+import { generateMessageId, truncateText, describeAnalysisError, describeIpcError } from './utils/helpers'
+import { electronAPI } from './utils/electron-api'
+import { MESSAGE_TRUNCATE_LENGTH } from '../config/constants'
+import { ApiKeyMissingError, StorageError } from '../types/errors'
+
+// Banner text for the transient failures that are retried automatically
+const RETRY_REASONS: Partial<Record<AnalysisRetry['errorCode'], string>> = {
+  'rate-limit': 'The AI service is limiting requests.',
+  network: 'The AI service could not be reached.',
+  'service-unavailable': 'The AI service is temporarily unavailable.'
+}
+
+/**
+ * Whether a failed analysis means the AI can't be used for now, so new requests should be queued
+ */
+const indicatesAiOutage = (result: AnalysisResult): boolean =>
+  result.errorCode === 'network' ||
+  result.errorCode === 'service-unavailable' ||
+  (result.errorCode === 'rate-limit' && Boolean(result.errorDetails?.quotaExhausted))
 
 function App() {
   // State management
-  const [chatHistory, setChatHistory] = useState<ChatMessage[]>([])
+  const [conversations, setConversations] = useState<ConversationSummary[]>([])
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null)
+  // Only the latest page of the active conversation is loaded until earlier messages are requested
   const [currentMessages, setCurrentMessages] = useState<ChatMessage[]>([])
+  const [hasEarlierMessages, setHasEarlierMessages] = useState(false)
+  const [isLoadingEarlier, setIsLoadingEarlier] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null)
+  // ID of the running analysis, used by the Stop button
+  const [activeRequestId, setActiveRequestId] = useState<string | null>(null)
+  // Automatic retry the running analysis is waiting for, after a transient failure
+  const [pendingRetry, setPendingRetry] = useState<(AnalysisRetry & { retryAt: number }) | null>(null)
+  // Set after a rate limit that said how long to wait
+  const [rateLimitedUntil, setRateLimitedUntil] = useState<number | null>(null)
+  // Message scrolled to and highlighted after opening a search hit
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null)
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false)
   const [aiStatus, setAiStatus] = useState<AiStatus | null>(null)
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false)
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>([])
+  const [analysisMode, setAnalysisMode] = useState<AnalysisMode>('text')
+  // Skip the response cache for the next analysis only
+  const [forceFresh, setForceFresh] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [saveError, setSaveError] = useState<string | null>(null)
+  // Analyses waiting for the AI, run by the main process once it is available
+  const [analysisQueue, setAnalysisQueue] = useState<QueuedAnalysis[]>([])
+  const [lastQueuedCompletion, setLastQueuedCompletion] = useState<QueuedAnalysisCompletion | null>(null)
+  // Set when the AI could not be reached or its quota is used up; cleared once a queued analysis gets through
+  const [isAiOutage, setIsAiOutage] = useState(false)
+  // The user chose to queue analyses instead of entering a key on the setup screen
+  const [isKeySetupSkipped, setIsKeySetupSkipped] = useState(false)
+  // Whether a conversation has an image anywhere, including unloaded pages and queued jobs
+  const [imageCheck, setImageCheck] = useState<{ conversationId: string; hasImage: boolean } | null>(null)
 
-  // Load chat history and check AI status on mount
+  // Load conversations and check AI status on mount
   useEffect(() => {
-    loadChatHistory()
+    loadConversations()
+    loadPromptTemplates()
+    loadAnalysisQueue()
     checkAiStatus()
   }, [])
 
-  const loadChatHistory = async () => {
+  // Follow live AI status changes, e.g. after the API key is saved or replaced
+  useEffect(() => {
+    return electronAPI.onAiStatusChanged((status) => {
+      setAiStatus(status)
+      setIsAiOutage(false)
+      if (status.isInitialized) {
+        setError(null)
+      }
+    })
+  }, [])
+
+  // Follow the queue as jobs are added, edited, reordered, run and answered
+  useEffect(() => {
+    const removeQueueListener = electronAPI.onAnalysisQueueChanged(setAnalysisQueue)
+    const removeCompletionListener = electronAPI.onQueuedAnalysisCompleted((completion) => {
+      setIsAiOutage(false)
+      setLastQueuedCompletion(completion)
+    })
+    return () => {
+      removeQueueListener()
+      removeCompletionListener()
+    }
+  }, [])
+
+  // Show a queued answer: update the sidebar and reload the conversation if it is open
+  useEffect(() => {
+    if (!lastQueuedCompletion) return
+
+    const { conversation } = lastQueuedCompletion
+    setConversations(prev => prev.some(conv => conv.id === conversation.id)
+      ? prev.map(conv => conv.id === conversation.id ? conversation : conv)
+      : [...prev, conversation])
+    if (conversation.id === activeConversationId) {
+      openConversation(conversation.id)
+    }
+  }, [lastQueuedCompletion])
+
+  const loadConversations = async () => {
+    try {
+      const storedConversations = await electronAPI.getConversations()
+      setConversations(storedConversations)
+    } catch (err) {
+      console.error('Failed to load conversations:', err)
+      setError(describeIpcError(err, 'Failed to load chat history'))
+    }
+  }
+
+  const loadAnalysisQueue = async () => {
+    try {
+      setAnalysisQueue(await electronAPI.getAnalysisQueue())
+    } catch (err) {
+      console.error('Failed to load the analysis queue:', err)
+      setError(describeIpcError(err, 'Failed to load queued analyses'))
+    }
+  }
+
+  const loadPromptTemplates = async () => {
+    try {
+      setPromptTemplates(await electronAPI.getPromptTemplates())
+    } catch (err) {
+      // Templates are a convenience; the input still works without them
+      console.error('Failed to load prompt templates:', err)
+    }
+  }
+
+  // Mirror a successfully saved message into the conversation list
+  const recordSavedMessage = (conversationId: string, message: ChatMessage) => {
+    setConversations(prev => prev.map(conv =>
+      conv.id === conversationId
+        ? { ...conv, messageCount: conv.messageCount + 1, updatedAt: Math.max(conv.updatedAt, message.timestamp) }
+        : conv
+    ))
+  }
+
+  // Replace the provisional title once the first exchange is complete
+  const refreshConversationTitle = async (conversationId: string) => {
     try {
-      const history = await window.electronAPI.getChatHistory()
-      setChatHistory(history)
-      setCurrentMessages(history)
+      const titled = await electronAPI.generateConversationTitle(conversationId)
+      if (titled) {
+        setConversations(prev => prev.map(conv => conv.id === conversationId ? { ...conv, title: titled.title } : conv))
+      }
     } catch (err) {
-      console.error('Failed to load chat history:', err)
-      setError('Failed to load chat history')
+      console.error('Failed to generate conversation title:', err)
     }
   }
 
   const checkAiStatus = async () => {
     try {
-      const status = await window.electronAPI.getAiStatus()
+      const status = await electronAPI.getAiStatus()
       setAiStatus(status)
       
-      if (!status.hasApiKey) {
-        setError('Google Gemini API key not configured. Please check your .env file.')
-      } else if (!status.isInitialized) {
+      // A missing Gemini key is handled by the setup screen rather than an error banner
+      if (status.hasApiKey && !status.isInitialized) {
         setError('AI model not initialized. Please check your API key.')
       }
     } catch (err) {
       console.error('Failed to check AI status:', err)
-      setError('Failed to check AI status')
+      setError(describeIpcError(err, 'Failed to check AI status'))
+    }
+  }
+
+  // Start a conversation on the first prompt, titled after it until a better title is generated
+  const ensureConversation = async (prompt: string): Promise<string> => {
+    if (activeConversationId) {
+      return activeConversationId
+    }
+
+    const conversation = await electronAPI.createConversation(truncateText(prompt, MESSAGE_TRUNCATE_LENGTH))
+    setConversations(prev => [...prev, conversation])
+    setActiveConversationId(conversation.id)
+    return conversation.id
+  }
+
+  // Persist the artwork so the message can show it and later turns can replay it
+  // The measured palette travels with the attachment so history can show the swatches
+  const saveAttachments = (images: ImagePayload[]) =>
+    Promise.all(images.map(async image => ({
+      ...await electronAPI.saveImage(image),
+      ...(image.palette && { palette: image.palette })
+    })))
+
+  // Only a page of messages is loaded, so the main process checks the whole conversation
+  // Queued images count for follow-ups, since they will be in the conversation by the time those run
+  useEffect(() => {
+    if (!activeConversationId) return
+
+    let isCurrent = true
+    electronAPI.hasConversationImage(activeConversationId)
+      .then(hasImage => {
+        if (isCurrent) setImageCheck({ conversationId: activeConversationId, hasImage })
+      })
+      .catch(err => console.error('Failed to check the conversation for images:', err))
+    return () => {
+      isCurrent = false
+    }
+  }, [activeConversationId, currentMessages.length, analysisQueue])
+
+  // The loaded messages answer at once while the check is under way
+  const hasConversationImage = (imageCheck?.conversationId === activeConversationId && imageCheck.hasImage) ||
+    currentMessages.some(msg => msg.attachments?.length)
+
+  // Without a usable AI, new analyses wait in the queue instead
+  const shouldQueueAnalyses = !aiStatus?.isInitialized || isAiOutage
+
+  const handleQueueAnalysis = async (prompt: string, images: ImagePayload[]) => {
+    setIsLoading(true)
+    try {
+      const conversationId = await ensureConversation(prompt)
+      await electronAPI.enqueueAnalysis({
+        conversationId,
+        prompt,
+        attachments: await saveAttachments(images),
+        mode: analysisMode
+      })
+    } catch (err) {
+      console.error('Failed to queue analysis:', err)
+      setError(describeIpcError(err, 'Failed to queue your analysis'))
+    } finally {
+      setIsLoading(false)
     }
   }
 
-  const handleSubmit = async (prompt: string, imageData?: string, mimeType?: string) => {
-    if (!prompt.trim() || !imageData || !mimeType) {
+  const handleSubmit = async (prompt: string, images: ImagePayload[] = []) => {
+    if (!prompt.trim() || (images.length === 0 && !hasConversationImage)) {
       setError('Please provide both an image and a prompt for analysis.')
       return
     }
 
     setError(null)
     setSaveError(null)
+    setFocusedMessageId(null)
+    if (shouldQueueAnalyses) {
+      await handleQueueAnalysis(prompt, images)
+      return
+    }
     setIsLoading(true)
     
-    // Declare updatedMessages in outer scope to avoid ReferenceError in catch block
-    let updatedMessages: ChatMessage[] | null = null
-
     try {
+      const conversationId = await ensureConversation(prompt)
+      const isFirstExchange = currentMessages.length === 0
+      const attachments = images.length > 0 ? await saveAttachments(images) : undefined
+
       // Create user message
       const userMessage: ChatMessage = {
         id: generateMessageId(),
         role: 'user',
         content: prompt,
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        ...(attachments && { attachments })
       }
 
       // Add user message to current messages
-      updatedMessages = [...currentMessages, userMessage]
+      const updatedMessages = [...currentMessages, userMessage]
       setCurrentMessages(updatedMessages)
 
       // Save user message to history and check return value
-      const userSaveSuccess = await window.electronAPI.saveMessage(userMessage)
+      const userSaveSuccess = await electronAPI.saveMessage(conversationId, userMessage)
       if (!userSaveSuccess) {
         setSaveError('Failed to save message')
         setIsLoading(false)
         return
       }
       
-      // Update chat history state only after successful save
-      setChatHistory(updatedMessages)
+      // Update conversation state only after successful save
+      recordSavedMessage(conversationId, userMessage)
+
+      // Grow the assistant message in place as streamed chunks arrive
+      const requestId = generateMessageId()
+      const assistantMessageId = generateMessageId()
+      const assistantTimestamp = Date.now()
+      const removeRetryListener = electronAPI.onAnalysisRetry((retry) => {
+        if (retry.requestId === requestId) {
+          setPendingRetry({ ...retry, retryAt: Date.now() + retry.delayMs })
+        }
+      })
+      const removeChunkListener = electronAPI.onAnalysisChunk(({ requestId: chunkRequestId, text }) => {
+        if (chunkRequestId !== requestId) return
+        setPendingRetry(null)
+        setStreamingMessageId(assistantMessageId)
+        setCurrentMessages(prev => {
+          if (prev.some(msg => msg.id === assistantMessageId)) {
+            return prev.map(msg =>
+              msg.id === assistantMessageId ? { ...msg, content: msg.content + text } : msg
+            )
+          }
+          return [...prev, { id: assistantMessageId, role: 'assistant', content: text, timestamp: assistantTimestamp }]
+        })
+      })
 
       // Call AI analysis
-      const result: AnalysisResult = await window.electronAPI.analyzeImage(
-        imageData,
-        mimeType,
-        prompt
-      )
-
-      if (result.success && result.text) {
-        // Create assistant message
+      setActiveRequestId(requestId)
+      setRateLimitedUntil(null)
+      let result: AnalysisResult
+      try {
+        setForceFresh(false)
+        // Earlier turns come from the message log in the main process, not from the loaded page
+        result = await electronAPI.analyzeImage({
+          requestId,
+          conversationId,
+          promptMessageId: userMessage.id,
+          prompt,
+          attachments: attachments ?? [],
+          mode: analysisMode,
+          forceFresh
+        })
+      } finally {
+        removeChunkListener()
+        removeRetryListener()
+        setStreamingMessageId(null)
+        setActiveRequestId(null)
+        setPendingRetry(null)
+      }
+
+      if (result.cancelled) {
+        // Keep what was generated before Stop, marked so it isn't mistaken for a complete answer
+        const cancelledMessage: ChatMessage = {
+          id: assistantMessageId,
+          role: 'assistant',
+          content: result.text ?? '',
+          timestamp: assistantTimestamp,
+          status: 'cancelled'
+        }
+        setCurrentMessages([...updatedMessages, cancelledMessage])
+
+        const cancelledSaveSuccess = await electronAPI.saveMessage(conversationId, cancelledMessage)
+        if (!cancelledSaveSuccess) {
+          setSaveError('Failed to save cancelled response')
+        } else {
+          recordSavedMessage(conversationId, cancelledMessage)
+        }
+      } else if (result.success && result.text) {
+        // Finalize the streamed message with the complete response text
         const assistantMessage: ChatMessage = {
-          id: generateMessageId(),
+          id: assistantMessageId,
           role: 'assistant',
           content: result.text,
-          timestamp: Date.now()
+          timestamp: assistantTimestamp,
+          ...(result.structured && { structured: result.structured }),
+          ...(result.cached && { cached: true })
         }
 
-        // Add assistant message to current messages
+        // Malformed structured output still shows the raw answer, with a note explaining why
+        if (result.structuredError) {
+          setError(`Structured analysis unavailable, showing the raw response instead. ${result.structuredError}.`)
+        }
+
+        // Replace the streamed message with the final one
         const finalMessages = [...updatedMessages, assistantMessage]
         setCurrentMessages(finalMessages)
 
         // Save assistant message to history and check return value
-        const assistantSaveSuccess = await window.electronAPI.saveMessage(assistantMessage)
+        const assistantSaveSuccess = await electronAPI.saveMessage(conversationId, assistantMessage)
         if (!assistantSaveSuccess) {
           setSaveError('Response received but not saved')
         } else {
-          // Update chat history state only after successful save
-          setChatHistory(finalMessages)
+          // Update conversation state only after successful save
+          recordSavedMessage(conversationId, assistantMessage)
+          if (isFirstExchange) {
+            refreshConversationTitle(conversationId)
+          }
         }
       } else {
-        // Handle AI analysis error
+        // Handle AI analysis error, explaining what the user can do about it
         const errorMessage: ChatMessage = {
           id: generateMessageId(),
           role: 'assistant',
-          content: `Sorry, I encountered an error while analyzing the image: ${result.error || 'Unknown error'}`,
-          timestamp: Date.now()
+          content: describeAnalysisError(result),
+          timestamp: Date.now(),
+          status: 'error'
+        }
+        const retryAfterMs = result.errorDetails?.retryAfterMs
+        if (result.errorCode === 'rate-limit' && retryAfterMs && !result.errorDetails?.quotaExhausted) {
+          setRateLimitedUntil(Date.now() + retryAfterMs)
+        }
+        if (indicatesAiOutage(result)) {
+          setIsAiOutage(true)
         }
 
+        // Discard any partially streamed text in favour of the error message
         const finalMessages = [...updatedMessages, errorMessage]
         setCurrentMessages(finalMessages)
         
         // Save error message to history and check return value
-        const errorSaveSuccess = await window.electronAPI.saveMessage(errorMessage)
+        const errorSaveSuccess = await electronAPI.saveMessage(conversationId, errorMessage)
         if (!errorSaveSuccess) {
           console.error('Failed to save error message')
           setSaveError('Failed to save error message')
         } else {
-          setChatHistory(finalMessages)
+          recordSavedMessage(conversationId, errorMessage)
         }
       }
     } catch (err) {
       console.error('Failed to process message:', err)
-      setError('Failed to process your request. Please try again.')
-      
-      // Ensure chat history stays in sync when analysis fails, only if updatedMessages was set
-      if (updatedMessages) {
-        setChatHistory(updatedMessages)
+      if (err instanceof ApiKeyMissingError) {
+        // The key was removed meanwhile; refreshing the status brings back the setup screen
+        checkAiStatus()
+      } else if (err instanceof StorageError) {
+        setError(describeIpcError(err, 'Your message could not be saved'))
+      } else {
+        setError(describeIpcError(err, 'Failed to process your request. Please try again.'))
       }
     } finally {
       setIsLoading(false)
     }
   }
 
+  const handleStopAnalysis = async () => {
+    if (!activeRequestId) return
+
+    try {
+      await electronAPI.cancelAnalysis(activeRequestId)
+    } catch (err) {
+      console.error('Failed to cancel analysis:', err)
+      setError(describeIpcError(err, 'Failed to stop the analysis'))
+    }
+  }
+
   const handleRetrySave = async () => {
     // Find the last unsaved message and retry saving it
     const lastMessage = currentMessages[currentMessages.length - 1]
-    if (lastMessage) {
-      const saveSuccess = await window.electronAPI.saveMessage(lastMessage)
-      if (saveSuccess) {
-        setSaveError(null)
-        setChatHistory([...currentMessages])
-      } else {
-        setSaveError('Retry failed. Please try again.')
+    if (lastMessage && activeConversationId) {
+      try {
+        const saveSuccess = await electronAPI.saveMessage(activeConversationId, lastMessage)
+        if (saveSuccess) {
+          setSaveError(null)
+          recordSavedMessage(activeConversationId, lastMessage)
+        } else {
+          setSaveError('Retry failed. Please try again.')
+        }
+      } catch (err) {
+        console.error('Failed to retry saving the message:', err)
+        setSaveError(describeIpcError(err, 'Retry failed'))
       }
     }
   }
 
   const handleClearHistory = async () => {
     try {
-      await window.electronAPI.clearHistory()
-      setChatHistory([])
+      await electronAPI.clearHistory()
+      setConversations([])
+      setActiveConversationId(null)
       setCurrentMessages([])
+      setHasEarlierMessages(false)
       setError(null)
     } catch (err) {
       console.error('Failed to clear history:', err)
-      setError('Failed to clear chat history')
+      setError(describeIpcError(err, 'Failed to clear chat history'))
     }
   }
 
@@ -178,24 +480,111 @@ function App() {
     setIsSidebarCollapsed(!isSidebarCollapsed)
   }
 
-  const handleSelectMessage = (messageId: string) => {
-    // Find the selected message and load its conversation context
-    const selectedMessage = chatHistory.find(msg => msg.id === messageId)
-    if (selectedMessage) {
-      // For now, show all messages up to and including the selected one
-      // In a more complex implementation, this could load a specific conversation thread
-      const messageIndex = chatHistory.findIndex(msg => msg.id === messageId)
-      const conversationMessages = chatHistory.slice(0, messageIndex + 1)
-      setCurrentMessages(conversationMessages)
+  /**
+   * Open a conversation at its latest page of messages
+   * @param includeMessageId - Load back far enough to show this message, e.g. a search hit
+   */
+  const openConversation = async (conversationId: string, includeMessageId?: string) => {
+    // Switching threads mid-analysis would stream into the wrong conversation
+    if (isLoading) return
+
+    try {
+      const page = await electronAPI.getChatHistory(conversationId, { includeMessageId })
+      setActiveConversationId(conversationId)
+      setCurrentMessages(page.messages)
+      setHasEarlierMessages(page.hasMore)
+      setFocusedMessageId(includeMessageId ?? null)
+      setSaveError(null)
+    } catch (err) {
+      console.error('Failed to load conversation:', err)
+      setError(describeIpcError(err, 'Failed to load conversation'))
+    }
+  }
+
+  const handleSelectConversation = (conversationId: string) => {
+    openConversation(conversationId)
+  }
+
+  const handleOpenSearchHit = (hit: SearchHit) => {
+    openConversation(hit.conversationId, hit.messageId)
+  }
+
+  const handleLoadEarlierMessages = async () => {
+    if (!activeConversationId || currentMessages.length === 0 || isLoadingEarlier) return
+
+    setIsLoadingEarlier(true)
+    try {
+      const page = await electronAPI.getChatHistory(activeConversationId, { before: currentMessages[0].id })
+      setCurrentMessages(prev => [...page.messages, ...prev])
+      setHasEarlierMessages(page.hasMore)
+    } catch (err) {
+      console.error('Failed to load earlier messages:', err)
+      setError(describeIpcError(err, 'Failed to load earlier messages'))
+    } finally {
+      setIsLoadingEarlier(false)
+    }
+  }
+
+  const handleRenameConversation = async (conversationId: string, title: string) => {
+    try {
+      const renamed = await electronAPI.renameConversation(conversationId, title)
+      if (!renamed) {
+        setError('Failed to rename conversation')
+        return
+      }
+      setConversations(prev => prev.map(conv => conv.id === conversationId ? { ...conv, title: title.trim() } : conv))
+    } catch (err) {
+      console.error('Failed to rename conversation:', err)
+      setError(describeIpcError(err, 'Failed to rename conversation'))
+    }
+  }
+
+  const handleDeleteConversation = async (conversationId: string) => {
+    try {
+      const deleted = await electronAPI.deleteConversation(conversationId)
+      if (!deleted) {
+        setError('Failed to delete conversation')
+        return
+      }
+      setConversations(prev => prev.filter(conv => conv.id !== conversationId))
+      if (conversationId === activeConversationId) {
+        setActiveConversationId(null)
+        setCurrentMessages([])
+        setHasEarlierMessages(false)
+      }
+    } catch (err) {
+      console.error('Failed to delete conversation:', err)
+      setError(describeIpcError(err, 'Failed to delete conversation'))
+    }
+  }
+
+  const handleExportConversation = async (conversationId: string, format: ExportFormat) => {
+    try {
+      await electronAPI.exportConversation(conversationId, format)
+    } catch (err) {
+      console.error('Failed to export conversation:', err)
+      setError(describeIpcError(err, 'Failed to export conversation'))
     }
   }
 
   const handleNewChat = () => {
     // Clear current messages to start a new conversation
+    setActiveConversationId(null)
     setCurrentMessages([])
+    setHasEarlierMessages(false)
+    setFocusedMessageId(null)
     setError(null)
   }
 
+  const handleDataRestored = () => {
+    // The open conversation may have been replaced, so start from a clean view
+    handleNewChat()
+    loadConversations()
+    loadPromptTemplates()
+  }
+
+  const needsApiKeySetup = aiStatus?.provider === 'gemini' && !aiStatus.hasApiKey && !isKeySetupSkipped
+
   return (
     <div className="h-screen w-screen flex flex-col bg-dark-bg text-white">
       {/* Custom Title Bar */}
@@ -207,10 +596,16 @@ function App() {
         <Sidebar
           isCollapsed={isSidebarCollapsed}
           onToggle={toggleSidebar}
-          chatHistory={chatHistory}
-          onSelectMessage={handleSelectMessage}
+          conversations={conversations}
+          activeConversationId={activeConversationId}
+          onSelectConversation={handleSelectConversation}
+          onRenameConversation={handleRenameConversation}
+          onDeleteConversation={handleDeleteConversation}
+          onExportConversation={handleExportConversation}
+          onOpenSearchHit={handleOpenSearchHit}
           onClearHistory={handleClearHistory}
           onNewChat={handleNewChat}
+          onOpenSettings={() => setIsSettingsOpen(true)}
         />
 
         {/* Chat Area */}
@@ -257,25 +652,99 @@ function App() {
             </div>
           )}
 
+          {/* Automatic retry after a transient failure */}
+          {pendingRetry && (
+            <div className="bg-yellow-900 bg-opacity-20 border-b border-yellow-500 px-4 py-2">
+              <span className="text-yellow-400 text-sm">
+                {RETRY_REASONS[pendingRetry.errorCode] ?? 'The request failed.'} Retrying in{' '}
+                <Countdown until={pendingRetry.retryAt} /> (attempt {pendingRetry.attempt} of {pendingRetry.maxAttempts})
+              </span>
+            </div>
+          )}
+
+          {/* Rate limit countdown */}
+          {rateLimitedUntil && !isLoading && (
+            <div className="bg-yellow-900 bg-opacity-20 border-b border-yellow-500 px-4 py-2">
+              <span className="text-yellow-400 text-sm">
+                Rate limit reached. You can send again in{' '}
+                <Countdown until={rateLimitedUntil} onDone={() => setRateLimitedUntil(null)} />
+              </span>
+            </div>
+          )}
+
           {/* AI Status Banner */}
-          {aiStatus && !aiStatus.isInitialized && (
+          {aiStatus && !aiStatus.isInitialized && !needsApiKeySetup && (
             <div className="bg-yellow-900 bg-opacity-20 border-b border-yellow-500 px-4 py-2">
               <span className="text-yellow-400 text-sm">
-                AI model not ready. Please check your configuration.
+                AI model not ready. Please check your configuration. New analyses are queued until it is.
               </span>
             </div>
           )}
 
-          {/* Message List */}
-          <MessageList messages={currentMessages} isLoading={isLoading} />
+          {/* Outage notice while new analyses are being queued */}
+          {isAiOutage && aiStatus?.isInitialized && (
+            <div className="bg-yellow-900 bg-opacity-20 border-b border-yellow-500 px-4 py-2">
+              <div className="flex items-center justify-between">
+                <span className="text-yellow-400 text-sm">
+                  The AI service can't be used right now. New analyses are queued and run once it is back.
+                </span>
+                <button
+                  onClick={() => setIsAiOutage(false)}
+                  className="text-yellow-400 hover:text-yellow-300 text-sm underline transition-colors"
+                >
+                  Send directly
+                </button>
+              </div>
+            </div>
+          )}
+
+          {needsApiKeySetup ? (
+            /* First-run setup until a Gemini API key is configured */
+            <ApiKeySetup onSkip={() => setIsKeySetupSkipped(true)} />
+          ) : (
+            <>
+              {/* Message List */}
+              <MessageList
+                messages={currentMessages}
+                isLoading={isLoading}
+                streamingMessageId={streamingMessageId}
+                focusedMessageId={focusedMessageId}
+                onStop={activeRequestId ? handleStopAnalysis : undefined}
+                hasEarlierMessages={hasEarlierMessages}
+                isLoadingEarlier={isLoadingEarlier}
+                onLoadEarlier={handleLoadEarlierMessages}
+              />
 
-          {/* Input Area */}
-          <InputArea
-            onSubmit={handleSubmit}
-            disabled={isLoading || !aiStatus?.isInitialized}
-          />
+              {/* Queued analyses */}
+              <AnalysisQueuePanel jobs={analysisQueue} conversations={conversations} />
+
+              {/* Input Area */}
+              <InputArea
+                onSubmit={handleSubmit}
+                imageRequired={!hasConversationImage}
+                disabled={isLoading}
+                queueing={shouldQueueAnalyses}
+                templates={promptTemplates}
+                analysisMode={analysisMode}
+                onAnalysisModeChange={setAnalysisMode}
+                forceFresh={forceFresh}
+                onForceFreshChange={setForceFresh}
+              />
+            </>
+          )}
         </div>
       </div>
+
+      {/* Settings */}
+      {isSettingsOpen && (
+        <SettingsPanel
+          aiStatus={aiStatus}
+          promptTemplates={promptTemplates}
+          onPromptTemplatesChanged={loadPromptTemplates}
+          onDataRestored={handleDataRestored}
+          onClose={() => setIsSettingsOpen(false)}
+        />
+      )}
     </div>
   )
 }
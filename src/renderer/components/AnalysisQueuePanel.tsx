@@ -0,0 +1,196 @@
+import React, { useState } from 'react'
+import { AnalysisMode, ConversationSummary, QueuedAnalysis, QueuedAnalysisStatus } from '../../types/electron'
+import { electronAPI } from '../utils/electron-api'
+import { describeAnalysisError, describeIpcError, getAttachmentImageUrl } from '../utils/helpers'
+
+interface AnalysisQueuePanelProps {
+  /** Queued analyses in the order they will run; the panel refreshes through onAnalysisQueueChanged */
+  jobs: QueuedAnalysis[]
+  /** Used to show which conversation each job belongs to */
+  conversations: ConversationSummary[]
+}
+
+const STATUS_LABELS: Record<QueuedAnalysisStatus, string> = {
+  pending: 'Waiting',
+  running: 'Running...',
+  failed: 'Failed'
+}
+
+const STATUS_CLASSES: Record<QueuedAnalysisStatus, string> = {
+  pending: 'text-gray-400',
+  running: 'text-accent-blue',
+  failed: 'text-red-400'
+}
+
+const AnalysisQueuePanel: React.FC<AnalysisQueuePanelProps> = ({ jobs, conversations }) => {
+  const [isExpanded, setIsExpanded] = useState(true)
+  // Job whose prompt is being edited, null while only the list is shown
+  const [draft, setDraft] = useState<{ jobId: string; prompt: string; mode: AnalysisMode } | null>(null)
+  const [actionError, setActionError] = useState<string | null>(null)
+
+  if (jobs.length === 0) return null
+
+  const titles = new Map(conversations.map(conv => [conv.id, conv.title]))
+
+  // Every action reports false when the job has started or finished meanwhile; the queue event brings the list up to date
+  const runAction = async (action: () => Promise<boolean>, fallback: string) => {
+    setActionError(null)
+    try {
+      if (!await action()) {
+        setActionError('The job has already started or finished.')
+      }
+    } catch (err) {
+      console.error('Queue action failed:', err)
+      setActionError(describeIpcError(err, fallback))
+    }
+  }
+
+  const handleSave = async () => {
+    if (!draft || !draft.prompt.trim()) return
+
+    const { jobId, prompt, mode } = draft
+    setDraft(null)
+    await runAction(() => electronAPI.updateQueuedAnalysis(jobId, { prompt: prompt.trim(), mode }), 'Failed to edit the queued analysis')
+  }
+
+  const handleRemove = (job: QueuedAnalysis) => {
+    if (job.status === 'running' && !window.confirm('This analysis is running. Stop and drop it?')) return
+    runAction(() => electronAPI.removeQueuedAnalysis(job.id), 'Failed to drop the queued analysis')
+  }
+
+  const pendingCount = jobs.filter(job => job.status !== 'failed').length
+
+  return (
+    <div className="border-t border-dark-border bg-dark-sidebar">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between px-4 py-2 text-sm text-gray-300 hover:bg-dark-hover transition-colors"
+      >
+        <span>
+          Queued analyses ({jobs.length}){pendingCount > 0 && ' • run automatically once the AI is available'}
+        </span>
+        <span className="text-xs text-gray-500">{isExpanded ? '▾' : '▸'}</span>
+      </button>
+
+      {isExpanded && (
+        <div className="max-h-64 overflow-y-auto px-4 pb-3 space-y-2">
+          {actionError && <div className="text-xs text-red-400">{actionError}</div>}
+
+          {jobs.map((job, index) => (
+            <div key={job.id} className="bg-dark-bg border border-dark-border rounded-lg p-3 space-y-2">
+              <div className="flex items-center justify-between text-xs">
+                <span className="text-gray-500 truncate">
+                  {index + 1}. {titles.get(job.conversationId) ?? 'Deleted conversation (a new one will be started)'}
+                  {job.mode === 'structured' && ' • Structured'}
+                </span>
+                <span className={`flex-shrink-0 ml-2 ${STATUS_CLASSES[job.status]}`}>{STATUS_LABELS[job.status]}</span>
+              </div>
+
+              {draft?.jobId === job.id ? (
+                <div className="space-y-2">
+                  <textarea
+                    value={draft.prompt}
+                    onChange={(e) => setDraft({ ...draft, prompt: e.target.value })}
+                    rows={3}
+                    className="w-full px-3 py-2 bg-dark-sidebar border border-dark-border rounded text-sm text-white resize-none focus:outline-none focus:border-accent-blue"
+                  />
+                  <div className="flex items-center justify-between">
+                    <label className="flex items-center space-x-1.5 text-xs text-gray-400 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={draft.mode === 'structured'}
+                        onChange={(e) => setDraft({ ...draft, mode: e.target.checked ? 'structured' : 'text' })}
+                        className="accent-blue-500"
+                      />
+                      <span>Structured analysis</span>
+                    </label>
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={handleSave}
+                        disabled={!draft.prompt.trim()}
+                        className="px-3 py-1 bg-accent-blue hover:bg-blue-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white text-xs rounded transition-colors duration-150"
+                      >
+                        Save
+                      </button>
+                      <button
+                        onClick={() => setDraft(null)}
+                        className="px-3 py-1 bg-gray-600 hover:bg-gray-700 text-white text-xs rounded transition-colors duration-150"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-sm text-white whitespace-pre-wrap break-words line-clamp-3">{job.prompt}</p>
+              )}
+
+              {job.attachments.length > 0 && (
+                <div className="flex space-x-1">
+                  {job.attachments.map(attachment => (
+                    <img
+                      key={attachment.hash}
+                      src={getAttachmentImageUrl(attachment)}
+                      alt="Queued artwork"
+                      className="w-10 h-10 rounded object-cover border border-dark-border"
+                    />
+                  ))}
+                </div>
+              )}
+
+              {job.error && (
+                <div className={`text-xs ${job.status === 'failed' ? 'text-red-400' : 'text-yellow-400'}`}>
+                  {job.status !== 'failed' && 'Last attempt: '}
+                  {describeAnalysisError({ success: false, error: job.error, errorCode: job.errorCode })}
+                </div>
+              )}
+
+              <div className="flex items-center space-x-3">
+                <button
+                  onClick={() => runAction(() => electronAPI.moveQueuedAnalysis(job.id, index - 1), 'Failed to reorder the queue')}
+                  disabled={index === 0}
+                  className="text-xs text-gray-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                  title="Run earlier"
+                >
+                  ▲
+                </button>
+                <button
+                  onClick={() => runAction(() => electronAPI.moveQueuedAnalysis(job.id, index + 1), 'Failed to reorder the queue')}
+                  disabled={index === jobs.length - 1}
+                  className="text-xs text-gray-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                  title="Run later"
+                >
+                  ▼
+                </button>
+                {job.status !== 'running' && draft?.jobId !== job.id && (
+                  <button
+                    onClick={() => setDraft({ jobId: job.id, prompt: job.prompt, mode: job.mode })}
+                    className="text-xs text-gray-400 hover:text-white transition-colors"
+                  >
+                    Edit
+                  </button>
+                )}
+                {job.status === 'failed' && (
+                  <button
+                    onClick={() => runAction(() => electronAPI.updateQueuedAnalysis(job.id, {}), 'Failed to retry the queued analysis')}
+                    className="text-xs text-gray-400 hover:text-white transition-colors"
+                  >
+                    Retry
+                  </button>
+                )}
+                <button
+                  onClick={() => handleRemove(job)}
+                  className="text-xs text-red-400 hover:text-red-300 transition-colors"
+                >
+                  Drop
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default AnalysisQueuePanel
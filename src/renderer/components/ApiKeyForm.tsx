@@ -0,0 +1,115 @@
+import React, { useState } from 'react'
+import { electronAPI } from '../utils/electron-api'
+
+interface ApiKeyFormProps {
+  /** Called after the key has been tested and saved */
+  onSaved?: () => void
+  submitLabel?: string
+}
+
+const ApiKeyForm: React.FC<ApiKeyFormProps> = ({ onSaved, submitLabel = 'Save key' }) => {
+  const [apiKey, setApiKey] = useState('')
+  const [isVisible, setIsVisible] = useState(false)
+  const [isBusy, setIsBusy] = useState(false)
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null)
+
+  const handleTest = async () => {
+    if (!apiKey.trim()) return
+
+    setIsBusy(true)
+    setStatus(null)
+    try {
+      const result = await electronAPI.testApiKey(apiKey)
+      setStatus(result.success
+        ? { type: 'success', message: 'The key works.' }
+        : { type: 'error', message: result.error || 'The key was rejected.' })
+    } catch (err) {
+      console.error('Failed to test API key:', err)
+      setStatus({ type: 'error', message: 'Failed to test the key.' })
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!apiKey.trim()) return
+
+    setIsBusy(true)
+    setStatus(null)
+    try {
+      // Test before saving so a typo never replaces a working key
+      const result = await electronAPI.testApiKey(apiKey)
+      if (!result.success) {
+        setStatus({ type: 'error', message: result.error || 'The key was rejected.' })
+        return
+      }
+
+      await electronAPI.setApiKey(apiKey)
+      setApiKey('')
+      setStatus({ type: 'success', message: 'Key saved.' })
+      onSaved?.()
+    } catch (err) {
+      console.error('Failed to save API key:', err)
+      setStatus({ type: 'error', message: err instanceof Error ? err.message : 'Failed to save the key.' })
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      handleSave()
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center space-x-2">
+        <input
+          type={isVisible ? 'text' : 'password'}
+          value={apiKey}
+          onChange={(e) => setApiKey(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Paste your Google AI API key"
+          disabled={isBusy}
+          autoComplete="off"
+          spellCheck={false}
+          className="flex-1 px-3 py-2 bg-dark-bg border border-dark-border rounded text-sm text-white placeholder-gray-500 focus:outline-none focus:border-accent-blue disabled:opacity-50"
+        />
+        <button
+          onClick={() => setIsVisible(!isVisible)}
+          className="px-2 py-2 text-xs text-gray-400 hover:text-white transition-colors"
+          title={isVisible ? 'Hide key' : 'Show key'}
+        >
+          {isVisible ? 'Hide' : 'Show'}
+        </button>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <button
+          onClick={handleSave}
+          disabled={isBusy || !apiKey.trim()}
+          className="px-3 py-1.5 bg-accent-blue hover:bg-blue-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white text-sm rounded transition-colors duration-150"
+        >
+          {isBusy ? 'Checking...' : submitLabel}
+        </button>
+        <button
+          onClick={handleTest}
+          disabled={isBusy || !apiKey.trim()}
+          className="px-3 py-1.5 bg-gray-600 hover:bg-gray-700 disabled:bg-gray-700 disabled:cursor-not-allowed text-white text-sm rounded transition-colors duration-150"
+        >
+          Test
+        </button>
+      </div>
+
+      {status && (
+        <p className={`text-sm ${status.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>
+          {status.message}
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default ApiKeyForm
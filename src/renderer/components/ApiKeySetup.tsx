@@ -0,0 +1,40 @@
+import React from 'react'
+import ApiKeyForm from './ApiKeyForm'
+
+interface ApiKeySetupProps {
+  /** Continue without a key; analyses are queued until one is added in Settings */
+  onSkip?: () => void
+}
+
+const ApiKeySetup: React.FC<ApiKeySetupProps> = ({ onSkip }) => {
+  return (
+    <div className="flex-1 flex items-center justify-center p-8">
+      <div className="max-w-md w-full bg-dark-sidebar border border-dark-border rounded-lg p-6 space-y-4">
+        <div className="text-center">
+          <div className="w-16 h-16 bg-accent-green rounded-full mx-auto mb-4 flex items-center justify-center">
+            <span className="text-3xl">🔑</span>
+          </div>
+          <h2 className="text-lg font-medium text-white">Set up Art Analyst</h2>
+          <p className="text-sm text-gray-400 mt-2">
+            Enter a Google AI API key to start analyzing artwork. You can create one in Google AI Studio.
+            The key is encrypted and stored on this computer only.
+          </p>
+        </div>
+
+        {/* The AI status update from the main process closes this screen once the key is saved */}
+        <ApiKeyForm submitLabel="Save and continue" />
+
+        {onSkip && (
+          <button
+            onClick={onSkip}
+            className="w-full text-sm text-gray-400 hover:text-white transition-colors"
+          >
+            Continue without a key and queue analyses for later
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default ApiKeySetup
@@ -0,0 +1,143 @@
+import React, { useState } from 'react'
+import { RestoreMode, RestoreRejection, RestoreReport } from '../../types/electron'
+import { electronAPI } from '../utils/electron-api'
+
+interface BackupManagerProps {
+  /** Called after a restore changed the stored data so it can be reloaded */
+  onRestored: () => void
+}
+
+const SECTION_LABELS: Record<RestoreRejection['section'], string> = {
+  conversations: 'Conversation',
+  messages: 'Message',
+  chatHistory: 'Legacy message',
+  settings: 'Settings',
+  promptTemplates: 'Template',
+  images: 'Image'
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`
+
+const describeReport = (report: RestoreReport) => {
+  const parts = [
+    plural(report.conversations, 'conversation'),
+    plural(report.messages, 'message'),
+    plural(report.promptTemplates, 'template'),
+    plural(report.images, 'image')
+  ]
+  return `Restored ${parts.join(', ')}${report.settingsRestored ? ' and settings' : ''}.`
+}
+
+const BackupManager: React.FC<BackupManagerProps> = ({ onRestored }) => {
+  const [mode, setMode] = useState<RestoreMode>('merge')
+  const [isBusy, setIsBusy] = useState(false)
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null)
+  const [rejected, setRejected] = useState<RestoreRejection[]>([])
+
+  const handleBackup = async () => {
+    setIsBusy(true)
+    setStatus(null)
+    setRejected([])
+    try {
+      const result = await electronAPI.createBackup()
+      if (result.completed) {
+        setStatus({
+          type: 'success',
+          message: `Backed up ${plural(result.conversations, 'conversation')} and ${plural(result.images, 'image')}.`
+        })
+      }
+    } catch (err) {
+      console.error('Failed to create backup:', err)
+      setStatus({ type: 'error', message: 'Failed to write the backup.' })
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleRestore = async () => {
+    if (mode === 'replace' && !window.confirm('Replace all conversations, templates and settings with the backup? Current data that is not in the backup will be lost.')) {
+      return
+    }
+
+    setIsBusy(true)
+    setStatus(null)
+    setRejected([])
+    try {
+      const report = await electronAPI.restoreBackup(mode)
+      if (!report.completed) return
+
+      setStatus({ type: report.rejected.length > 0 ? 'error' : 'success', message: describeReport(report) })
+      setRejected(report.rejected)
+      onRestored()
+    } catch (err) {
+      console.error('Failed to restore backup:', err)
+      setStatus({ type: 'error', message: err instanceof Error ? err.message : 'Failed to restore the backup.' })
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-400">
+        A backup holds all conversations, images, prompt templates and settings in one file. The API key is not included.
+      </p>
+
+      <div className="flex items-center space-x-4">
+        {(['merge', 'replace'] as RestoreMode[]).map(option => (
+          <label key={option} className="flex items-center space-x-2 cursor-pointer">
+            <input
+              type="radio"
+              name="restore-mode"
+              checked={mode === option}
+              onChange={() => setMode(option)}
+              className="accent-blue-500"
+            />
+            <span className="text-sm text-gray-300">
+              {option === 'merge' ? 'Merge on restore' : 'Replace on restore'}
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <button
+          onClick={handleBackup}
+          disabled={isBusy}
+          className="px-3 py-1.5 bg-accent-blue hover:bg-blue-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white text-sm rounded transition-colors duration-150"
+        >
+          Back up...
+        </button>
+        <button
+          onClick={handleRestore}
+          disabled={isBusy}
+          className="px-3 py-1.5 bg-gray-600 hover:bg-gray-700 disabled:bg-gray-700 disabled:cursor-not-allowed text-white text-sm rounded transition-colors duration-150"
+        >
+          Restore...
+        </button>
+      </div>
+
+      {status && (
+        <p className={`text-sm ${status.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>
+          {status.message}
+        </p>
+      )}
+
+      {rejected.length > 0 && (
+        <div>
+          <p className="text-sm text-gray-300 mb-1">{plural(rejected.length, 'record')} could not be restored:</p>
+          <ul className="max-h-40 overflow-y-auto space-y-1 text-xs">
+            {rejected.map((rejection, index) => (
+              <li key={index} className="p-2 bg-dark-bg border border-dark-border rounded">
+                <span className="text-white">{SECTION_LABELS[rejection.section]} {rejection.id}</span>
+                <span className="block text-red-400 break-words">{rejection.reason}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default BackupManager
@@ -0,0 +1,35 @@
+import React from 'react'
+import { PaletteColor } from '../../types/electron'
+
+interface ColorSwatchesProps {
+  palette: PaletteColor[]
+  /** Show the pixel share under each swatch */
+  showPercentages?: boolean
+  size?: 'sm' | 'md'
+}
+
+const ColorSwatches: React.FC<ColorSwatchesProps> = ({ palette, showPercentages = false, size = 'md' }) => {
+  const swatchSize = size === 'sm' ? 'w-4 h-4' : 'w-6 h-6'
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {palette.map(color => (
+        <div
+          key={color.hex}
+          className="flex flex-col items-center"
+          title={`${color.hex} • rgb(${color.rgb.join(', ')}) • hsl(${color.hsl[0]}, ${color.hsl[1]}%, ${color.hsl[2]}%) • ${color.percentage}%`}
+        >
+          <span
+            className={`${swatchSize} rounded border border-white border-opacity-20`}
+            style={{ backgroundColor: color.hex }}
+          />
+          {showPercentages && (
+            <span className="text-[10px] text-gray-400 mt-0.5">{Math.round(color.percentage)}%</span>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default ColorSwatches
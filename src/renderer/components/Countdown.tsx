@@ -0,0 +1,27 @@
+import React, { useEffect, useState } from 'react'
+
+interface CountdownProps {
+  /** Time the countdown reaches zero (epoch milliseconds) */
+  until: number
+  onDone?: () => void
+}
+
+/**
+ * Whole seconds left until a point in time, updated every second
+ */
+const Countdown: React.FC<CountdownProps> = ({ until, onDone }) => {
+  const [now, setNow] = useState(Date.now())
+
+  useEffect(() => {
+    if (now >= until) {
+      onDone?.()
+      return
+    }
+    const timer = setTimeout(() => setNow(Date.now()), Math.min(1000, until - now))
+    return () => clearTimeout(timer)
+  }, [now, until])
+
+  return <span className="tabular-nums">{Math.max(0, Math.ceil((until - now) / 1000))}s</span>
+}
+
+export default Countdown
@@ -0,0 +1,247 @@
+import React, { useEffect, useState } from 'react'
+import { AiProviderId, SafetyCategory, SafetyThreshold, Settings } from '../../types/electron'
+import { DEFAULT_SETTINGS, SettingsSchema } from '../../types/schemas'
+import { SAFETY_CATEGORY_LABELS, describeIpcError } from '../utils/helpers'
+import { electronAPI } from '../utils/electron-api'
+
+interface GenerationSettingsFormProps {
+  provider: AiProviderId
+}
+
+// Numeric fields are edited as text so partial input like "0." doesn't get reset while typing
+type NumericField = 'temperature' | 'topP' | 'topK' | 'maxOutputTokens' | 'imageMaxLongEdge'
+type FormState = Omit<Settings, NumericField> & Record<NumericField, string>
+
+const NUMERIC_FIELDS: { key: NumericField; label: string; step: string; hint: string }[] = [
+  { key: 'temperature', label: 'Temperature', step: '0.1', hint: '0–2, higher is more creative' },
+  { key: 'topP', label: 'Top P', step: '0.05', hint: '0–1' },
+  { key: 'topK', label: 'Top K', step: '1', hint: '1–100' },
+  { key: 'maxOutputTokens', label: 'Max output tokens', step: '1', hint: '1–8192' },
+  { key: 'imageMaxLongEdge', label: 'Max image size', step: '1', hint: 'Long edge in pixels sent to the model (SVGs are rasterized at it), 256–8192' }
+]
+
+const SAFETY_THRESHOLD_LABELS: Record<SafetyThreshold, string> = {
+  BLOCK_NONE: 'Block none',
+  BLOCK_ONLY_HIGH: 'Block few',
+  BLOCK_MEDIUM_AND_ABOVE: 'Block some',
+  BLOCK_LOW_AND_ABOVE: 'Block most'
+}
+
+const toFormState = (settings: Settings): FormState => ({
+  ...settings,
+  temperature: String(settings.temperature),
+  topP: String(settings.topP),
+  topK: String(settings.topK),
+  maxOutputTokens: String(settings.maxOutputTokens),
+  imageMaxLongEdge: String(settings.imageMaxLongEdge)
+})
+
+// Empty input becomes NaN so the schema reports it instead of silently using 0
+const toNumber = (value: string) => value.trim() === '' ? NaN : Number(value)
+
+const GenerationSettingsForm: React.FC<GenerationSettingsFormProps> = ({ provider }) => {
+  const [form, setForm] = useState<FormState | null>(null)
+  const [models, setModels] = useState<string[]>([])
+  const [modelsError, setModelsError] = useState<string | null>(null)
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
+  const [isSaving, setIsSaving] = useState(false)
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null)
+
+  useEffect(() => {
+    electronAPI.getSettings()
+      .then(settings => setForm(toFormState(settings)))
+      .catch(err => {
+        console.error('Failed to load settings:', err)
+        setForm(toFormState(DEFAULT_SETTINGS))
+      })
+
+    // Model suggestions are optional, the field also accepts any name
+    electronAPI.listAiModels()
+      .then(setModels)
+      .catch(err => {
+        console.error('Failed to list models:', err)
+        setModelsError(describeIpcError(err, 'Model suggestions could not be loaded'))
+      })
+  }, [])
+
+  if (!form) {
+    return <p className="text-sm text-gray-400">Loading settings...</p>
+  }
+
+  const updateField = <K extends keyof FormState>(key: K, value: FormState[K]) => {
+    setForm({ ...form, [key]: value })
+    setStatus(null)
+  }
+
+  const updateThreshold = (category: SafetyCategory, threshold: SafetyThreshold) => {
+    updateField('safetyThresholds', { ...form.safetyThresholds, [category]: threshold })
+  }
+
+  const handleSave = async () => {
+    const validation = SettingsSchema.safeParse({
+      ...form,
+      temperature: toNumber(form.temperature),
+      topP: toNumber(form.topP),
+      topK: toNumber(form.topK),
+      maxOutputTokens: toNumber(form.maxOutputTokens),
+      imageMaxLongEdge: toNumber(form.imageMaxLongEdge)
+    })
+
+    if (!validation.success) {
+      // Key errors by field path so each input can show its own message
+      const errors: Record<string, string> = {}
+      validation.error.issues.forEach(issue => {
+        const path = issue.path.join('.')
+        errors[path] = errors[path] || issue.message
+      })
+      setFieldErrors(errors)
+      setStatus({ type: 'error', message: 'Fix the highlighted fields.' })
+      return
+    }
+
+    setFieldErrors({})
+    setIsSaving(true)
+    setStatus(null)
+    try {
+      const saved = await electronAPI.setSettings(validation.data)
+      setStatus(saved
+        ? { type: 'success', message: 'Settings saved. They apply to the next request.' }
+        : { type: 'error', message: 'Failed to save settings.' })
+    } catch (err) {
+      console.error('Failed to save settings:', err)
+      setStatus({ type: 'error', message: 'Failed to save settings.' })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleReset = () => {
+    setForm(toFormState(DEFAULT_SETTINGS))
+    setFieldErrors({})
+    setStatus(null)
+  }
+
+  const inputClass = (field: string) =>
+    `w-full px-3 py-2 bg-dark-bg border rounded text-sm text-white placeholder-gray-500 focus:outline-none ${
+      fieldErrors[field] ? 'border-red-500' : 'border-dark-border focus:border-accent-blue'
+    }`
+
+  const renderError = (field: string) =>
+    fieldErrors[field] && <p className="mt-1 text-xs text-red-400">{fieldErrors[field]}</p>
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm text-gray-300 mb-1" htmlFor="settings-model">Model</label>
+        <input
+          id="settings-model"
+          list="settings-model-options"
+          value={form.modelName}
+          onChange={(e) => updateField('modelName', e.target.value)}
+          placeholder="Provider default"
+          spellCheck={false}
+          className={inputClass('modelName')}
+        />
+        <datalist id="settings-model-options">
+          {models.map(model => <option key={model} value={model} />)}
+        </datalist>
+        {fieldErrors.modelName
+          ? renderError('modelName')
+          : modelsError && <p className="mt-1 text-xs text-gray-500">{modelsError}</p>}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {NUMERIC_FIELDS.map(({ key, label, step, hint }) => (
+          <div key={key}>
+            <label className="block text-sm text-gray-300 mb-1" htmlFor={`settings-${key}`}>{label}</label>
+            <input
+              id={`settings-${key}`}
+              type="number"
+              step={step}
+              value={form[key]}
+              onChange={(e) => updateField(key, e.target.value)}
+              className={inputClass(key)}
+            />
+            {fieldErrors[key] ? renderError(key) : <p className="mt-1 text-xs text-gray-500">{hint}</p>}
+          </div>
+        ))}
+      </div>
+
+      {/* Safety thresholds are a Gemini feature; local servers ignore them */}
+      {provider === 'gemini' && (
+        <div>
+          <p className="text-sm text-gray-300 mb-1">Safety filters</p>
+          <div className="grid grid-cols-2 gap-3">
+            {(Object.keys(SAFETY_CATEGORY_LABELS) as SafetyCategory[]).map(category => (
+              <label key={category} className="block">
+                <span className="block text-xs text-gray-400 mb-1">{SAFETY_CATEGORY_LABELS[category]}</span>
+                <select
+                  value={form.safetyThresholds[category]}
+                  onChange={(e) => updateThreshold(category, e.target.value as SafetyThreshold)}
+                  className={inputClass(`safetyThresholds.${category}`)}
+                >
+                  {(Object.keys(SAFETY_THRESHOLD_LABELS) as SafetyThreshold[]).map(threshold => (
+                    <option key={threshold} value={threshold}>{SAFETY_THRESHOLD_LABELS[threshold]}</option>
+                  ))}
+                </select>
+                {renderError(`safetyThresholds.${category}`)}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <label className="block text-sm text-gray-300 mb-1" htmlFor="settings-system-instruction">
+          System instruction
+        </label>
+        <textarea
+          id="settings-system-instruction"
+          value={form.systemInstruction}
+          onChange={(e) => updateField('systemInstruction', e.target.value)}
+          rows={4}
+          className={`${inputClass('systemInstruction')} resize-y`}
+        />
+        {renderError('systemInstruction')}
+      </div>
+
+      <label className="flex items-start space-x-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={form.includeColorPalette}
+          onChange={(e) => updateField('includeColorPalette', e.target.checked)}
+          className="mt-0.5 accent-blue-500"
+        />
+        <span className="text-sm text-gray-300">
+          Include measured color palette in prompts
+          <span className="block text-xs text-gray-500">Dominant colors of attached images are added so color commentary uses real values</span>
+        </span>
+      </label>
+
+      <div className="flex items-center space-x-2">
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="px-3 py-1.5 bg-accent-blue hover:bg-blue-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white text-sm rounded transition-colors duration-150"
+        >
+          {isSaving ? 'Saving...' : 'Save settings'}
+        </button>
+        <button
+          onClick={handleReset}
+          disabled={isSaving}
+          className="px-3 py-1.5 bg-gray-600 hover:bg-gray-700 disabled:bg-gray-700 disabled:cursor-not-allowed text-white text-sm rounded transition-colors duration-150"
+        >
+          Reset to defaults
+        </button>
+      </div>
+
+      {status && (
+        <p className={`text-sm ${status.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>
+          {status.message}
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default GenerationSettingsForm
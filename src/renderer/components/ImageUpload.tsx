@@ -1,32 +1,53 @@
 import React, { useState, useRef, useEffect } from 'react'
-import { validateImageFile, fileToBase64, formatFileSize } from '../utils/helpers'
-import { MAX_FILE_SIZE_DISPLAY } from '../../config/constants'
+import ColorSwatches from './ColorSwatches'
+import { PaletteColor } from '../../types/electron'
+import { validateImageFile, fileToBase64, formatFileSize, generateMessageId, getImageFileType } from '../utils/helpers'
+import { extractPalette } from '../utils/color-palette'
+import { MAX_FILE_SIZE_DISPLAY, MAX_IMAGES_PER_REQUEST } from '../../config/constants'
+
+/** Image chosen for upload, ready to be attached to a request */
+export interface SelectedImageData {
+  id: string
+  name: string
+  size: number
+  data: string
+  mimeType: string
+  palette?: PaletteColor[]
+}
 
 interface ImageUploadProps {
-  onImageSelect: (imageData: string, mimeType: string) => void
+  onImagesSelect: (images: SelectedImageData[]) => void
   disabled?: boolean
+  /** Number of further images that may still be attached */
+  maxImages?: number
 }
 
 interface SelectedImage {
   file: File
   preview: string
   base64: string
+  /** Dominant colors, filled in once measured */
+  palette?: PaletteColor[]
 }
 
-const ImageUpload: React.FC<ImageUploadProps> = ({ onImageSelect, disabled = false }) => {
+const ImageUpload: React.FC<ImageUploadProps> = ({
+  onImagesSelect,
+  disabled = false,
+  maxImages = MAX_IMAGES_PER_REQUEST
+}) => {
   const [isDragging, setIsDragging] = useState(false)
-  const [selectedImage, setSelectedImage] = useState<SelectedImage | null>(null)
+  const [selectedImages, setSelectedImages] = useState<SelectedImage[]>([])
   const [error, setError] = useState<string | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const selectedImagesRef = useRef<SelectedImage[]>([])
+  selectedImagesRef.current = selectedImages
 
-  // Cleanup object URL on unmount
+  // Cleanup object URLs on unmount
   useEffect(() => {
     return () => {
-      if (selectedImage) {
-        URL.revokeObjectURL(selectedImage.preview)
-      }
+      selectedImagesRef.current.forEach(image => URL.revokeObjectURL(image.preview))
     }
-  }, [selectedImage])
+  }, [])
 
   const handleDragEnter = (e: React.DragEvent) => {
     e.preventDefault()
@@ -56,102 +77,188 @@ const ImageUpload: React.FC<ImageUploadProps> = ({ onImageSelect, disabled = fal
 
     const files = Array.from(e.dataTransfer.files)
     if (files.length > 0) {
-      handleFileSelection(files[0])
+      handleFileSelection(files)
     }
   }
 
   const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files
     if (files && files.length > 0) {
-      handleFileSelection(files[0])
+      handleFileSelection(Array.from(files))
     }
+    // Allow picking the same file again after removing it
+    e.target.value = ''
   }
 
-  const handleFileSelection = async (file: File) => {
+  const handleFileSelection = async (files: File[]) => {
     setError(null)
 
-    const validation = validateImageFile(file)
-    if (!validation.isValid) {
-      setError(validation.error!)
-      return
+    const errors: string[] = []
+    const remainingSlots = maxImages - selectedImages.length
+    if (files.length > remainingSlots) {
+      errors.push(`You can attach up to ${MAX_IMAGES_PER_REQUEST} images per request; extra files were skipped.`)
     }
 
-    try {
-      // Revoke previous object URL if it exists
-      if (selectedImage) {
-        URL.revokeObjectURL(selectedImage.preview)
+    const added: SelectedImage[] = []
+    for (const file of files.slice(0, Math.max(remainingSlots, 0))) {
+      const validation = validateImageFile(file)
+      if (!validation.isValid) {
+        errors.push(`${file.name}: ${validation.error}`)
+        continue
       }
 
-      const base64 = await fileToBase64(file)
-      const preview = URL.createObjectURL(file)
-      
-      setSelectedImage({
-        file,
-        preview,
-        base64
-      })
+      try {
+        const base64 = await fileToBase64(file)
+        added.push({ file, preview: URL.createObjectURL(file), base64 })
+      } catch (err) {
+        errors.push(`${file.name}: Failed to process image file`)
+      }
+    }
+
+    if (added.length > 0) {
+      setSelectedImages(prev => [...prev, ...added])
+      added.forEach(measurePalette)
+    }
+    if (errors.length > 0) {
+      setError(errors.join('\n'))
+    }
+  }
+
+  // Color analysis runs after the preview is shown; a failure only means no swatches
+  const measurePalette = async (image: SelectedImage) => {
+    try {
+      const palette = await extractPalette(image.preview)
+      setSelectedImages(prev => prev.map(selected =>
+        selected.preview === image.preview ? { ...selected, palette } : selected
+      ))
     } catch (err) {
-      setError('Failed to process image file')
+      console.error('Failed to extract color palette:', err)
+      setSelectedImages(prev => prev.map(selected =>
+        selected.preview === image.preview ? { ...selected, palette: [] } : selected
+      ))
     }
   }
 
-  const handleAnalyze = () => {
-    if (selectedImage) {
-      onImageSelect(selectedImage.base64, selectedImage.file.type)
-      setSelectedImage(null)
+  const handleAttach = () => {
+    if (selectedImages.length > 0) {
+      onImagesSelect(selectedImages.map(image => ({
+        id: generateMessageId(),
+        name: image.file.name,
+        size: image.file.size,
+        data: image.base64,
+        mimeType: getImageFileType(image.file),
+        ...(image.palette && { palette: image.palette })
+      })))
+      selectedImages.forEach(image => URL.revokeObjectURL(image.preview))
+      setSelectedImages([])
     }
   }
 
-  const handleRemove = () => {
-    if (selectedImage) {
-      URL.revokeObjectURL(selectedImage.preview)
-      setSelectedImage(null)
+  const handleRemove = (index: number) => {
+    const image = selectedImages[index]
+    if (image) {
+      URL.revokeObjectURL(image.preview)
+      setSelectedImages(prev => prev.filter((_, i) => i !== index))
     }
     setError(null)
   }
 
+  const handleRemoveAll = () => {
+    selectedImages.forEach(image => URL.revokeObjectURL(image.preview))
+    setSelectedImages([])
+    setError(null)
+  }
+
   const openFilePicker = () => {
     if (!disabled) {
       fileInputRef.current?.click()
     }
   }
 
-  if (selectedImage) {
+  const fileInput = (
+    <input
+      ref={fileInputRef}
+      type="file"
+      accept="image/*,.heic,.heif,.avif,.tif,.tiff"
+      multiple
+      onChange={handleFileInputChange}
+      className="hidden"
+    />
+  )
+
+  if (selectedImages.length > 0) {
     return (
-      <div className="bg-dark-sidebar border border-dark-border rounded-lg p-4">
-        <div className="flex items-start space-x-4">
-          <div className="w-24 h-24 rounded overflow-hidden flex-shrink-0">
-            <img
-              src={selectedImage.preview}
-              alt="Selected artwork"
-              className="w-full h-full object-cover"
-            />
-          </div>
-          <div className="flex-1 min-w-0">
-            <h4 className="text-sm font-medium text-white truncate">
-              {selectedImage.file.name}
-            </h4>
-            <p className="text-xs text-gray-400 mt-1">
-              {formatFileSize(selectedImage.file.size)} • {selectedImage.file.type}
-            </p>
-            <div className="flex items-center space-x-2 mt-3">
+      <div className="bg-dark-sidebar border border-dark-border rounded-lg p-4 space-y-3">
+        <div className="space-y-2">
+          {selectedImages.map((image, index) => (
+            <div key={image.preview} className="flex items-center space-x-3">
+              <div className="w-12 h-12 rounded overflow-hidden flex-shrink-0">
+                <img
+                  src={image.preview}
+                  alt={`Selected artwork ${index + 1}`}
+                  className="w-full h-full object-cover"
+                />
+              </div>
+              <div className="flex-1 min-w-0">
+                <h4 className="text-sm font-medium text-white truncate">
+                  {image.file.name}
+                </h4>
+                <p className="text-xs text-gray-400 mt-1">
+                  {formatFileSize(image.file.size)} • {getImageFileType(image.file)}
+                </p>
+              </div>
+              {image.palette ? (
+                <ColorSwatches palette={image.palette} showPercentages />
+              ) : (
+                <span className="text-xs text-gray-500">Measuring colors...</span>
+              )}
               <button
-                onClick={handleAnalyze}
+                onClick={() => handleRemove(index)}
                 disabled={disabled}
-                className="px-3 py-1.5 bg-accent-blue hover:bg-blue-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white text-sm rounded transition-colors duration-150"
+                className="text-gray-400 hover:text-white disabled:cursor-not-allowed transition-colors"
+                title="Remove image"
               >
-                Analyze
-              </button>
-              <button
-                onClick={handleRemove}
-                disabled={disabled}
-                className="px-3 py-1.5 bg-gray-600 hover:bg-gray-700 disabled:bg-gray-700 disabled:cursor-not-allowed text-white text-sm rounded transition-colors duration-150"
-              >
-                Remove
+                <svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
+                  <path d="M4.646 4.646a.5.5 0 0 1 .708 0L8 7.293l2.646-2.647a.5.5 0 0 1 .708.708L8.707 8l2.647 2.646a.5.5 0 0 1-.708.708L8 8.707l-2.646 2.647a.5.5 0 0 1-.708-.708L7.293 8 4.646 5.354a.5.5 0 0 1 0-.708z"/>
+                </svg>
               </button>
             </div>
+          ))}
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-900 bg-opacity-20 border border-red-500 rounded text-red-400 text-sm whitespace-pre-line">
+            {error}
           </div>
+        )}
+
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={handleAttach}
+            disabled={disabled}
+            className="px-3 py-1.5 bg-accent-blue hover:bg-blue-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white text-sm rounded transition-colors duration-150"
+          >
+            Attach {selectedImages.length > 1 ? `${selectedImages.length} images` : 'image'}
+          </button>
+          {selectedImages.length < maxImages && (
+            <button
+              onClick={openFilePicker}
+              disabled={disabled}
+              className="px-3 py-1.5 bg-dark-hover hover:bg-gray-600 disabled:cursor-not-allowed text-white text-sm rounded transition-colors duration-150"
+            >
+              Add more
+            </button>
+          )}
+          <button
+            onClick={handleRemoveAll}
+            disabled={disabled}
+            className="px-3 py-1.5 bg-gray-600 hover:bg-gray-700 disabled:bg-gray-700 disabled:cursor-not-allowed text-white text-sm rounded transition-colors duration-150"
+          >
+            Remove all
+          </button>
         </div>
+
+        {fileInput}
       </div>
     )
   }
@@ -187,30 +294,24 @@ const ImageUpload: React.FC<ImageUploadProps> = ({ onImageSelect, disabled = fal
         </div>
         <div className="text-center">
           <p className="text-sm font-medium text-white">
-            {isDragging ? 'Drop image here' : 'Upload artwork image'}
+            {isDragging ? 'Drop images here' : 'Upload artwork images'}
           </p>
           <p className="text-xs text-gray-400 mt-1">
-            Drag & drop or click to select • JPEG, PNG, GIF, WebP
+            Drag & drop or click to select • JPEG, PNG, GIF, WebP, TIFF, BMP, AVIF, HEIC, SVG
           </p>
           <p className="text-xs text-gray-500 mt-1">
-            Max file size: {MAX_FILE_SIZE_DISPLAY}
+            Up to {maxImages} {maxImages === 1 ? 'image' : 'images'} • Max file size: {MAX_FILE_SIZE_DISPLAY}
           </p>
         </div>
       </div>
 
       {error && (
-        <div className="p-3 bg-red-900 bg-opacity-20 border border-red-500 rounded text-red-400 text-sm">
+        <div className="p-3 bg-red-900 bg-opacity-20 border border-red-500 rounded text-red-400 text-sm whitespace-pre-line">
           {error}
         </div>
       )}
 
-      <input
-        ref={fileInputRef}
-        type="file"
-        accept="image/*"
-        onChange={handleFileInputChange}
-        className="hidden"
-      />
+      {fileInput}
     </div>
   )
 }
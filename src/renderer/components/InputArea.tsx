@@ -1,18 +1,58 @@
 import React, { useState, useRef, useEffect } from 'react'
-import ImageUpload from './ImageUpload'
-import { TEXTAREA_LINE_HEIGHT_PX, TEXTAREA_MAX_LINES, TEXTAREA_MIN_HEIGHT_PX } from '../../config/constants'
+import ImageUpload, { SelectedImageData } from './ImageUpload'
+import PromptTemplateMenu from './PromptTemplateMenu'
+import TemplatePlaceholderForm from './TemplatePlaceholderForm'
+import { AnalysisMode, ImagePayload, PromptTemplate } from '../../types/electron'
+import { formatFileSize, extractPlaceholders, matchTemplates } from '../utils/helpers'
+import {
+  TEXTAREA_LINE_HEIGHT_PX,
+  TEXTAREA_MAX_LINES,
+  TEXTAREA_MIN_HEIGHT_PX,
+  MAX_IMAGES_PER_REQUEST
+} from '../../config/constants'
 
 interface InputAreaProps {
-  onSubmit: (prompt: string, imageData?: string, mimeType?: string) => void
+  onSubmit: (prompt: string, images?: ImagePayload[]) => void
   disabled?: boolean
+  /** Whether a new image must be attached (false for follow-ups in a conversation that has one) */
+  imageRequired?: boolean
+  /** Prompt templates offered through the template menu and slash commands */
+  templates?: PromptTemplate[]
+  analysisMode?: AnalysisMode
+  onAnalysisModeChange?: (mode: AnalysisMode) => void
+  /** The AI is unavailable, so submitting adds the analysis to the queue */
+  queueing?: boolean
+  /** Ask the model again even if the same question was answered before */
+  forceFresh?: boolean
+  onForceFreshChange?: (forceFresh: boolean) => void
 }
 
-const InputArea: React.FC<InputAreaProps> = ({ onSubmit, disabled = false }) => {
+const InputArea: React.FC<InputAreaProps> = ({
+  onSubmit,
+  disabled = false,
+  imageRequired = true,
+  templates = [],
+  analysisMode = 'text',
+  onAnalysisModeChange,
+  queueing = false,
+  forceFresh = false,
+  onForceFreshChange
+}) => {
   const [prompt, setPrompt] = useState('')
   const [showImageUpload, setShowImageUpload] = useState(false)
-  const [selectedImage, setSelectedImage] = useState<{ data: string; mimeType: string } | null>(null)
+  // Attached images in the order they will be sent
+  const [selectedImages, setSelectedImages] = useState<SelectedImageData[]>([])
+  const [isTemplateMenuOpen, setIsTemplateMenuOpen] = useState(false)
+  const [highlightedTemplateIndex, setHighlightedTemplateIndex] = useState(0)
+  // Template waiting for its placeholder values before it fills the textarea
+  const [pendingTemplate, setPendingTemplate] = useState<PromptTemplate | null>(null)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
 
+  // Typing "/" followed by a command name (no spaces yet) opens the template menu
+  const slashQuery = prompt.match(/^\/(\S*)$/)?.[1] ?? null
+  const menuTemplates = slashQuery !== null ? matchTemplates(templates, slashQuery) : templates
+  const isMenuVisible = templates.length > 0 && (isTemplateMenuOpen || slashQuery !== null)
+
   const adjustTextareaHeight = () => {
     const textarea = textareaRef.current
     if (textarea) {
@@ -27,12 +67,73 @@ const InputArea: React.FC<InputAreaProps> = ({ onSubmit, disabled = false }) =>
     adjustTextareaHeight()
   }, [prompt])
 
+  useEffect(() => {
+    setHighlightedTemplateIndex(0)
+  }, [slashQuery, isTemplateMenuOpen])
+
+  const fillPrompt = (text: string) => {
+    setPrompt(text)
+    setPendingTemplate(null)
+    textareaRef.current?.focus()
+  }
+
+  const handleTemplateSelect = (template: PromptTemplate) => {
+    setIsTemplateMenuOpen(false)
+    if (extractPlaceholders(template.body).length > 0) {
+      // Clear the slash command while the placeholder form is shown
+      setPrompt('')
+      setPendingTemplate(template)
+    } else {
+      fillPrompt(template.body)
+    }
+  }
+
+  const closeTemplateMenu = () => {
+    setIsTemplateMenuOpen(false)
+    if (slashQuery !== null) {
+      setPrompt('')
+    }
+  }
+
+  // Arrow keys, Enter/Tab and Escape drive the template menu while it is open
+  const handleTemplateMenuKeyDown = (e: React.KeyboardEvent): boolean => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault()
+      const offset = e.key === 'ArrowDown' ? 1 : -1
+      const count = Math.max(menuTemplates.length, 1)
+      setHighlightedTemplateIndex(index => (index + offset + count) % count)
+      return true
+    }
+    if ((e.key === 'Enter' && !e.shiftKey) || e.key === 'Tab') {
+      const template = menuTemplates[highlightedTemplateIndex]
+      if (template) {
+        e.preventDefault()
+        handleTemplateSelect(template)
+        return true
+      }
+      return e.key === 'Enter'
+    }
+    if (e.key === 'Escape') {
+      e.preventDefault()
+      closeTemplateMenu()
+      return true
+    }
+    return false
+  }
+
   const handleSubmit = () => {
     if (!prompt.trim() || disabled) return
 
-    if (selectedImage) {
-      onSubmit(prompt.trim(), selectedImage.data, selectedImage.mimeType)
-      setSelectedImage(null)
+    if (selectedImages.length > 0) {
+      onSubmit(prompt.trim(), selectedImages.map(({ data, mimeType, palette }) => ({
+        data,
+        mimeType,
+        ...(palette && { palette })
+      })))
+      setSelectedImages([])
+    } else if (!imageRequired) {
+      // Follow-up question about the images already in the conversation
+      onSubmit(prompt.trim())
     } else {
       // For text-only messages, we still need an image for the AI to analyze
       // Show image upload if no image is selected
@@ -47,28 +148,47 @@ const InputArea: React.FC<InputAreaProps> = ({ onSubmit, disabled = false }) =>
   }
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (isMenuVisible && handleTemplateMenuKeyDown(e)) {
+      return
+    }
+
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault()
       handleSubmit()
     } else if (e.key === 'Escape') {
       setPrompt('')
       setShowImageUpload(false)
-      setSelectedImage(null)
+      setSelectedImages([])
     }
   }
 
-  const handleImageSelect = (imageData: string, mimeType: string) => {
-    setSelectedImage({ data: imageData, mimeType })
+  const handleImagesSelect = (images: SelectedImageData[]) => {
+    setSelectedImages(prev => [...prev, ...images].slice(0, MAX_IMAGES_PER_REQUEST))
     setShowImageUpload(false)
   }
 
-  const canSubmit = prompt.trim() && selectedImage && !disabled
+  const moveImage = (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= selectedImages.length) return
+    setSelectedImages(prev => {
+      const reordered = [...prev]
+      ;[reordered[index], reordered[target]] = [reordered[target], reordered[index]]
+      return reordered
+    })
+  }
+
+  const removeImage = (id: string) => {
+    setSelectedImages(prev => prev.filter(image => image.id !== id))
+  }
+
+  const remainingImageSlots = MAX_IMAGES_PER_REQUEST - selectedImages.length
+  const canSubmit = prompt.trim() && (selectedImages.length > 0 || !imageRequired) && !disabled
 
   return (
     <div className="bg-dark-sidebar border-t border-dark-border p-4">
       <div className="max-w-4xl mx-auto space-y-4">
         {/* Image Upload Section */}
-        {showImageUpload && (
+        {showImageUpload && remainingImageSlots > 0 && (
           <div className="space-y-3">
             <div className="flex items-center justify-between">
               <h3 className="text-sm font-medium text-white">Upload Artwork</h3>
@@ -81,27 +201,82 @@ const InputArea: React.FC<InputAreaProps> = ({ onSubmit, disabled = false }) =>
                 </svg>
               </button>
             </div>
-            <ImageUpload onImageSelect={handleImageSelect} disabled={disabled} />
+            <ImageUpload
+              onImagesSelect={handleImagesSelect}
+              disabled={disabled}
+              maxImages={remainingImageSlots}
+            />
           </div>
         )}
 
-        {/* Selected Image Preview */}
-        {selectedImage && (
-          <div className="flex items-center justify-between p-3 bg-dark-bg border border-dark-border rounded">
-            <div className="flex items-center space-x-3">
-              <div className="w-8 h-8 bg-accent-green rounded flex items-center justify-center">
-                <span className="text-white text-xs">🖼️</span>
-              </div>
-              <span className="text-sm text-white">Image ready for analysis</span>
+        {/* Placeholder values for the chosen template */}
+        {pendingTemplate && (
+          <TemplatePlaceholderForm
+            template={pendingTemplate}
+            onApply={fillPrompt}
+            onCancel={() => setPendingTemplate(null)}
+          />
+        )}
+
+        {/* Attachment Strip - images are sent in this order */}
+        {selectedImages.length > 0 && (
+          <div className="p-3 bg-dark-bg border border-dark-border rounded">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm text-white">
+                {selectedImages.length} {selectedImages.length === 1 ? 'image' : 'images'} ready for analysis
+              </span>
+              <button
+                onClick={() => setSelectedImages([])}
+                className="text-xs text-gray-400 hover:text-white transition-colors"
+              >
+                Remove all
+              </button>
+            </div>
+            <div className="flex space-x-2 overflow-x-auto">
+              {selectedImages.map((image, index) => (
+                <div key={image.id} className="relative flex-shrink-0 w-20" title={`${image.name} • ${formatFileSize(image.size)}`}>
+                  <div className="w-20 h-20 rounded overflow-hidden border border-dark-border">
+                    <img
+                      src={`data:${image.mimeType};base64,${image.data}`}
+                      alt={image.name}
+                      className="w-full h-full object-cover"
+                    />
+                  </div>
+                  <span className="absolute top-1 left-1 px-1 rounded bg-black bg-opacity-60 text-white text-xs">
+                    {index + 1}
+                  </span>
+                  <button
+                    onClick={() => removeImage(image.id)}
+                    className="absolute top-1 right-1 w-4 h-4 flex items-center justify-center rounded bg-black bg-opacity-60 text-gray-300 hover:text-white"
+                    title="Remove image"
+                  >
+                    <svg width="10" height="10" viewBox="0 0 16 16" fill="currentColor">
+                      <path d="M4.646 4.646a.5.5 0 0 1 .708 0L8 7.293l2.646-2.647a.5.5 0 0 1 .708.708L8.707 8l2.647 2.646a.5.5 0 0 1-.708.708L8 8.707l-2.646 2.647a.5.5 0 0 1-.708-.708L7.293 8 4.646 5.354a.5.5 0 0 1 0-.708z"/>
+                    </svg>
+                  </button>
+                  {selectedImages.length > 1 && (
+                    <div className="flex justify-between mt-1">
+                      <button
+                        onClick={() => moveImage(index, -1)}
+                        disabled={index === 0}
+                        className="px-1 text-xs text-gray-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed"
+                        title="Move left"
+                      >
+                        ◀
+                      </button>
+                      <button
+                        onClick={() => moveImage(index, 1)}
+                        disabled={index === selectedImages.length - 1}
+                        className="px-1 text-xs text-gray-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed"
+                        title="Move right"
+                      >
+                        ▶
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
             </div>
-            <button
-              onClick={() => setSelectedImage(null)}
-              className="text-gray-400 hover:text-white transition-colors"
-            >
-              <svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
-                <path d="M4.646 4.646a.5.5 0 0 1 .708 0L8 7.293l2.646-2.647a.5.5 0 0 1 .708.708L8.707 8l2.647 2.646a.5.5 0 0 1-.708.708L8 8.707l-2.646 2.647a.5.5 0 0 1-.708-.708L7.293 8 4.646 5.354a.5.5 0 0 1 0-.708z"/>
-              </svg>
-            </button>
           </div>
         )}
 
@@ -110,9 +285,9 @@ const InputArea: React.FC<InputAreaProps> = ({ onSubmit, disabled = false }) =>
           {/* Image Upload Button */}
           <button
             onClick={() => setShowImageUpload(!showImageUpload)}
-            disabled={disabled}
+            disabled={disabled || remainingImageSlots <= 0}
             className="w-10 h-10 flex items-center justify-center rounded-lg bg-dark-bg border border-dark-border hover:border-gray-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-150"
-            title="Upload image"
+            title={remainingImageSlots > 0 ? 'Upload images' : `Up to ${MAX_IMAGES_PER_REQUEST} images per request`}
           >
             <svg width="20" height="20" viewBox="0 0 20 20" fill="none" className="text-gray-300">
               <path
@@ -125,14 +300,47 @@ const InputArea: React.FC<InputAreaProps> = ({ onSubmit, disabled = false }) =>
             </svg>
           </button>
 
+          {/* Template Button */}
+          {templates.length > 0 && (
+            <button
+              onClick={() => setIsTemplateMenuOpen(!isTemplateMenuOpen)}
+              disabled={disabled}
+              className="w-10 h-10 flex items-center justify-center rounded-lg bg-dark-bg border border-dark-border hover:border-gray-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-150"
+              title="Prompt templates (or type / in the message box)"
+            >
+              <svg width="20" height="20" viewBox="0 0 20 20" fill="none" className="text-gray-300">
+                <path
+                  d="M5 3.333h10M5 7.5h10M5 11.667h6.667M3.333 16.667h13.334"
+                  stroke="currentColor"
+                  strokeWidth="1.5"
+                  strokeLinecap="round"
+                />
+              </svg>
+            </button>
+          )}
+
           {/* Textarea */}
           <div className="flex-1 relative">
+            {isMenuVisible && !disabled && (
+              <PromptTemplateMenu
+                templates={menuTemplates}
+                highlightedIndex={highlightedTemplateIndex}
+                onSelect={handleTemplateSelect}
+                onHighlight={setHighlightedTemplateIndex}
+              />
+            )}
             <textarea
               ref={textareaRef}
               value={prompt}
-              onChange={(e) => setPrompt(e.target.value)}
+              onChange={(e) => {
+                setPrompt(e.target.value)
+                // Typing replaces the button-opened menu with slash command matching
+                setIsTemplateMenuOpen(false)
+              }}
               onKeyDown={handleKeyDown}
-              placeholder="Describe what you'd like to know about this artwork..."
+              placeholder={imageRequired
+                ? "Describe what you'd like to know about this artwork..."
+                : 'Ask a follow-up question...'}
               disabled={disabled}
               className="w-full px-4 py-3 bg-dark-bg border border-dark-border rounded-lg text-white placeholder-gray-400 resize-none focus:outline-none focus:border-accent-blue focus:ring-1 focus:ring-accent-blue disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-150"
               rows={1}
@@ -148,7 +356,7 @@ const InputArea: React.FC<InputAreaProps> = ({ onSubmit, disabled = false }) =>
             onClick={handleSubmit}
             disabled={!canSubmit}
             className="w-10 h-10 flex items-center justify-center rounded-lg bg-accent-blue hover:bg-blue-600 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors duration-150"
-            title="Send message"
+            title={queueing ? 'Queue analysis' : 'Send message'}
           >
             <svg width="20" height="20" viewBox="0 0 20 20" fill="none" className="text-white">
               <path
@@ -163,8 +371,42 @@ const InputArea: React.FC<InputAreaProps> = ({ onSubmit, disabled = false }) =>
         </div>
 
         {/* Helper Text */}
-        <div className="text-xs text-gray-500 text-center">
-          Press Enter to send • Shift+Enter for new line • Escape to clear
+        <div className="flex items-center justify-between text-xs text-gray-500">
+          <span>
+            {queueing ? 'AI unavailable: Enter queues the analysis' : 'Press Enter to send'} • Shift+Enter for new line • Escape to clear{templates.length > 0 && ' • / for templates'}
+          </span>
+          <div className="flex items-center space-x-4">
+            {onForceFreshChange && (
+              <label
+                className="flex items-center space-x-1.5 cursor-pointer"
+                title="Ask the model again instead of reusing the answer to an identical earlier question"
+              >
+                <input
+                  type="checkbox"
+                  checked={forceFresh}
+                  onChange={(e) => onForceFreshChange(e.target.checked)}
+                  disabled={disabled}
+                  className="accent-blue-500"
+                />
+                <span>Force fresh answer</span>
+              </label>
+            )}
+            {onAnalysisModeChange && (
+              <label
+                className="flex items-center space-x-1.5 cursor-pointer"
+                title="Answer with labelled sections (style, period, medium, palette...) instead of free text"
+              >
+                <input
+                  type="checkbox"
+                  checked={analysisMode === 'structured'}
+                  onChange={(e) => onAnalysisModeChange(e.target.checked ? 'structured' : 'text')}
+                  disabled={disabled}
+                  className="accent-blue-500"
+                />
+                <span>Structured analysis</span>
+              </label>
+            )}
+          </div>
         </div>
       </div>
     </div>
@@ -0,0 +1,59 @@
+import React from 'react'
+import ReactMarkdown, { Components } from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+
+interface MarkdownContentProps {
+  content: string
+}
+
+// Tailwind styling for each Markdown element (the app has no typography plugin)
+const MARKDOWN_COMPONENTS: Components = {
+  h1: ({ children }) => <h1 className="text-xl font-semibold mt-4 mb-2 first:mt-0">{children}</h1>,
+  h2: ({ children }) => <h2 className="text-lg font-semibold mt-4 mb-2 first:mt-0">{children}</h2>,
+  h3: ({ children }) => <h3 className="text-base font-semibold mt-3 mb-1 first:mt-0">{children}</h3>,
+  h4: ({ children }) => <h4 className="font-semibold mt-3 mb-1 first:mt-0">{children}</h4>,
+  p: ({ children }) => <p className="my-2 first:mt-0 last:mb-0">{children}</p>,
+  ul: ({ children }) => <ul className="list-disc pl-5 my-2 space-y-1">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal pl-5 my-2 space-y-1">{children}</ol>,
+  blockquote: ({ children }) => (
+    <blockquote className="border-l-4 border-dark-border pl-3 my-2 text-gray-300 italic">{children}</blockquote>
+  ),
+  hr: () => <hr className="my-4 border-dark-border" />,
+  // The main process opens new-window links in the external browser
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300 underline">
+      {children}
+    </a>
+  ),
+  // Images are not loaded from answers; show the alt text instead
+  img: ({ alt }) => <span className="text-gray-400">[{alt || 'image'}]</span>,
+  pre: ({ children }) => (
+    <pre className="my-2 p-3 bg-dark-bg border border-dark-border rounded overflow-x-auto text-sm">{children}</pre>
+  ),
+  code: ({ className, children }) => (
+    // Fenced blocks carry a language class; inline code gets its own background
+    <code className={className ? 'font-mono' : 'px-1 py-0.5 rounded bg-dark-bg font-mono text-sm'}>{children}</code>
+  ),
+  table: ({ children }) => (
+    <div className="my-2 overflow-x-auto">
+      <table className="min-w-full border-collapse text-sm">{children}</table>
+    </div>
+  ),
+  th: ({ children }) => <th className="border border-dark-border px-2 py-1 text-left font-semibold bg-dark-bg">{children}</th>,
+  td: ({ children }) => <td className="border border-dark-border px-2 py-1 align-top">{children}</td>
+}
+
+/**
+ * Render assistant Markdown (GitHub flavored) with raw HTML stripped
+ */
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ content }) => {
+  return (
+    <div className="break-words">
+      <ReactMarkdown remarkPlugins={[remarkGfm]} components={MARKDOWN_COMPONENTS} skipHtml>
+        {content}
+      </ReactMarkdown>
+    </div>
+  )
+}
+
+export default MarkdownContent
@@ -1,33 +1,95 @@
 import React, { useEffect, useRef } from 'react'
 import { ChatMessage } from '../../types/electron'
-import { formatTimestamp } from '../utils/helpers'
+import StructuredAnalysisCard from './StructuredAnalysisCard'
+import MarkdownContent from './MarkdownContent'
+import ColorSwatches from './ColorSwatches'
+import { formatTimestamp, getAttachmentImageUrl, describeImageProcessing } from '../utils/helpers'
 import { MESSAGE_MAX_WIDTH_PERCENT, LOADING_DOT_DELAY_1, LOADING_DOT_DELAY_2 } from '../../config/constants'
 
 interface MessageListProps {
   messages: ChatMessage[]
   isLoading: boolean
+  streamingMessageId?: string | null
+  /** Message to scroll to and highlight, e.g. a search hit */
+  focusedMessageId?: string | null
+  /** Stop the running analysis; shown in place of the loading indicator when set */
+  onStop?: () => void
+  /** Older messages exist that have not been loaded yet */
+  hasEarlierMessages?: boolean
+  isLoadingEarlier?: boolean
+  onLoadEarlier?: () => void
 }
 
-const MessageList: React.FC<MessageListProps> = ({ messages, isLoading }) => {
+const MessageList: React.FC<MessageListProps> = ({
+  messages,
+  isLoading,
+  streamingMessageId = null,
+  focusedMessageId = null,
+  onStop,
+  hasEarlierMessages = false,
+  isLoadingEarlier = false,
+  onLoadEarlier
+}) => {
   const messagesEndRef = useRef<HTMLDivElement>(null)
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
   }
 
+  // Follow new and streaming messages, but stay put when earlier ones are loaded above
+  const lastMessage = messages[messages.length - 1]
+
   useEffect(() => {
-    scrollToBottom()
-  }, [messages, isLoading])
+    const focused = focusedMessageId && document.getElementById(`message-${focusedMessageId}`)
+    if (focused) {
+      focused.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    } else {
+      scrollToBottom()
+    }
+  }, [lastMessage?.id, lastMessage?.content, isLoading, focusedMessageId])
+
+  const renderAttachments = (message: ChatMessage) => {
+    if (!message.attachments?.length) return null
+
+    return (
+      <div className="mb-3 flex flex-wrap gap-2">
+        {message.attachments.map((attachment, index) => (
+          <div key={`${attachment.hash}-${index}`} className="space-y-1">
+            <img
+              src={getAttachmentImageUrl(attachment)}
+              alt="Attached artwork"
+              className="max-h-48 max-w-full rounded border border-white border-opacity-20 object-contain bg-black bg-opacity-20"
+            />
+            {attachment.palette && attachment.palette.length > 0 && (
+              <ColorSwatches palette={attachment.palette} size="sm" />
+            )}
+            {attachment.processed && (
+              <div
+                className="text-xs opacity-75"
+                title="Sent to the model downsized and re-encoded without EXIF or GPS metadata; the original is kept"
+              >
+                {describeImageProcessing(attachment.processed)}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    )
+  }
 
   const renderMessage = (message: ChatMessage) => {
     const isUser = message.role === 'user'
+    const isStreaming = message.id === streamingMessageId
     
     return (
       <div
         key={message.id}
+        id={`message-${message.id}`}
         className={`message flex ${isUser ? 'justify-end' : 'justify-start'} mb-4`}
       >
-        <div className={`max-w-[${MESSAGE_MAX_WIDTH_PERCENT}%] ${isUser ? 'ml-auto' : 'mr-auto'}`}>
+        <div className={`max-w-[${MESSAGE_MAX_WIDTH_PERCENT}%] ${isUser ? 'ml-auto' : 'mr-auto'} ${
+          message.id === focusedMessageId ? 'ring-2 ring-yellow-500 ring-offset-4 ring-offset-dark-bg rounded-lg' : ''
+        }`}>
           {/* Avatar for assistant messages */}
           {!isUser && (
             <div className="flex items-start space-x-3">
@@ -40,24 +102,39 @@ const MessageList: React.FC<MessageListProps> = ({ messages, isLoading }) => {
                     ? 'bg-accent-blue text-white' 
                     : 'bg-dark-sidebar text-white border border-dark-border'
                 }`}>
-                  {/* Image placeholder for user messages */}
-                  {isUser && (
-                    <div className="mb-3 flex items-center space-x-2 text-blue-100">
-                      <span className="text-lg">🖼️</span>
-                      <span className="text-sm italic">[Image was attached]</span>
-                    </div>
-                  )}
+                  {/* Attached artwork */}
+                  {renderAttachments(message)}
                   
-                  {/* Message content */}
-                  <div className="whitespace-pre-wrap break-words">
-                    {message.content}
-                  </div>
+                  {/* Message content - structured analyses render as labelled sections */}
+                  {message.structured ? (
+                    <StructuredAnalysisCard analysis={message.structured} />
+                  ) : (
+                    <>
+                      <MarkdownContent content={message.content} />
+                      {isStreaming && (
+                        <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-gray-400 animate-pulse" />
+                      )}
+                    </>
+                  )}
                   
-                  {/* Timestamp */}
+                  {/* Timestamp, with the status of an answer that did not finish or came from the cache */}
                   <div className={`text-xs mt-2 ${
                     isUser ? 'text-blue-100' : 'text-gray-400'
                   }`}>
                     {formatTimestamp(message.timestamp)}
+                    {message.status === 'cancelled' && (
+                      <span className="ml-2 px-1.5 py-0.5 rounded bg-yellow-500 bg-opacity-20 text-yellow-300">
+                        Cancelled
+                      </span>
+                    )}
+                    {message.cached && (
+                      <span
+                        className="ml-2 px-1.5 py-0.5 rounded bg-gray-500 bg-opacity-20 text-gray-300"
+                        title="Reused from an identical earlier question; tick Force fresh answer to ask again"
+                      >
+                        Cached
+                      </span>
+                    )}
                   </div>
                 </div>
               </div>
@@ -73,15 +150,10 @@ const MessageList: React.FC<MessageListProps> = ({ messages, isLoading }) => {
                     ? 'bg-accent-blue text-white' 
                     : 'bg-dark-sidebar text-white border border-dark-border'
                 }`}>
-                  {/* Image placeholder for user messages */}
-                  {isUser && (
-                    <div className="mb-3 flex items-center space-x-2 text-blue-100">
-                      <span className="text-lg">🖼️</span>
-                      <span className="text-sm italic">[Image was attached]</span>
-                    </div>
-                  )}
+                  {/* Attached artwork */}
+                  {renderAttachments(message)}
                   
-                  {/* Message content */}
+                  {/* Message content - user text is shown as typed, never as Markdown */}
                   <div className="whitespace-pre-wrap break-words">
                     {message.content}
                   </div>
@@ -123,6 +195,21 @@ const MessageList: React.FC<MessageListProps> = ({ messages, isLoading }) => {
     </div>
   )
 
+  const StopButton = () => (
+    <div className="flex justify-center mb-4">
+      <button
+        onClick={onStop}
+        className="flex items-center space-x-2 px-3 py-1.5 text-sm text-gray-300 bg-dark-sidebar border border-dark-border rounded hover:bg-dark-hover hover:text-white transition-colors duration-150"
+        title="Stop the analysis"
+      >
+        <svg width="10" height="10" viewBox="0 0 10 10" fill="currentColor">
+          <rect width="10" height="10" rx="1" />
+        </svg>
+        <span>Stop</span>
+      </button>
+    </div>
+  )
+
   const EmptyState = () => (
     <div className="flex-1 flex items-center justify-center">
       <div className="text-center">
@@ -144,8 +231,21 @@ const MessageList: React.FC<MessageListProps> = ({ messages, isLoading }) => {
   return (
     <div className="flex-1 overflow-y-auto p-4">
       <div className="max-w-4xl mx-auto">
+        {hasEarlierMessages && (
+          <div className="flex justify-center mb-4">
+            <button
+              onClick={onLoadEarlier}
+              disabled={isLoadingEarlier}
+              className="px-3 py-1.5 text-sm text-gray-300 bg-dark-sidebar border border-dark-border rounded hover:bg-dark-hover disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-150"
+            >
+              {isLoadingEarlier ? 'Loading...' : 'Load earlier messages'}
+            </button>
+          </div>
+        )}
         {messages.map(renderMessage)}
-        {isLoading && <LoadingIndicator />}
+        {/* Stop while an analysis runs; otherwise dots until the first streamed chunk arrives */}
+        {isLoading && onStop && <StopButton />}
+        {isLoading && !onStop && !streamingMessageId && <LoadingIndicator />}
         <div ref={messagesEndRef} />
       </div>
     </div>
@@ -0,0 +1,243 @@
+import React, { useState } from 'react'
+import { PromptTemplate, PromptTemplateInput } from '../../types/electron'
+import { PromptTemplateInputSchema } from '../../types/schemas'
+import { electronAPI } from '../utils/electron-api'
+
+interface PromptTemplateManagerProps {
+  templates: PromptTemplate[]
+  /** Called after templates were added, changed or removed so the list can be reloaded */
+  onChanged: () => void
+}
+
+const EMPTY_TEMPLATE: PromptTemplateInput = { name: '', description: '', body: '' }
+
+const PromptTemplateManager: React.FC<PromptTemplateManagerProps> = ({ templates, onChanged }) => {
+  // Template being created or edited, null while only the list is shown
+  const [draft, setDraft] = useState<PromptTemplateInput | null>(null)
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
+  const [isBusy, setIsBusy] = useState(false)
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null)
+
+  const userTemplates = templates.filter(template => !template.builtIn)
+  const builtInCount = templates.length - userTemplates.length
+
+  const startEditing = (template: PromptTemplateInput) => {
+    setDraft({ id: template.id, name: template.name, description: template.description, body: template.body })
+    setFieldErrors({})
+    setStatus(null)
+  }
+
+  const handleSave = async () => {
+    if (!draft) return
+
+    const validation = PromptTemplateInputSchema.safeParse(draft)
+    if (!validation.success) {
+      const errors: Record<string, string> = {}
+      validation.error.issues.forEach(issue => {
+        const path = issue.path.join('.')
+        errors[path] = errors[path] || issue.message
+      })
+      setFieldErrors(errors)
+      return
+    }
+
+    setIsBusy(true)
+    setStatus(null)
+    try {
+      await electronAPI.savePromptTemplate(validation.data)
+      setDraft(null)
+      setFieldErrors({})
+      onChanged()
+    } catch (err) {
+      console.error('Failed to save prompt template:', err)
+      setStatus({ type: 'error', message: 'Failed to save the template.' })
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleDelete = async (template: PromptTemplate) => {
+    if (!window.confirm(`Delete the template "${template.name}"?`)) {
+      return
+    }
+
+    setStatus(null)
+    try {
+      const deleted = await electronAPI.deletePromptTemplate(template.id)
+      if (!deleted) {
+        setStatus({ type: 'error', message: 'Failed to delete the template.' })
+        return
+      }
+      onChanged()
+    } catch (err) {
+      console.error('Failed to delete prompt template:', err)
+      setStatus({ type: 'error', message: 'Failed to delete the template.' })
+    }
+  }
+
+  const handleImport = async () => {
+    setIsBusy(true)
+    setStatus(null)
+    try {
+      const result = await electronAPI.importPromptTemplates()
+      if (!result.completed) return
+
+      const details = [
+        result.skipped > 0 && `${result.skipped} already present`,
+        result.rejected > 0 && `${result.rejected} invalid`
+      ].filter(Boolean).join(', ')
+      setStatus({
+        type: result.rejected > 0 ? 'error' : 'success',
+        message: `Imported ${result.imported} template${result.imported === 1 ? '' : 's'}${details ? ` (${details})` : ''}.`
+      })
+      onChanged()
+    } catch (err) {
+      console.error('Failed to import prompt templates:', err)
+      setStatus({ type: 'error', message: 'Failed to import templates. Make sure the file is a template pack.' })
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleExport = async () => {
+    setIsBusy(true)
+    setStatus(null)
+    try {
+      const exported = await electronAPI.exportPromptTemplates()
+      if (exported) {
+        setStatus({ type: 'success', message: 'Templates exported.' })
+      }
+    } catch (err) {
+      console.error('Failed to export prompt templates:', err)
+      setStatus({ type: 'error', message: 'Failed to export templates.' })
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const inputClass = (field: string) =>
+    `w-full px-3 py-2 bg-dark-bg border rounded text-sm text-white placeholder-gray-500 focus:outline-none ${
+      fieldErrors[field] ? 'border-red-500' : 'border-dark-border focus:border-accent-blue'
+    }`
+
+  const renderError = (field: string) =>
+    fieldErrors[field] && <p className="mt-1 text-xs text-red-400">{fieldErrors[field]}</p>
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-400">
+        {builtInCount} built-in templates are always available. Use placeholders like{' '}
+        <code className="text-gray-300">{'{{artist}}'}</code> or <code className="text-gray-300">{'{{medium}}'}</code>{' '}
+        to be asked for values when a template is used.
+      </p>
+
+      {userTemplates.length > 0 && (
+        <ul className="divide-y divide-dark-border border border-dark-border rounded">
+          {userTemplates.map(template => (
+            <li key={template.id} className="flex items-center justify-between px-3 py-2">
+              <div className="min-w-0">
+                <p className="text-sm text-white truncate">{template.name}</p>
+                {template.description && <p className="text-xs text-gray-400 truncate">{template.description}</p>}
+              </div>
+              <div className="flex items-center space-x-3 flex-shrink-0 ml-3">
+                <button
+                  onClick={() => startEditing(template)}
+                  className="text-xs text-gray-400 hover:text-white transition-colors"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => handleDelete(template)}
+                  className="text-xs text-red-400 hover:text-red-300 transition-colors"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {draft ? (
+        <div className="space-y-3 p-3 border border-dark-border rounded">
+          <div>
+            <input
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Template name"
+              className={inputClass('name')}
+            />
+            {renderError('name')}
+          </div>
+          <div>
+            <input
+              value={draft.description}
+              onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              placeholder="Short description (optional)"
+              className={inputClass('description')}
+            />
+            {renderError('description')}
+          </div>
+          <div>
+            <textarea
+              value={draft.body}
+              onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+              placeholder="Prompt text, e.g. Compare this artwork with the work of {{artist}}."
+              rows={4}
+              className={`${inputClass('body')} resize-y`}
+            />
+            {renderError('body')}
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={handleSave}
+              disabled={isBusy}
+              className="px-3 py-1.5 bg-accent-blue hover:bg-blue-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white text-sm rounded transition-colors duration-150"
+            >
+              {draft.id ? 'Save template' : 'Add template'}
+            </button>
+            <button
+              onClick={() => setDraft(null)}
+              disabled={isBusy}
+              className="px-3 py-1.5 bg-gray-600 hover:bg-gray-700 disabled:bg-gray-700 disabled:cursor-not-allowed text-white text-sm rounded transition-colors duration-150"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => startEditing(EMPTY_TEMPLATE)}
+            disabled={isBusy}
+            className="px-3 py-1.5 bg-accent-blue hover:bg-blue-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white text-sm rounded transition-colors duration-150"
+          >
+            New template
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={isBusy}
+            className="px-3 py-1.5 bg-gray-600 hover:bg-gray-700 disabled:bg-gray-700 disabled:cursor-not-allowed text-white text-sm rounded transition-colors duration-150"
+          >
+            Import...
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isBusy || userTemplates.length === 0}
+            className="px-3 py-1.5 bg-gray-600 hover:bg-gray-700 disabled:bg-gray-700 disabled:cursor-not-allowed text-white text-sm rounded transition-colors duration-150"
+          >
+            Export...
+          </button>
+        </div>
+      )}
+
+      {status && (
+        <p className={`text-sm ${status.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>
+          {status.message}
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default PromptTemplateManager
@@ -0,0 +1,51 @@
+import React from 'react'
+import { PromptTemplate } from '../../types/electron'
+import { getTemplateCommand } from '../utils/helpers'
+
+interface PromptTemplateMenuProps {
+  templates: PromptTemplate[]
+  /** Index of the keyboard-highlighted template */
+  highlightedIndex: number
+  onSelect: (template: PromptTemplate) => void
+  onHighlight: (index: number) => void
+}
+
+const PromptTemplateMenu: React.FC<PromptTemplateMenuProps> = ({
+  templates,
+  highlightedIndex,
+  onSelect,
+  onHighlight
+}) => {
+  return (
+    <div className="absolute bottom-full left-0 right-0 mb-2 max-h-64 overflow-y-auto bg-dark-sidebar border border-dark-border rounded-lg shadow-xl z-10">
+      {templates.length === 0 ? (
+        <div className="px-4 py-3 text-sm text-gray-400">No matching templates</div>
+      ) : (
+        <ul role="listbox">
+          {templates.map((template, index) => (
+            <li
+              key={template.id}
+              role="option"
+              aria-selected={index === highlightedIndex}
+              // Keep focus in the textarea so typing can continue after the click
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => onSelect(template)}
+              onMouseEnter={() => onHighlight(index)}
+              className={`px-4 py-2 cursor-pointer ${index === highlightedIndex ? 'bg-dark-hover' : ''}`}
+            >
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-white">{template.name}</span>
+                <span className="text-xs text-gray-500">/{getTemplateCommand(template)}</span>
+              </div>
+              {template.description && (
+                <p className="text-xs text-gray-400 truncate">{template.description}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default PromptTemplateMenu
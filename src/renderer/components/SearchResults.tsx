@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react'
+import { SearchHit, SearchQuery } from '../../types/electron'
+import { formatTimestamp } from '../utils/helpers'
+import { SEARCH_DEBOUNCE_MS } from '../../config/constants'
+import { electronAPI } from '../utils/electron-api'
+
+interface SearchResultsProps {
+  query: SearchQuery
+  onOpenHit: (hit: SearchHit) => void
+}
+
+/**
+ * Render a snippet with its matched words marked
+ */
+const HighlightedSnippet: React.FC<{ hit: SearchHit }> = ({ hit }) => {
+  const parts: React.ReactNode[] = []
+  let cursor = 0
+  hit.highlights.forEach(([start, end], index) => {
+    if (start > cursor) parts.push(hit.snippet.slice(cursor, start))
+    parts.push(
+      <mark key={index} className="bg-yellow-500 bg-opacity-30 text-yellow-200 rounded-sm">
+        {hit.snippet.slice(start, end)}
+      </mark>
+    )
+    cursor = end
+  })
+  parts.push(hit.snippet.slice(cursor))
+
+  return <p className="text-xs text-gray-300 break-words line-clamp-3">{parts}</p>
+}
+
+const SearchResults: React.FC<SearchResultsProps> = ({ query, onOpenHit }) => {
+  const [hits, setHits] = useState<SearchHit[]>([])
+  const [isSearching, setIsSearching] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setIsSearching(true)
+
+    // Wait for typing to pause; results of an outdated query are dropped
+    const timer = setTimeout(async () => {
+      try {
+        const results = await electronAPI.searchMessages(query)
+        if (!cancelled) {
+          setHits(results)
+          setError(null)
+        }
+      } catch (err) {
+        console.error('Search failed:', err)
+        if (!cancelled) setError('Search failed')
+      } finally {
+        if (!cancelled) setIsSearching(false)
+      }
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [query.text, query.role, query.from, query.to])
+
+  if (error) {
+    return <p className="px-4 py-2 text-sm text-red-400">{error}</p>
+  }
+
+  if (hits.length === 0) {
+    return (
+      <p className="px-4 py-2 text-sm text-gray-400">
+        {isSearching ? 'Searching...' : 'No matching messages'}
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-1">
+      <p className="px-4 pb-1 text-xs text-gray-500">
+        {hits.length} {hits.length === 1 ? 'match' : 'matches'}
+      </p>
+      {hits.map(hit => (
+        <button
+          key={hit.messageId}
+          onClick={() => onOpenHit(hit)}
+          className="block w-[calc(100%-1rem)] mx-2 p-2 rounded text-left hover:bg-dark-hover transition-colors duration-150"
+        >
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-sm text-white truncate">{hit.conversationTitle}</span>
+            <span className="ml-2 text-[10px] text-gray-500 flex-shrink-0">
+              {hit.role === 'user' ? 'Prompt' : 'Answer'}
+            </span>
+          </div>
+          <HighlightedSnippet hit={hit} />
+          <p className="mt-1 text-[10px] text-gray-500">{formatTimestamp(hit.timestamp)}</p>
+        </button>
+      ))}
+    </div>
+  )
+}
+
+export default SearchResults
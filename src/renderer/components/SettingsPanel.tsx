@@ -0,0 +1,138 @@
+import React, { useState } from 'react'
+import { AiStatus, PromptTemplate } from '../../types/electron'
+import ApiKeyForm from './ApiKeyForm'
+import GenerationSettingsForm from './GenerationSettingsForm'
+import PromptTemplateManager from './PromptTemplateManager'
+import BackupManager from './BackupManager'
+import { electronAPI } from '../utils/electron-api'
+
+interface SettingsPanelProps {
+  aiStatus: AiStatus | null
+  promptTemplates: PromptTemplate[]
+  onPromptTemplatesChanged: () => void
+  /** Called after a backup was restored so conversations and templates are reloaded */
+  onDataRestored: () => void
+  onClose: () => void
+}
+
+const API_KEY_SOURCE_LABELS: Record<AiStatus['apiKeySource'], string> = {
+  stored: 'Saved in the app (encrypted)',
+  env: 'From the .env file',
+  none: 'Not configured'
+}
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({
+  aiStatus,
+  promptTemplates,
+  onPromptTemplatesChanged,
+  onDataRestored,
+  onClose
+}) => {
+  const [error, setError] = useState<string | null>(null)
+
+  const handleClearKey = async () => {
+    if (!window.confirm('Remove the saved API key? The app will fall back to the .env file if one is present.')) {
+      return
+    }
+
+    setError(null)
+    try {
+      const cleared = await electronAPI.clearApiKey()
+      if (!cleared) {
+        setError('Failed to remove the API key')
+      }
+    } catch (err) {
+      console.error('Failed to clear API key:', err)
+      setError('Failed to remove the API key')
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-60"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-lg max-h-[80vh] overflow-y-auto bg-dark-sidebar border border-dark-border rounded-lg shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-dark-border">
+          <h2 className="text-lg font-medium text-white">Settings</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors"
+            title="Close settings"
+          >
+            <svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
+              <path d="M4.646 4.646a.5.5 0 0 1 .708 0L8 7.293l2.646-2.647a.5.5 0 0 1 .708.708L8.707 8l2.647 2.646a.5.5 0 0 1-.708.708L8 8.707l-2.646 2.647a.5.5 0 0 1-.708-.708L7.293 8 4.646 5.354a.5.5 0 0 1 0-.708z"/>
+            </svg>
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-6">
+          {/* AI Status */}
+          <section>
+            <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-2">AI Provider</h3>
+            {aiStatus ? (
+              <dl className="grid grid-cols-3 gap-y-1 text-sm">
+                <dt className="text-gray-400">Provider</dt>
+                <dd className="col-span-2 text-white">{aiStatus.provider === 'gemini' ? 'Google Gemini' : 'Local server'}</dd>
+                <dt className="text-gray-400">Model</dt>
+                <dd className="col-span-2 text-white">{aiStatus.modelName}</dd>
+                <dt className="text-gray-400">Status</dt>
+                <dd className={`col-span-2 ${aiStatus.isInitialized ? 'text-green-400' : 'text-yellow-400'}`}>
+                  {aiStatus.isInitialized ? 'Ready' : 'Not ready'}
+                </dd>
+              </dl>
+            ) : (
+              <p className="text-sm text-gray-400">Checking status...</p>
+            )}
+          </section>
+
+          {/* API Key */}
+          {aiStatus?.provider === 'gemini' && (
+            <section>
+              <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-2">Gemini API Key</h3>
+              <p className="text-sm text-gray-400 mb-3">
+                Current key: <span className="text-white">{API_KEY_SOURCE_LABELS[aiStatus.apiKeySource]}</span>
+              </p>
+              <ApiKeyForm submitLabel={aiStatus.hasApiKey ? 'Replace key' : 'Save key'} />
+              {aiStatus.apiKeySource === 'stored' && (
+                <button
+                  onClick={handleClearKey}
+                  className="mt-3 text-sm text-red-400 hover:text-red-300 underline transition-colors"
+                >
+                  Remove saved key
+                </button>
+              )}
+              {error && <p className="mt-2 text-sm text-red-400">{error}</p>}
+            </section>
+          )}
+
+          {/* Generation settings */}
+          {aiStatus && (
+            <section>
+              <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-2">Generation</h3>
+              <GenerationSettingsForm provider={aiStatus.provider} />
+            </section>
+          )}
+
+          {/* Prompt templates */}
+          <section>
+            <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-2">Prompt Templates</h3>
+            <PromptTemplateManager templates={promptTemplates} onChanged={onPromptTemplatesChanged} />
+          </section>
+
+          {/* Backup */}
+          <section>
+            <h3 className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-2">Backup & Restore</h3>
+            <BackupManager onRestored={onDataRestored} />
+          </section>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default SettingsPanel
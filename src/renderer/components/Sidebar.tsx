@@ -1,65 +1,155 @@
-import React from 'react'
-import { ChatMessage } from '../../types/electron'
-import { formatTimestamp, truncateText } from '../utils/helpers'
-import { ONE_DAY_MS, ONE_WEEK_MS, MESSAGE_TRUNCATE_LENGTH } from '../../config/constants'
+import React, { useState } from 'react'
+import { ConversationSummary, ExportFormat, SearchHit, SearchQuery } from '../../types/electron'
+import SearchResults from './SearchResults'
+import { formatTimestamp } from '../utils/helpers'
+import { ONE_MINUTE_MS, ONE_DAY_MS, ONE_WEEK_MS } from '../../config/constants'
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: string }[] = [
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'html', label: 'HTML' },
+  { format: 'pdf', label: 'PDF' }
+]
+
+type DateFilter = 'any' | 'day' | 'week' | 'month' | 'year'
+
+const DATE_FILTERS: { value: DateFilter; label: string; rangeMs?: number }[] = [
+  { value: 'any', label: 'Any time' },
+  { value: 'day', label: 'Past day', rangeMs: ONE_DAY_MS },
+  { value: 'week', label: 'Past week', rangeMs: ONE_WEEK_MS },
+  { value: 'month', label: 'Past month', rangeMs: 30 * ONE_DAY_MS },
+  { value: 'year', label: 'Past year', rangeMs: 365 * ONE_DAY_MS }
+]
 
 interface SidebarProps {
   isCollapsed: boolean
   onToggle: () => void
-  chatHistory: ChatMessage[]
-  onSelectMessage?: (messageId: string) => void
+  conversations: ConversationSummary[]
+  activeConversationId?: string | null
+  onSelectConversation?: (conversationId: string) => void
+  onRenameConversation?: (conversationId: string, title: string) => void
+  onDeleteConversation?: (conversationId: string) => void
+  onExportConversation?: (conversationId: string, format: ExportFormat) => void
+  onOpenSearchHit?: (hit: SearchHit) => void
   onClearHistory: () => void
   onNewChat: () => void
+  onOpenSettings?: () => void
 }
 
 const Sidebar: React.FC<SidebarProps> = ({
   isCollapsed,
   onToggle,
-  chatHistory,
-  onSelectMessage,
+  conversations,
+  activeConversationId = null,
+  onSelectConversation,
+  onRenameConversation,
+  onDeleteConversation,
+  onExportConversation,
+  onOpenSearchHit,
   onClearHistory,
-  onNewChat
+  onNewChat,
+  onOpenSettings
 }) => {
+  const [editingConversationId, setEditingConversationId] = useState<string | null>(null)
+  const [editingTitle, setEditingTitle] = useState('')
+  const [exportMenuConversationId, setExportMenuConversationId] = useState<string | null>(null)
+  const [searchText, setSearchText] = useState('')
+  const [roleFilter, setRoleFilter] = useState<'' | SearchQuery['role']>('')
+  const [dateFilter, setDateFilter] = useState<DateFilter>('any')
+
+  const isSearching = !isCollapsed && searchText.trim() !== ''
+  const dateRange = DATE_FILTERS.find(filter => filter.value === dateFilter)?.rangeMs
+  // Rounded to the minute so the query (and the search it triggers) stays stable between renders
+  const searchQuery: SearchQuery = {
+    text: searchText,
+    ...(roleFilter && { role: roleFilter }),
+    ...(dateRange && { from: Math.floor((Date.now() - dateRange) / ONE_MINUTE_MS) * ONE_MINUTE_MS })
+  }
+
   const handleClearHistory = () => {
     if (window.confirm('Are you sure you want to clear all chat history? This action cannot be undone.')) {
       onClearHistory()
     }
   }
 
-  const groupMessagesByDate = (messages: ChatMessage[]) => {
+  const handleDeleteConversation = (e: React.MouseEvent, conversation: ConversationSummary) => {
+    e.stopPropagation()
+    if (window.confirm(`Delete "${conversation.title}"? This action cannot be undone.`)) {
+      onDeleteConversation?.(conversation.id)
+    }
+  }
+
+  const toggleExportMenu = (e: React.MouseEvent, conversation: ConversationSummary) => {
+    e.stopPropagation()
+    setExportMenuConversationId(prev => prev === conversation.id ? null : conversation.id)
+  }
+
+  const handleExport = (e: React.MouseEvent, conversation: ConversationSummary, format: ExportFormat) => {
+    e.stopPropagation()
+    setExportMenuConversationId(null)
+    onExportConversation?.(conversation.id, format)
+  }
+
+  const startRename = (e: React.MouseEvent, conversation: ConversationSummary) => {
+    e.stopPropagation()
+    setEditingConversationId(conversation.id)
+    setEditingTitle(conversation.title)
+  }
+
+  const commitRename = () => {
+    const conversation = conversations.find(conv => conv.id === editingConversationId)
+    const title = editingTitle.trim()
+    if (conversation && title && title !== conversation.title) {
+      onRenameConversation?.(conversation.id, title)
+    }
+    setEditingConversationId(null)
+  }
+
+  const handleRenameKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      commitRename()
+    } else if (e.key === 'Escape') {
+      setEditingConversationId(null)
+    }
+  }
+
+  const groupConversationsByDate = (items: ConversationSummary[]) => {
     const now = Date.now()
     const today = new Date(now).setHours(0, 0, 0, 0)
     const yesterday = today - ONE_DAY_MS
     const lastWeek = today - ONE_WEEK_MS
 
     const groups = {
-      today: [] as ChatMessage[],
-      yesterday: [] as ChatMessage[],
-      lastWeek: [] as ChatMessage[],
-      older: [] as ChatMessage[]
+      today: [] as ConversationSummary[],
+      yesterday: [] as ConversationSummary[],
+      lastWeek: [] as ConversationSummary[],
+      older: [] as ConversationSummary[]
     }
 
-    messages.forEach(message => {
-      const messageDate = new Date(message.timestamp).setHours(0, 0, 0, 0)
+    items.forEach(conversation => {
+      const conversationDate = new Date(conversation.updatedAt).setHours(0, 0, 0, 0)
       
-      if (messageDate === today) {
-        groups.today.push(message)
-      } else if (messageDate === yesterday) {
-        groups.yesterday.push(message)
-      } else if (messageDate >= lastWeek) {
-        groups.lastWeek.push(message)
+      if (conversationDate === today) {
+        groups.today.push(conversation)
+      } else if (conversationDate === yesterday) {
+        groups.yesterday.push(conversation)
+      } else if (conversationDate >= lastWeek) {
+        groups.lastWeek.push(conversation)
       } else {
-        groups.older.push(message)
+        groups.older.push(conversation)
       }
     })
 
     return groups
   }
 
-  const messageGroups = groupMessagesByDate(chatHistory.filter(msg => msg.role === 'user'))
+  // Most recently active conversations first
+  const conversationGroups = groupConversationsByDate(
+    [...conversations].sort((a, b) => b.updatedAt - a.updatedAt)
+  )
 
-  const renderMessageGroup = (title: string, messages: ChatMessage[]) => {
-    if (messages.length === 0) return null
+  const renderConversationGroup = (title: string, items: ConversationSummary[]) => {
+    if (items.length === 0) return null
 
     return (
       <div key={title} className="mb-4">
@@ -69,25 +159,86 @@ const Sidebar: React.FC<SidebarProps> = ({
           </h3>
         )}
         <div className="space-y-1">
-          {messages.map(message => (
+          {items.map(conversation => (
             <div
-              key={message.id}
-              onClick={() => onSelectMessage?.(message.id)}
-              className="flex items-center p-2 mx-2 rounded cursor-pointer hover:bg-dark-hover transition-colors duration-150"
+              key={conversation.id}
+              onClick={() => onSelectConversation?.(conversation.id)}
+              title={conversation.title}
+              className={`group relative flex items-center p-2 mx-2 rounded cursor-pointer hover:bg-dark-hover transition-colors duration-150 ${
+                conversation.id === activeConversationId ? 'bg-dark-hover' : ''
+              }`}
             >
               <div className="w-8 h-8 rounded bg-accent-blue flex items-center justify-center flex-shrink-0 mr-3">
                 <span className="text-white text-sm">🎨</span>
               </div>
               {!isCollapsed && (
                 <div className="flex-1 min-w-0">
-                  <p className="text-sm text-white truncate">
-                    {truncateText(message.content, MESSAGE_TRUNCATE_LENGTH)}
-                  </p>
+                  {editingConversationId === conversation.id ? (
+                    <input
+                      autoFocus
+                      value={editingTitle}
+                      onChange={(e) => setEditingTitle(e.target.value)}
+                      onKeyDown={handleRenameKeyDown}
+                      onBlur={commitRename}
+                      onClick={(e) => e.stopPropagation()}
+                      className="w-full px-1 py-0.5 bg-dark-bg border border-accent-blue rounded text-sm text-white focus:outline-none"
+                    />
+                  ) : (
+                    <p className="text-sm text-white truncate">
+                      {conversation.title}
+                    </p>
+                  )}
                   <p className="text-xs text-gray-400">
-                    {formatTimestamp(message.timestamp)}
+                    {formatTimestamp(conversation.updatedAt)}
                   </p>
                 </div>
               )}
+              {!isCollapsed && editingConversationId !== conversation.id && (
+                <div className={`${exportMenuConversationId === conversation.id ? 'flex' : 'hidden group-hover:flex'} items-center space-x-1 ml-2`}>
+                  <button
+                    onClick={(e) => toggleExportMenu(e, conversation)}
+                    className="w-6 h-6 flex items-center justify-center rounded text-gray-400 hover:text-white transition-colors"
+                    title="Export conversation"
+                  >
+                    <svg width="12" height="12" viewBox="0 0 16 16" fill="currentColor">
+                      <path d="M.5 9.9a.5.5 0 0 1 .5.5v2.5a1 1 0 0 0 1 1h12a1 1 0 0 0 1-1v-2.5a.5.5 0 0 1 1 0v2.5a2 2 0 0 1-2 2H2a2 2 0 0 1-2-2v-2.5a.5.5 0 0 1 .5-.5z"/>
+                      <path d="M7.646 11.854a.5.5 0 0 0 .708 0l3-3a.5.5 0 0 0-.708-.708L8.5 10.293V1.5a.5.5 0 0 0-1 0v8.793L5.354 8.146a.5.5 0 1 0-.708.708l3 3z"/>
+                    </svg>
+                  </button>
+                  <button
+                    onClick={(e) => startRename(e, conversation)}
+                    className="w-6 h-6 flex items-center justify-center rounded text-gray-400 hover:text-white transition-colors"
+                    title="Rename conversation"
+                  >
+                    <svg width="12" height="12" viewBox="0 0 16 16" fill="currentColor">
+                      <path d="M12.146.146a.5.5 0 0 1 .708 0l3 3a.5.5 0 0 1 0 .708l-10 10a.5.5 0 0 1-.168.11l-5 2a.5.5 0 0 1-.65-.65l2-5a.5.5 0 0 1 .11-.168l10-10zM11.207 2.5 13.5 4.793 14.793 3.5 12.5 1.207 11.207 2.5zm1.586 3L10.5 3.207 4 9.707V10h.5a.5.5 0 0 1 .5.5v.5h.5a.5.5 0 0 1 .5.5v.5h.293l6.5-6.5z"/>
+                    </svg>
+                  </button>
+                  <button
+                    onClick={(e) => handleDeleteConversation(e, conversation)}
+                    className="w-6 h-6 flex items-center justify-center rounded text-gray-400 hover:text-red-400 transition-colors"
+                    title="Delete conversation"
+                  >
+                    <svg width="12" height="12" viewBox="0 0 16 16" fill="currentColor">
+                      <path d="M4.646 4.646a.5.5 0 0 1 .708 0L8 7.293l2.646-2.647a.5.5 0 0 1 .708.708L8.707 8l2.647 2.646a.5.5 0 0 1-.708.708L8 8.707l-2.646 2.647a.5.5 0 0 1-.708-.708L7.293 8 4.646 5.354a.5.5 0 0 1 0-.708z"/>
+                    </svg>
+                  </button>
+                </div>
+              )}
+              {exportMenuConversationId === conversation.id && (
+                <div className="absolute right-2 top-full mt-1 z-10 w-32 py-1 bg-dark-bg border border-dark-border rounded shadow-lg">
+                  <p className="px-3 py-1 text-xs text-gray-500">Export as</p>
+                  {EXPORT_OPTIONS.map(({ format, label }) => (
+                    <button
+                      key={format}
+                      onClick={(e) => handleExport(e, conversation, format)}
+                      className="w-full px-3 py-1.5 text-left text-sm text-gray-300 hover:bg-dark-hover hover:text-white transition-colors"
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
           ))}
         </div>
@@ -129,11 +280,50 @@ const Sidebar: React.FC<SidebarProps> = ({
             + New Chat
           </button>
         )}
+
+        {!isCollapsed && (
+          <div className="mt-3 space-y-2">
+            <input
+              type="search"
+              value={searchText}
+              onChange={(e) => setSearchText(e.target.value)}
+              onKeyDown={(e) => e.key === 'Escape' && setSearchText('')}
+              placeholder='Search messages, "exact phrase"'
+              className="w-full px-3 py-1.5 bg-dark-bg border border-dark-border rounded text-sm text-white placeholder-gray-500 focus:outline-none focus:border-accent-blue"
+            />
+            {isSearching && (
+              <div className="flex space-x-2">
+                <select
+                  value={roleFilter}
+                  onChange={(e) => setRoleFilter(e.target.value as '' | SearchQuery['role'])}
+                  className="flex-1 min-w-0 px-2 py-1 bg-dark-bg border border-dark-border rounded text-xs text-gray-300 focus:outline-none"
+                >
+                  <option value="">All messages</option>
+                  <option value="user">Prompts</option>
+                  <option value="assistant">Answers</option>
+                </select>
+                <select
+                  value={dateFilter}
+                  onChange={(e) => setDateFilter(e.target.value as DateFilter)}
+                  className="flex-1 min-w-0 px-2 py-1 bg-dark-bg border border-dark-border rounded text-xs text-gray-300 focus:outline-none"
+                >
+                  {DATE_FILTERS.map(filter => (
+                    <option key={filter.value} value={filter.value}>{filter.label}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Chat History */}
       <div className="flex-1 overflow-y-auto">
-        {chatHistory.length === 0 ? (
+        {isSearching ? (
+          <div className="py-4">
+            <SearchResults query={searchQuery} onOpenHit={(hit) => onOpenSearchHit?.(hit)} />
+          </div>
+        ) : conversations.length === 0 ? (
           <div className="p-4 text-center">
             {!isCollapsed && (
               <p className="text-sm text-gray-400">No chat history yet</p>
@@ -141,10 +331,10 @@ const Sidebar: React.FC<SidebarProps> = ({
           </div>
         ) : (
           <div className="py-4">
-            {renderMessageGroup('Today', messageGroups.today)}
-            {renderMessageGroup('Yesterday', messageGroups.yesterday)}
-            {renderMessageGroup('Last 7 Days', messageGroups.lastWeek)}
-            {renderMessageGroup('Older', messageGroups.older)}
+            {renderConversationGroup('Today', conversationGroups.today)}
+            {renderConversationGroup('Yesterday', conversationGroups.yesterday)}
+            {renderConversationGroup('Last 7 Days', conversationGroups.lastWeek)}
+            {renderConversationGroup('Older', conversationGroups.older)}
           </div>
         )}
       </div>
@@ -153,6 +343,7 @@ const Sidebar: React.FC<SidebarProps> = ({
       <div className="p-4 border-t border-dark-border">
         <div className="flex items-center justify-between">
           <button
+            onClick={onOpenSettings}
             className="w-8 h-8 flex items-center justify-center rounded hover:bg-dark-hover transition-colors duration-150"
             title="Settings"
           >
@@ -162,7 +353,7 @@ const Sidebar: React.FC<SidebarProps> = ({
             </svg>
           </button>
           
-          {chatHistory.length > 0 && (
+          {conversations.length > 0 && (
             <button
               onClick={handleClearHistory}
               className="w-8 h-8 flex items-center justify-center rounded hover:bg-red-600 transition-colors duration-150"
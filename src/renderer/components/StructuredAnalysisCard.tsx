@@ -0,0 +1,64 @@
+import React from 'react'
+import { StructuredAnalysis } from '../../types/electron'
+
+interface StructuredAnalysisCardProps {
+  analysis: StructuredAnalysis
+}
+
+const StructuredAnalysisCard: React.FC<StructuredAnalysisCardProps> = ({ analysis }) => {
+  const confidencePercent = Math.round(analysis.confidence * 100)
+
+  const renderSection = (label: string, content: React.ReactNode) => (
+    <section className="p-3 bg-dark-bg border border-dark-border rounded">
+      <h4 className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-1">{label}</h4>
+      <div className="text-sm text-white">{content}</div>
+    </section>
+  )
+
+  const renderList = (items: string[]) => items.length > 0
+    ? (
+      <ul className="list-disc list-inside space-y-0.5">
+        {items.map((item, index) => <li key={index}>{item}</li>)}
+      </ul>
+    )
+    : <span className="text-gray-500">None noted</span>
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-3 gap-2">
+        {renderSection('Style', analysis.style)}
+        {renderSection('Period', analysis.period)}
+        {renderSection('Medium', analysis.mediumGuess)}
+      </div>
+
+      {renderSection('Palette', analysis.palette.length > 0
+        ? (
+          <div className="flex flex-wrap gap-1">
+            {analysis.palette.map((color, index) => (
+              <span key={index} className="px-2 py-0.5 rounded bg-dark-hover text-xs">{color}</span>
+            ))}
+          </div>
+        )
+        : <span className="text-gray-500">None noted</span>
+      )}
+
+      {renderSection('Composition', <p className="whitespace-pre-wrap">{analysis.compositionNotes}</p>)}
+
+      <div className="grid grid-cols-2 gap-2">
+        {renderSection('Strengths', renderList(analysis.strengths))}
+        {renderSection('Weaknesses', renderList(analysis.weaknesses))}
+      </div>
+
+      {renderSection('Confidence', (
+        <div className="flex items-center space-x-2">
+          <div className="flex-1 h-2 bg-dark-hover rounded overflow-hidden">
+            <div className="h-full bg-accent-green" style={{ width: `${confidencePercent}%` }} />
+          </div>
+          <span className="text-xs text-gray-300">{confidencePercent}%</span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default StructuredAnalysisCard
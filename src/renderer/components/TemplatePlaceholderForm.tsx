@@ -0,0 +1,68 @@
+import React, { useState } from 'react'
+import { PromptTemplate } from '../../types/electron'
+import { extractPlaceholders, fillTemplate } from '../utils/helpers'
+
+interface TemplatePlaceholderFormProps {
+  template: PromptTemplate
+  /** Called with the template body after placeholders are filled in */
+  onApply: (prompt: string) => void
+  onCancel: () => void
+}
+
+const TemplatePlaceholderForm: React.FC<TemplatePlaceholderFormProps> = ({ template, onApply, onCancel }) => {
+  const placeholders = extractPlaceholders(template.body)
+  const [values, setValues] = useState<Record<string, string>>({})
+
+  const isComplete = placeholders.every(name => values[name]?.trim())
+
+  const handleApply = () => {
+    if (!isComplete) return
+    onApply(fillTemplate(template.body, values))
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      handleApply()
+    } else if (e.key === 'Escape') {
+      onCancel()
+    }
+  }
+
+  return (
+    <div className="p-3 bg-dark-bg border border-dark-border rounded space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-white">{template.name}</span>
+        <button
+          onClick={onCancel}
+          className="text-xs text-gray-400 hover:text-white transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        {placeholders.map((name, index) => (
+          <label key={name} className="block">
+            <span className="block text-xs text-gray-400 mb-1">{name}</span>
+            <input
+              value={values[name] || ''}
+              onChange={(e) => setValues({ ...values, [name]: e.target.value })}
+              onKeyDown={handleKeyDown}
+              autoFocus={index === 0}
+              className="w-full px-3 py-1.5 bg-dark-sidebar border border-dark-border rounded text-sm text-white focus:outline-none focus:border-accent-blue"
+            />
+          </label>
+        ))}
+      </div>
+      <button
+        onClick={handleApply}
+        disabled={!isComplete}
+        className="px-3 py-1.5 bg-accent-blue hover:bg-blue-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white text-sm rounded transition-colors duration-150"
+      >
+        Use template
+      </button>
+    </div>
+  )
+}
+
+export default TemplatePlaceholderForm
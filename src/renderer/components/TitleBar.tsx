@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react'
+import { electronAPI } from '../utils/electron-api'
 
 const TitleBar: React.FC = () => {
   const [isMaximized, setIsMaximized] = useState(false)
@@ -6,14 +7,14 @@ const TitleBar: React.FC = () => {
   useEffect(() => {
     // Get initial maximize state
     const getInitialState = async () => {
-      const maximized = await window.electronAPI.isWindowMaximized()
+      const maximized = await electronAPI.isWindowMaximized()
       setIsMaximized(maximized)
     }
     
     getInitialState()
 
     // Listen for maximize state changes and store cleanup function
-    const cleanup = window.electronAPI.onWindowMaximizeChanged((maximized) => {
+    const cleanup = electronAPI.onWindowMaximizeChanged((maximized) => {
       setIsMaximized(maximized)
     })
 
@@ -22,15 +23,15 @@ const TitleBar: React.FC = () => {
   }, [])
 
   const handleMinimize = () => {
-    window.electronAPI.minimizeWindow()
+    electronAPI.minimizeWindow()
   }
 
   const handleMaximize = () => {
-    window.electronAPI.maximizeWindow()
+    electronAPI.maximizeWindow()
   }
 
   const handleClose = () => {
-    window.electronAPI.closeWindow()
+    electronAPI.closeWindow()
   }
 
   return (
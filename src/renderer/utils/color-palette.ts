@@ -0,0 +1,177 @@
+// Offline dominant color extraction for attached artwork
+import type { PaletteColor } from '../../types/electron'
+import { PALETTE_COLOR_COUNT, PALETTE_SAMPLE_SIZE, PALETTE_MAX_ITERATIONS } from '../../config/constants'
+
+type Rgb = [number, number, number]
+
+/** Pixels more transparent than this are ignored */
+const MIN_ALPHA = 128
+
+/** Minimum squared RGB distance between initial cluster centers, so near-duplicates aren't seeded twice */
+const MIN_SEED_DISTANCE_SQ = 24 * 24
+
+const distanceSq = (a: Rgb, b: Rgb) =>
+  (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2
+
+const toHex = ([r, g, b]: Rgb) =>
+  '#' + [r, g, b].map(channel => channel.toString(16).padStart(2, '0')).join('')
+
+/**
+ * Convert an RGB color to HSL (hue in degrees, saturation and lightness in percent)
+ */
+export const rgbToHsl = ([r, g, b]: Rgb): [number, number, number] => {
+  const [rn, gn, bn] = [r / 255, g / 255, b / 255]
+  const max = Math.max(rn, gn, bn)
+  const min = Math.min(rn, gn, bn)
+  const lightness = (max + min) / 2
+  const delta = max - min
+
+  if (delta === 0) {
+    return [0, 0, Math.round(lightness * 100)]
+  }
+
+  const saturation = delta / (1 - Math.abs(2 * lightness - 1))
+  let hue: number
+  if (max === rn) {
+    hue = ((gn - bn) / delta) % 6
+  } else if (max === gn) {
+    hue = (bn - rn) / delta + 2
+  } else {
+    hue = (rn - gn) / delta + 4
+  }
+
+  return [Math.round((hue * 60 + 360) % 360), Math.round(saturation * 100), Math.round(lightness * 100)]
+}
+
+/**
+ * Cluster RGBA pixel data into dominant colors with k-means
+ *
+ * Pixels are first bucketed into a 5-bit-per-channel histogram, and centers are seeded from the
+ * most populous buckets, so the same image always yields the same palette.
+ * @param pixels - RGBA pixel data, e.g. from CanvasRenderingContext2D.getImageData
+ * @param colorCount - Maximum number of colors to return
+ * @returns Colors sorted by pixel share, largest first
+ */
+export const clusterColors = (pixels: Uint8ClampedArray, colorCount = PALETTE_COLOR_COUNT): PaletteColor[] => {
+  // Histogram of opaque pixels: bucket key -> summed color and count
+  const buckets = new Map<number, { sum: Rgb; count: number }>()
+  for (let i = 0; i < pixels.length; i += 4) {
+    if (pixels[i + 3] < MIN_ALPHA) continue
+    const [r, g, b] = [pixels[i], pixels[i + 1], pixels[i + 2]]
+    const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3)
+    const bucket = buckets.get(key)
+    if (bucket) {
+      bucket.sum[0] += r
+      bucket.sum[1] += g
+      bucket.sum[2] += b
+      bucket.count++
+    } else {
+      buckets.set(key, { sum: [r, g, b], count: 1 })
+    }
+  }
+
+  // Ties are broken by bucket key so the order never depends on insertion order
+  const points = Array.from(buckets.entries())
+    .map(([key, { sum, count }]) => ({
+      key,
+      color: [sum[0] / count, sum[1] / count, sum[2] / count] as Rgb,
+      count
+    }))
+    .sort((a, b) => b.count - a.count || a.key - b.key)
+
+  const totalPixels = points.reduce((total, point) => total + point.count, 0)
+  if (totalPixels === 0) {
+    return []
+  }
+
+  const centers: Rgb[] = []
+  for (const point of points) {
+    if (centers.length >= colorCount) break
+    if (centers.every(center => distanceSq(center, point.color) >= MIN_SEED_DISTANCE_SQ)) {
+      centers.push([...point.color])
+    }
+  }
+
+  // Weighted k-means over the histogram buckets
+  const assignments = new Array<number>(points.length).fill(0)
+  for (let iteration = 0; iteration < PALETTE_MAX_ITERATIONS; iteration++) {
+    let changed = false
+    points.forEach((point, index) => {
+      let nearest = 0
+      centers.forEach((center, centerIndex) => {
+        if (distanceSq(point.color, center) < distanceSq(point.color, centers[nearest])) {
+          nearest = centerIndex
+        }
+      })
+      if (assignments[index] !== nearest) {
+        assignments[index] = nearest
+        changed = true
+      }
+    })
+
+    const sums = centers.map(() => ({ sum: [0, 0, 0] as Rgb, count: 0 }))
+    points.forEach((point, index) => {
+      const cluster = sums[assignments[index]]
+      cluster.sum[0] += point.color[0] * point.count
+      cluster.sum[1] += point.color[1] * point.count
+      cluster.sum[2] += point.color[2] * point.count
+      cluster.count += point.count
+    })
+    sums.forEach(({ sum, count }, centerIndex) => {
+      if (count > 0) {
+        centers[centerIndex] = [sum[0] / count, sum[1] / count, sum[2] / count]
+      }
+    })
+
+    if (!changed && iteration > 0) break
+  }
+
+  const counts = centers.map(() => 0)
+  points.forEach((point, index) => {
+    counts[assignments[index]] += point.count
+  })
+
+  return centers
+    .map((center, index) => {
+      const rgb = center.map(Math.round) as Rgb
+      return {
+        hex: toHex(rgb),
+        rgb,
+        hsl: rgbToHsl(rgb),
+        percentage: Math.round((counts[index] / totalPixels) * 1000) / 10
+      }
+    })
+    .filter(color => color.percentage > 0)
+    .sort((a, b) => b.percentage - a.percentage)
+}
+
+/**
+ * Measure the dominant colors of an image
+ * @param src - Image URL (object URL or data URL)
+ * @returns Palette sorted by pixel share
+ */
+export const extractPalette = (src: string): Promise<PaletteColor[]> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => {
+      // Downscale first; a small sample gives the same dominant colors much faster
+      const scale = Math.min(1, PALETTE_SAMPLE_SIZE / Math.max(image.naturalWidth, image.naturalHeight))
+      const width = Math.max(1, Math.round(image.naturalWidth * scale))
+      const height = Math.max(1, Math.round(image.naturalHeight * scale))
+
+      const canvas = document.createElement('canvas')
+      canvas.width = width
+      canvas.height = height
+      const context = canvas.getContext('2d')
+      if (!context) {
+        reject(new Error('Canvas is not available'))
+        return
+      }
+
+      context.drawImage(image, 0, 0, width, height)
+      resolve(clusterColors(context.getImageData(0, 0, width, height).data))
+    }
+    image.onerror = () => reject(new Error('Failed to load image for color analysis'))
+    image.src = src
+  })
+}
@@ -0,0 +1,21 @@
+// Renderer access to the preload API, with failed calls rejecting with the typed errors of types/errors
+import type { ElectronAPI } from '../../types/electron'
+import { isIpcError, reviveIpcError } from '../../types/errors'
+
+/**
+ * Rebuild typed errors from the IpcError payloads the preload rejects with
+ *
+ * Classes can't cross the context bridge, so this has to happen on the renderer side of it.
+ */
+const withTypedErrors = (api: ElectronAPI): ElectronAPI =>
+  Object.fromEntries(Object.entries(api).map(([name, method]) => [
+    name,
+    (...args: unknown[]) => {
+      const result = method(...args)
+      return result instanceof Promise
+        ? result.catch((error: unknown) => { throw isIpcError(error) ? reviveIpcError(error) : error })
+        : result
+    }
+  ])) as unknown as ElectronAPI
+
+export const electronAPI = withTypedErrors(window.electronAPI)
@@ -1,14 +1,17 @@
 // Utility functions for the renderer process
 import { 
-  ONE_MINUTE_MS, 
-  ONE_HOUR_MS, 
-  ONE_DAY_MS, 
-  ONE_WEEK_MS,
   MAX_FILE_SIZE_BYTES,
   MAX_FILE_SIZE_DISPLAY,
   BYTES_PER_KB,
-  ALLOWED_IMAGE_TYPES
-} from '../config/constants'
+  ALLOWED_IMAGE_TYPES,
+  IMAGE_PROTOCOL_SCHEME
+} from '../../config/constants'
+import type { AnalysisResult, ImageAttachment, ProcessedImage, PromptTemplate, SafetyCategory } from '../../types/electron'
+import { ApiKeyMissingError, ImageDecodeError, StorageError, getAiErrorInfo, isClassifiedAiError } from '../../types/errors'
+import { getDisplayImageHash } from '../../utils/validation'
+
+// Timestamp formatting is shared with the main process (conversation exports)
+export { formatTimestamp } from '../../utils/formatting'
 
 /**
  * Generate unique message ID using crypto.randomUUID or timestamp fallback
@@ -21,57 +24,6 @@ export const generateMessageId = (): string => {
   return `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
 }
 
-/**
- * Format Unix timestamp to readable format
- */
-export const formatTimestamp = (timestamp: number): string => {
-  const now = Date.now()
-  const diff = now - timestamp
-  const date = new Date(timestamp)
-
-  // Less than 1 minute
-  if (diff < ONE_MINUTE_MS) {
-    return 'Just now'
-  }
-
-  // Less than 1 hour
-  if (diff < ONE_HOUR_MS) {
-    const minutes = Math.floor(diff / ONE_MINUTE_MS)
-    return `${minutes} minute${minutes === 1 ? '' : 's'} ago`
-  }
-
-  // Less than 24 hours
-  if (diff < ONE_DAY_MS) {
-    const hours = Math.floor(diff / ONE_HOUR_MS)
-    return `${hours} hour${hours === 1 ? '' : 's'} ago`
-  }
-
-  // Less than 7 days
-  if (diff < ONE_WEEK_MS) {
-    const days = Math.floor(diff / ONE_DAY_MS)
-    return `${days} day${days === 1 ? '' : 's'} ago`
-  }
-
-  // More than 7 days - show actual date
-  const today = new Date()
-  const isThisYear = date.getFullYear() === today.getFullYear()
-
-  if (isThisYear) {
-    return date.toLocaleDateString('en-US', { 
-      month: 'short', 
-      day: 'numeric',
-      hour: 'numeric',
-      minute: '2-digit'
-    })
-  } else {
-    return date.toLocaleDateString('en-US', { 
-      year: 'numeric',
-      month: 'short', 
-      day: 'numeric'
-    })
-  }
-}
-
 /**
  * Truncate text with ellipsis
  */
@@ -95,15 +47,49 @@ export const formatFileSize = (bytes: number): string => {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i]
 }
 
+/**
+ * Summarize what preprocessing changed about an image, e.g. "4000×3000 → 2048×1536 • 9.5 MB → 412 KB (−96%)"
+ */
+export const describeImageProcessing = (processed: ProcessedImage): string => {
+  const { width, height, bytes, originalWidth, originalHeight, originalBytes } = processed
+  const dimensions = width === originalWidth && height === originalHeight
+    ? `${width}×${height}`
+    : `${originalWidth}×${originalHeight} → ${width}×${height}`
+  const saving = originalBytes > 0 ? Math.round((1 - bytes / originalBytes) * 100) : 0
+  return `${dimensions} • ${formatFileSize(originalBytes)} → ${formatFileSize(bytes)}${saving > 0 ? ` (−${saving}%)` : ''}`
+}
+
+/** MIME types of files the system reports no type for (HEIC and AVIF on some platforms) */
+const IMAGE_TYPE_BY_EXTENSION: Record<string, string> = {
+  heic: 'image/heic',
+  heif: 'image/heif',
+  avif: 'image/avif',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  bmp: 'image/bmp',
+  svg: 'image/svg+xml'
+}
+
+/**
+ * Get the MIME type of an image file, falling back to its extension when the system reports none
+ */
+export const getImageFileType = (file: File): string => {
+  if (file.type) {
+    return file.type
+  }
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? ''
+  return IMAGE_TYPE_BY_EXTENSION[extension] ?? ''
+}
+
 /**
  * Validate image file type and size
  */
 export const validateImageFile = (file: File): { isValid: boolean; error?: string } => {
   // Check file type
-  if (!ALLOWED_IMAGE_TYPES.includes(file.type as any)) {
+  if (!ALLOWED_IMAGE_TYPES.includes(getImageFileType(file) as any)) {
     return {
       isValid: false,
-      error: 'Invalid file type. Please select a JPEG, PNG, GIF, or WebP image.'
+      error: 'Invalid file type. Please select a JPEG, PNG, GIF, WebP, TIFF, BMP, AVIF, HEIC or SVG image.'
     }
   }
 
@@ -140,6 +126,125 @@ export const fileToBase64 = (file: File): Promise<string> => {
   })
 }
 
+/**
+ * Build the URL of a stored image served by the main process image protocol
+ */
+export const getStoredImageUrl = (hash: string): string => {
+  return `${IMAGE_PROTOCOL_SCHEME}://${hash}`
+}
+
+/**
+ * Build the URL to display an attachment (the converted copy for formats such as TIFF or HEIC)
+ */
+export const getAttachmentImageUrl = (attachment: ImageAttachment): string => {
+  return getStoredImageUrl(getDisplayImageHash(attachment))
+}
+
+/** Matches template placeholders such as {{artist}} or {{ medium }} */
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g
+
+/**
+ * List the distinct placeholder names in a template body, in order of appearance
+ */
+export const extractPlaceholders = (body: string): string[] => {
+  const names = Array.from(body.matchAll(PLACEHOLDER_PATTERN), match => match[1])
+  return Array.from(new Set(names))
+}
+
+/**
+ * Replace template placeholders with the given values (unknown placeholders are kept)
+ */
+export const fillTemplate = (body: string, values: Record<string, string>): string => {
+  return body.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    values[name]?.trim() ? values[name].trim() : placeholder
+  )
+}
+
+/**
+ * Slash command for a template, e.g. "Analyze composition" -> "analyze-composition"
+ */
+export const getTemplateCommand = (template: PromptTemplate): string => {
+  return template.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+}
+
+/**
+ * Filter templates by a slash command query, command prefix matches first
+ */
+export const matchTemplates = (templates: PromptTemplate[], query: string): PromptTemplate[] => {
+  const normalizedQuery = query.toLowerCase()
+  if (!normalizedQuery) {
+    return templates
+  }
+
+  const prefixMatches = templates.filter(template => getTemplateCommand(template).startsWith(normalizedQuery))
+  const otherMatches = templates.filter(template =>
+    !prefixMatches.includes(template) && getTemplateCommand(template).includes(normalizedQuery)
+  )
+  return [...prefixMatches, ...otherMatches]
+}
+
+export const SAFETY_CATEGORY_LABELS: Record<SafetyCategory, string> = {
+  harassment: 'Harassment',
+  hateSpeech: 'Hate speech',
+  sexuallyExplicit: 'Sexually explicit',
+  dangerousContent: 'Dangerous content'
+}
+
+/**
+ * Explain a failed analysis in terms of what the user can do about it
+ * @param result - Failed analysis result with its classified error
+ * @returns Message shown in the conversation
+ */
+export const describeAnalysisError = (result: AnalysisResult): string => {
+  const details = result.errorDetails ?? {}
+  switch (result.errorCode) {
+    case 'invalid-api-key':
+      return 'The API key was rejected. Check it or enter a new one in Settings.'
+    case 'rate-limit':
+      return details.quotaExhausted
+        ? 'The request quota for this API key is used up. Try again once it resets, or use a key with a higher quota.'
+        : 'Too many requests were sent in a short time. Wait a moment and try again.'
+    case 'safety-block': {
+      const categories = (details.safetyCategories ?? []).map(category => SAFETY_CATEGORY_LABELS[category].toLowerCase())
+      const reason = categories.length > 0 ? `the ${categories.join(' and ')} safety filter` : 'a safety filter'
+      return `This request was blocked by ${reason}. Rephrase the prompt, or relax the filter in Settings under Generation.`
+    }
+    case 'network':
+      return 'The AI service could not be reached. Check your internet connection and try again.'
+    case 'service-unavailable':
+      return 'The AI service is temporarily unavailable. Try again in a few minutes.'
+    case 'model-not-found':
+      return `The model${details.modelName ? ` "${details.modelName}"` : ''} is not available. Choose another model in Settings.`
+    case 'content-too-large':
+      return 'This request is too large for the model. Attach fewer or smaller images, or start a new conversation.'
+    default:
+      return `Sorry, I encountered an error while analyzing the image: ${result.error || 'Unknown error'}`
+  }
+}
+
+/**
+ * Explain a failed electronAPI call by the type of error it rejected with
+ * @param error - Error caught from the call
+ * @param fallback - What failed, e.g. 'Failed to load conversation'
+ * @returns Message shown in the error banner
+ */
+export const describeIpcError = (error: unknown, fallback: string): string => {
+  if (error instanceof ApiKeyMissingError) {
+    return 'No API key is configured. Add one in Settings.'
+  }
+  if (isClassifiedAiError(error)) {
+    const { code, details } = getAiErrorInfo(error)
+    return describeAnalysisError({ success: false, error: error.message, errorCode: code, errorDetails: details })
+  }
+  if (error instanceof StorageError) {
+    return `${fallback}: ${error.message}`
+  }
+  if (error instanceof ImageDecodeError) {
+    return error.message
+  }
+  return fallback
+}
+
 /**
  * Debounce function for performance optimization
  */
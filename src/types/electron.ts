@@ -1,11 +1,141 @@
 // TypeScript type definitions for Electron IPC communication
 
+// Dominant color measured in an image
+export interface PaletteColor {
+  hex: string
+  rgb: [number, number, number]
+  /** Hue in degrees, saturation and lightness in percent */
+  hsl: [number, number, number]
+  /** Share of the image's pixels closest to this color, in percent */
+  percentage: number
+}
+
+// Reference to an image in the content-addressed image store
+export interface ImageAttachment {
+  /** The original, as uploaded */
+  hash: string
+  mimeType: string
+  /** Dominant colors measured when the image was attached */
+  palette?: PaletteColor[]
+  /** Downsized, metadata-free version sent to the model instead of the original */
+  processed?: ProcessedImage
+}
+
+// Version of an attached image that was prepared for the model, with what changed
+export interface ProcessedImage {
+  /** Image store hash of the sent version */
+  hash: string
+  mimeType: string
+  width: number
+  height: number
+  bytes: number
+  /** Dimensions as displayed (EXIF orientation applied) */
+  originalWidth: number
+  originalHeight: number
+  originalBytes: number
+}
+
+// Structured analysis returned in structured mode
+export interface StructuredAnalysis {
+  style: string
+  period: string
+  mediumGuess: string
+  /** Dominant colors as plain names or hex codes */
+  palette: string[]
+  compositionNotes: string
+  strengths: string[]
+  weaknesses: string[]
+  /** Model's confidence in its attribution, from 0 to 1 */
+  confidence: number
+}
+
 // Chat message interface
 export interface ChatMessage {
   id: string
   role: 'user' | 'assistant'
   content: string
   timestamp: number
+  attachments?: ImageAttachment[]
+  /** Parsed result of a structured analysis (content then holds the raw JSON) */
+  structured?: StructuredAnalysis
+  /**
+   * Set on an answer that did not complete: 'cancelled' when it was stopped (content holds the
+   * text generated until then), 'error' when the analysis failed (content explains why)
+   */
+  status?: MessageStatus
+  /** Set on an answer reused from the response cache instead of asking the model again */
+  cached?: boolean
+}
+
+// Outcome of an assistant turn that did not complete normally
+export type MessageStatus = 'cancelled' | 'error'
+
+// Conversation interface grouping the messages of one analysis thread
+export interface Conversation {
+  id: string
+  title: string
+  createdAt: number
+  updatedAt: number
+  messages: ChatMessage[]
+}
+
+// Conversation as kept in the store; its messages live in the message log
+export type StoredConversation = Omit<Conversation, 'messages'>
+
+// Conversation as listed in the sidebar; messages are loaded page by page
+export interface ConversationSummary extends StoredConversation {
+  messageCount: number
+}
+
+// Page request for a conversation's messages
+export interface ChatHistoryQuery {
+  /** Page size, CHAT_HISTORY_PAGE_SIZE by default */
+  limit?: number
+  /** Return messages older than this message ID (omit for the latest page) */
+  before?: string
+  /** Extend the page back far enough to contain this message, e.g. a search hit */
+  includeMessageId?: string
+}
+
+// Page of a conversation's messages, oldest first
+export interface ChatHistoryPage {
+  messages: ChatMessage[]
+  /** True when older messages exist */
+  hasMore: boolean
+}
+
+// Inline image payload sent along with an analysis request
+export interface ImagePayload {
+  data: string
+  mimeType: string
+  /** Measured palette, added to the prompt when enabled in settings */
+  palette?: PaletteColor[]
+}
+
+// Prior turn of the conversation given to the model as context for a new prompt
+export interface ConversationTurn {
+  role: 'user' | 'assistant'
+  content: string
+  attachments?: ImageAttachment[]
+}
+
+// 'text' streams a free-form answer, 'structured' asks for JSON matching StructuredAnalysis
+export type AnalysisMode = 'text' | 'structured'
+
+// AI analysis request interface (images are sent in the given order)
+export interface AnalysisRequest {
+  /** Caller-chosen ID used to cancel the request while it runs */
+  requestId: string
+  /** Conversation whose saved messages are sent as context, read from the message log */
+  conversationId: string
+  /** Saved message holding this prompt; only messages before it are context */
+  promptMessageId?: string
+  prompt: string
+  /** Images saved with saveImage; the versions prepared for the model are read from the image store */
+  attachments: ImageAttachment[]
+  mode?: AnalysisMode
+  /** Ask the model even if the same request has a cached answer */
+  forceFresh?: boolean
 }
 
 // AI analysis result interface
@@ -13,13 +143,118 @@ export interface AnalysisResult {
   success: boolean
   text?: string
   error?: string
+  structured?: StructuredAnalysis
+  /** Set when structured mode was requested but the response could not be parsed; text holds the raw response */
+  structuredError?: string
+  /** Set when the request was cancelled; text holds whatever was streamed before */
+  cancelled?: boolean
+  /** Why the request failed, so the UI can explain what to do about it */
+  errorCode?: AiErrorCode
+  errorDetails?: AiErrorDetails
+  /** Set when the answer came from the response cache */
+  cached?: boolean
+}
+
+// Classified reasons an AI request can fail
+export type AiErrorCode =
+  | 'invalid-api-key'
+  | 'rate-limit'
+  | 'safety-block'
+  | 'network'
+  | 'service-unavailable'
+  | 'model-not-found'
+  | 'content-too-large'
+  | 'unknown'
+
+// Extra information about a classified AI failure
+export interface AiErrorDetails {
+  /** How long the provider asked to wait before trying again */
+  retryAfterMs?: number
+  /** A usage quota (e.g. the daily limit) is used up, so waiting a minute won't help */
+  quotaExhausted?: boolean
+  /** Safety categories that blocked the prompt or answer */
+  safetyCategories?: SafetyCategory[]
+  /** Model that could not be found */
+  modelName?: string
+}
+
+// Streamed text of a running analysis
+export interface AnalysisChunk {
+  requestId: string
+  text: string
+}
+
+// Sent while an analysis waits to retry after a transient failure
+export interface AnalysisRetry {
+  requestId: string
+  /** Attempt about to be made, starting at 2 */
+  attempt: number
+  maxAttempts: number
+  delayMs: number
+  errorCode: AiErrorCode
+}
+
+// Where a queued analysis stands ('failed' jobs wait for the user to edit or drop them)
+export type QueuedAnalysisStatus = 'pending' | 'running' | 'failed'
+
+// Analysis saved while the AI was unavailable, run by the main process once it is ready
+export interface QueuedAnalysis {
+  id: string
+  /** Conversation the exchange is added to; a new one is started if it has been deleted */
+  conversationId: string
+  prompt: string
+  /** Images already saved to the image store, in the order they were attached */
+  attachments: ImageAttachment[]
+  mode: AnalysisMode
+  createdAt: number
+  status: QueuedAnalysisStatus
+  /** Why the last attempt failed; the job stays pending when waiting may help */
+  error?: string
+  errorCode?: AiErrorCode
 }
 
+// Fields given when queueing an analysis
+export interface QueuedAnalysisInput {
+  conversationId: string
+  prompt: string
+  attachments: ImageAttachment[]
+  mode?: AnalysisMode
+}
+
+// Fields the user can change on a job that is not running (a failed job becomes pending again)
+export interface QueuedAnalysisUpdate {
+  prompt?: string
+  mode?: AnalysisMode
+}
+
+// Sent when a queued analysis has been answered and added to its conversation
+export interface QueuedAnalysisCompletion {
+  jobId: string
+  conversation: ConversationSummary
+}
+
+// AI provider identifiers
+export type AiProviderId = 'gemini' | 'local'
+
+// Wire protocol spoken by a local model server
+export type LocalAiApi = 'openai' | 'ollama'
+
+// Where the active API key came from ('stored' = encrypted in the app, 'env' = .env fallback)
+export type ApiKeySource = 'stored' | 'env' | 'none'
+
 // AI status interface
 export interface AiStatus {
   isInitialized: boolean
   hasApiKey: boolean
   modelName: string
+  provider: AiProviderId
+  apiKeySource: ApiKeySource
+}
+
+// Result of testing an API key against the provider
+export interface ApiKeyTestResult {
+  success: boolean
+  error?: string
 }
 
 // Window state interface
@@ -31,14 +266,140 @@ export interface WindowState {
   isMaximized: boolean
 }
 
-// Settings interface
+// Gemini safety block thresholds
+export type SafetyThreshold = 'BLOCK_NONE' | 'BLOCK_ONLY_HIGH' | 'BLOCK_MEDIUM_AND_ABOVE' | 'BLOCK_LOW_AND_ABOVE'
+
+// Harm categories that can be given their own threshold
+export type SafetyCategory = 'harassment' | 'hateSpeech' | 'sexuallyExplicit' | 'dangerousContent'
+
+// Settings interface (generation parameters applied to every request)
 export interface Settings {
-  // Placeholder for future application settings
-  // Add theme preferences, UI state, or other configuration here
+  /** Model to use; empty for the provider default */
+  modelName: string
+  temperature: number
+  topP: number
+  topK: number
+  maxOutputTokens: number
+  safetyThresholds: Record<SafetyCategory, SafetyThreshold>
+  /** Default system instruction sent with every conversation */
+  systemInstruction: string
+  /** Append the measured color palette of attached images to the prompt */
+  includeColorPalette: boolean
+  /** Images are downsized to this many pixels on the long edge before they are sent; SVGs are rasterized at it */
+  imageMaxLongEdge: number
+}
+
+// Reusable prompt; the body may contain placeholders such as {{artist}} or {{medium}}
+export interface PromptTemplate {
+  id: string
+  name: string
+  description: string
+  body: string
+  /** Built-in templates ship with the app and cannot be edited or deleted */
+  builtIn: boolean
+}
+
+// Fields the user edits when creating or updating a template (no id = create)
+export interface PromptTemplateInput {
+  id?: string
+  name: string
+  description: string
+  body: string
+}
+
+// Shareable JSON file of user-defined templates
+export interface PromptTemplatePack {
+  version: number
+  templates: Omit<PromptTemplateInput, 'id'>[]
+}
+
+// Outcome of importing a template pack
+export interface PromptTemplateImportResult {
+  /** False when the user dismissed the file dialog */
+  completed: boolean
+  imported: number
+  /** Templates already present with the same name and body */
+  skipped: number
+  /** Entries that failed validation */
+  rejected: number
+}
+
+// File format of a conversation export
+export type ExportFormat = 'markdown' | 'html' | 'pdf'
+
+// Outcome of exporting a conversation
+export interface ConversationExportResult {
+  /** False when the user dismissed the save dialog */
+  completed: boolean
+  filePath?: string
+}
+
+// How a restore combines the archive with existing data
+// 'replace' swaps everything for the backup, 'merge' adds what is missing and keeps current settings
+export type RestoreMode = 'replace' | 'merge'
+
+// Outcome of writing a backup archive
+export interface BackupResult {
+  /** False when the user dismissed the save dialog */
+  completed: boolean
+  filePath?: string
+  conversations: number
+  images: number
+}
+
+// Record from a backup archive that failed validation
+export interface RestoreRejection {
+  section: 'conversations' | 'messages' | 'chatHistory' | 'settings' | 'promptTemplates' | 'images'
+  /** Record ID, or its position in the archive when it has no usable ID */
+  id: string
+  reason: string
+}
+
+// Outcome of restoring a backup archive
+export interface RestoreReport {
+  /** False when the user dismissed the file dialog */
+  completed: boolean
+  conversations: number
+  messages: number
+  promptTemplates: number
+  images: number
+  settingsRestored: boolean
+  rejected: RestoreRejection[]
+}
+
+// Full-text search request; every word and "quoted phrase" in text must match
+export interface SearchQuery {
+  text: string
+  role?: ChatMessage['role']
+  /** Only messages sent at or after this time (ms since epoch) */
+  from?: number
+  /** Only messages sent at or before this time (ms since epoch) */
+  to?: number
+  limit?: number
+}
+
+// Message matching a search, with an excerpt around the first match
+export interface SearchHit {
+  conversationId: string
+  conversationTitle: string
+  messageId: string
+  role: ChatMessage['role']
+  timestamp: number
+  score: number
+  snippet: string
+  /** [start, end) character ranges of matched words within snippet */
+  highlights: [number, number][]
 }
 
 // Store value union type
-export type StoreValue = ChatMessage[] | WindowState | Settings | undefined
+export type StoreValue =
+  | StoredConversation[]
+  | ChatMessage[]
+  | WindowState
+  | Settings
+  | PromptTemplate[]
+  | QueuedAnalysis[]
+  | undefined
 
 // Main Electron API interface exposed to renderer
 export interface ElectronAPI {
@@ -47,6 +408,13 @@ export interface ElectronAPI {
   setSettings: (value: Settings) => Promise<boolean>
   getWindowState: () => Promise<WindowState | undefined>
   getAiStatus: () => Promise<AiStatus>
+  listAiModels: () => Promise<string[]>
+  onAiStatusChanged: (callback: (status: AiStatus) => void) => () => void
+  
+  // API key management
+  testApiKey: (apiKey: string) => Promise<ApiKeyTestResult>
+  setApiKey: (apiKey: string) => Promise<boolean>
+  clearApiKey: () => Promise<boolean>
   
   // Window controls
   minimizeWindow: () => Promise<void>
@@ -56,11 +424,47 @@ export interface ElectronAPI {
   onWindowMaximizeChanged: (callback: (isMaximized: boolean) => void) => () => void
   
   // AI Analysis
-  analyzeImage: (imageBase64: string, mimeType: string, prompt: string) => Promise<AnalysisResult>
+  analyzeImage: (request: AnalysisRequest) => Promise<AnalysisResult>
+  cancelAnalysis: (requestId: string) => Promise<boolean>
+  onAnalysisRetry: (callback: (retry: AnalysisRetry) => void) => () => void
+  onAnalysisChunk: (callback: (chunk: AnalysisChunk) => void) => () => void
+  
+  // Offline analysis queue
+  getAnalysisQueue: () => Promise<QueuedAnalysis[]>
+  enqueueAnalysis: (input: QueuedAnalysisInput) => Promise<QueuedAnalysis>
+  updateQueuedAnalysis: (jobId: string, update: QueuedAnalysisUpdate) => Promise<boolean>
+  moveQueuedAnalysis: (jobId: string, toIndex: number) => Promise<boolean>
+  removeQueuedAnalysis: (jobId: string) => Promise<boolean>
+  onAnalysisQueueChanged: (callback: (queue: QueuedAnalysis[]) => void) => () => void
+  onQueuedAnalysisCompleted: (callback: (completion: QueuedAnalysisCompletion) => void) => () => void
+  
+  // Conversations
+  getConversations: () => Promise<ConversationSummary[]>
+  createConversation: (title?: string) => Promise<ConversationSummary>
+  renameConversation: (conversationId: string, title: string) => Promise<boolean>
+  deleteConversation: (conversationId: string) => Promise<boolean>
+  generateConversationTitle: (conversationId: string) => Promise<ConversationSummary | undefined>
+  exportConversation: (conversationId: string, format: ExportFormat) => Promise<ConversationExportResult>
+  searchMessages: (query: SearchQuery) => Promise<SearchHit[]>
+  
+  // Image store
+  saveImage: (image: ImagePayload) => Promise<ImageAttachment>
+  
+  // Prompt templates
+  getPromptTemplates: () => Promise<PromptTemplate[]>
+  savePromptTemplate: (template: PromptTemplateInput) => Promise<PromptTemplate>
+  deletePromptTemplate: (templateId: string) => Promise<boolean>
+  importPromptTemplates: () => Promise<PromptTemplateImportResult>
+  exportPromptTemplates: () => Promise<boolean>
+  
+  // Backup
+  createBackup: () => Promise<BackupResult>
+  restoreBackup: (mode: RestoreMode) => Promise<RestoreReport>
   
   // Chat history
-  getChatHistory: () => Promise<ChatMessage[]>
-  saveMessage: (message: ChatMessage) => Promise<boolean>
+  getChatHistory: (conversationId: string, query?: ChatHistoryQuery) => Promise<ChatHistoryPage>
+  saveMessage: (conversationId: string, message: ChatMessage) => Promise<boolean>
+  hasConversationImage: (conversationId: string) => Promise<boolean>
   clearHistory: () => Promise<boolean>
   deleteMessage: (messageId: string) => Promise<boolean>
 }
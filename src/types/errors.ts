@@ -1,6 +1,20 @@
 // Custom Error Types for Better Error Handling
+import type { AiErrorCode, AiErrorDetails, SafetyCategory } from './electron'
+
+// Stable error codes the renderer can branch on; classified AI failures use their AiErrorCode
+export type AppErrorCode =
+  | AiErrorCode
+  | 'api-key-missing'
+  | 'analysis-failed'
+  | 'provider-failed'
+  | 'storage-failed'
+  | 'window-control-failed'
+  | 'invalid-arguments'
+  | 'invalid-response'
+  | 'image-decode-failed'
 
 export class ApiKeyMissingError extends Error {
+  readonly code: AppErrorCode = 'api-key-missing'
   constructor(message = 'Gemini API key is not configured') {
     super(message)
     this.name = 'ApiKeyMissingError'
@@ -8,13 +22,121 @@ export class ApiKeyMissingError extends Error {
 }
 
 export class ImageAnalysisError extends Error {
+  readonly code: AppErrorCode = 'analysis-failed'
   constructor(message = 'AI image analysis failed') {
     super(message)
     this.name = 'ImageAnalysisError'
   }
 }
 
+export class AiProviderError extends Error {
+  readonly code: AppErrorCode = 'provider-failed'
+  constructor(message = 'AI provider request failed') {
+    super(message)
+    this.name = 'AiProviderError'
+  }
+}
+
+// Classified AI provider failures; retryable ones are transient and worth another attempt
+
+export class InvalidApiKeyError extends AiProviderError {
+  readonly code: AiErrorCode = 'invalid-api-key'
+  readonly retryable = false
+  constructor(message = 'The API key was rejected by the AI provider') {
+    super(message)
+    this.name = 'InvalidApiKeyError'
+  }
+}
+
+export class RateLimitError extends AiProviderError {
+  readonly code: AiErrorCode = 'rate-limit'
+  constructor(
+    message = 'AI provider rate limit reached',
+    readonly retryAfterMs?: number,
+    readonly quotaExhausted = false
+  ) {
+    super(message)
+    this.name = 'RateLimitError'
+  }
+
+  get retryable() {
+    return !this.quotaExhausted
+  }
+}
+
+export class SafetyBlockError extends AiProviderError {
+  readonly code: AiErrorCode = 'safety-block'
+  readonly retryable = false
+  constructor(message = 'The request was blocked by safety filters', readonly categories: SafetyCategory[] = []) {
+    super(message)
+    this.name = 'SafetyBlockError'
+  }
+}
+
+export class NetworkError extends AiProviderError {
+  readonly code: AiErrorCode = 'network'
+  readonly retryable = true
+  constructor(message = 'The AI provider could not be reached') {
+    super(message)
+    this.name = 'NetworkError'
+  }
+}
+
+export class ServiceUnavailableError extends AiProviderError {
+  readonly code: AiErrorCode = 'service-unavailable'
+  readonly retryable = true
+  constructor(message = 'The AI provider is temporarily unavailable') {
+    super(message)
+    this.name = 'ServiceUnavailableError'
+  }
+}
+
+export class ModelNotFoundError extends AiProviderError {
+  readonly code: AiErrorCode = 'model-not-found'
+  readonly retryable = false
+  constructor(message = 'The AI model was not found', readonly modelName?: string) {
+    super(message)
+    this.name = 'ModelNotFoundError'
+  }
+}
+
+export class ContentTooLargeError extends AiProviderError {
+  readonly code: AiErrorCode = 'content-too-large'
+  readonly retryable = false
+  constructor(message = 'The request is too large for the AI model') {
+    super(message)
+    this.name = 'ContentTooLargeError'
+  }
+}
+
+export type ClassifiedAiError =
+  | InvalidApiKeyError
+  | RateLimitError
+  | SafetyBlockError
+  | NetworkError
+  | ServiceUnavailableError
+  | ModelNotFoundError
+  | ContentTooLargeError
+
+export const isClassifiedAiError = (error: unknown): error is ClassifiedAiError =>
+  error instanceof AiProviderError && 'retryable' in error
+
+// Code and details of a classified error, as sent to the renderer
+export const getAiErrorInfo = (error: ClassifiedAiError): { code: AiErrorCode; details: AiErrorDetails } => {
+  if (error instanceof RateLimitError) {
+    return { code: error.code, details: { retryAfterMs: error.retryAfterMs, quotaExhausted: error.quotaExhausted } }
+  }
+  if (error instanceof SafetyBlockError) {
+    return { code: error.code, details: { safetyCategories: error.categories } }
+  }
+  if (error instanceof ModelNotFoundError) {
+    return { code: error.code, details: { modelName: error.modelName } }
+  }
+  return { code: error.code, details: {} }
+}
+
 export class StorageError extends Error {
+  readonly code: AppErrorCode = 'storage-failed'
   constructor(message = 'Electron store operation failed') {
     super(message)
     this.name = 'StorageError'
@@ -22,21 +144,122 @@ export class StorageError extends Error {
 }
 
 export class WindowControlError extends Error {
+  readonly code: AppErrorCode = 'window-control-failed'
   constructor(message = 'Window control operation failed') {
     super(message)
     this.name = 'WindowControlError'
   }
 }
 
+export class InvalidArgumentsError extends Error {
+  readonly code: AppErrorCode = 'invalid-arguments'
+  constructor(message = 'Invalid arguments') {
+    super(message)
+    this.name = 'InvalidArgumentsError'
+  }
+}
+
+export class InvalidResponseError extends Error {
+  readonly code: AppErrorCode = 'invalid-response'
+  constructor(message = 'Invalid response from the main process') {
+    super(message)
+    this.name = 'InvalidResponseError'
+  }
+}
+
+export class ImageDecodeError extends Error {
+  readonly code: AppErrorCode = 'image-decode-failed'
+  constructor(message = 'The image could not be decoded') {
+    super(message)
+    this.name = 'ImageDecodeError'
+  }
+}
+
+// Error classes that keep their type across the IPC boundary, by name
+const IPC_ERROR_CLASSES = {
+  ApiKeyMissingError,
+  ImageAnalysisError,
+  AiProviderError,
+  InvalidApiKeyError,
+  RateLimitError,
+  SafetyBlockError,
+  NetworkError,
+  ServiceUnavailableError,
+  ModelNotFoundError,
+  ContentTooLargeError,
+  StorageError,
+  WindowControlError,
+  InvalidArgumentsError,
+  InvalidResponseError,
+  ImageDecodeError
+}
+
+export type IpcErrorType = keyof typeof IPC_ERROR_CLASSES | 'Error'
+
+export type AppError = InstanceType<typeof IPC_ERROR_CLASSES[keyof typeof IPC_ERROR_CLASSES]>
+
+// A failed IPC call as sent over the wire; errorType names the class to rebuild
+export interface IpcError {
+  errorType: IpcErrorType
+  code: AppErrorCode
+  message: string
+  details?: AiErrorDetails
+}
+
+// Result envelope returned by every IPC handler
+export type IpcResponse<T> =
+  | { success: true; data: T }
+  | ({ success: false } & IpcError)
+
+const isAppError = (error: unknown): error is AppError =>
+  Object.values(IPC_ERROR_CLASSES).some(ErrorClass => error instanceof ErrorClass)
+
 // Helper function to create standardized error responses
-export const createErrorResponse = (error: Error) => ({
-  success: false,
-  error: error.message,
-  errorType: error.name
-})
+// Errors of other types are wrapped in fallbackType, or sent as a plain 'Error'
+export const createErrorResponse = (
+  error: unknown,
+  fallbackType?: new (message?: string) => AppError
+): IpcResponse<never> => {
+  const message = error instanceof Error ? error.message : 'Unknown error occurred'
+  const typed = isAppError(error) ? error : fallbackType ? new fallbackType(message) : null
+  if (!typed) {
+    return { success: false, errorType: 'Error', code: 'unknown', message }
+  }
+
+  return {
+    success: false,
+    errorType: typed.name as IpcErrorType,
+    code: typed.code,
+    message: typed.message,
+    ...(isClassifiedAiError(typed) && { details: getAiErrorInfo(typed).details })
+  }
+}
 
 // Helper function to create success responses
-export const createSuccessResponse = <T>(data?: T) => ({
+export const createSuccessResponse = <T>(data: T): IpcResponse<T> => ({
   success: true,
-  ...(data && { data })
-})
\ No newline at end of file
+  data
+})
+
+export const isIpcError = (value: unknown): value is IpcError =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as IpcError).errorType === 'string' &&
+  typeof (value as IpcError).message === 'string'
+
+// Rebuild the typed error described by an IPC failure
+export const reviveIpcError = ({ errorType, message, details = {} }: IpcError): Error => {
+  switch (errorType) {
+    case 'RateLimitError':
+      return new RateLimitError(message, details.retryAfterMs, details.quotaExhausted)
+    case 'SafetyBlockError':
+      return new SafetyBlockError(message, details.safetyCategories)
+    case 'ModelNotFoundError':
+      return new ModelNotFoundError(message, details.modelName)
+    case 'Error':
+      return new Error(message)
+    default: {
+      const ErrorClass = IPC_ERROR_CLASSES[errorType]
+      return ErrorClass ? new ErrorClass(message) : new Error(message)
+    }
+  }
+}
\ No newline at end of file
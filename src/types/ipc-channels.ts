@@ -1,5 +1,6 @@
 // IPC Channel Name Constants
 // Centralized definition to prevent typos and improve refactoring safety
+// Each channel is mapped to its argument and result schemas in ipc-contract.ts
 
 export const IPC_CHANNELS = {
   // Store operations - specific getters only
@@ -9,6 +10,11 @@ export const IPC_CHANNELS = {
   
   // API access
   GET_AI_STATUS: 'get-ai-status',
+  LIST_AI_MODELS: 'list-ai-models',
+  AI_STATUS_CHANGED: 'ai-status-changed',
+  TEST_API_KEY: 'test-api-key',
+  SET_API_KEY: 'set-api-key',
+  CLEAR_API_KEY: 'clear-api-key',
   
   // Window controls
   WINDOW_MINIMIZE: 'window-minimize',
@@ -19,10 +25,46 @@ export const IPC_CHANNELS = {
   
   // AI operations
   ANALYZE_IMAGE: 'analyze-image',
+  ANALYSIS_CHUNK: 'analysis-chunk',
+  CANCEL_ANALYSIS: 'cancel-analysis',
+  ANALYSIS_RETRY: 'analysis-retry',
+  
+  // Offline analysis queue
+  GET_ANALYSIS_QUEUE: 'get-analysis-queue',
+  ENQUEUE_ANALYSIS: 'enqueue-analysis',
+  UPDATE_QUEUED_ANALYSIS: 'update-queued-analysis',
+  MOVE_QUEUED_ANALYSIS: 'move-queued-analysis',
+  REMOVE_QUEUED_ANALYSIS: 'remove-queued-analysis',
+  ANALYSIS_QUEUE_CHANGED: 'analysis-queue-changed',
+  QUEUED_ANALYSIS_COMPLETED: 'queued-analysis-completed',
+  
+  // Conversations
+  GET_CONVERSATIONS: 'get-conversations',
+  CREATE_CONVERSATION: 'create-conversation',
+  RENAME_CONVERSATION: 'rename-conversation',
+  DELETE_CONVERSATION: 'delete-conversation',
+  GENERATE_CONVERSATION_TITLE: 'generate-conversation-title',
+  EXPORT_CONVERSATION: 'export-conversation',
+  SEARCH_MESSAGES: 'search-messages',
+  
+  // Image store
+  SAVE_IMAGE: 'save-image',
+  
+  // Prompt templates
+  GET_PROMPT_TEMPLATES: 'get-prompt-templates',
+  SAVE_PROMPT_TEMPLATE: 'save-prompt-template',
+  DELETE_PROMPT_TEMPLATE: 'delete-prompt-template',
+  IMPORT_PROMPT_TEMPLATES: 'import-prompt-templates',
+  EXPORT_PROMPT_TEMPLATES: 'export-prompt-templates',
+  
+  // Backup
+  CREATE_BACKUP: 'create-backup',
+  RESTORE_BACKUP: 'restore-backup',
   
   // Chat history
   GET_CHAT_HISTORY: 'get-chat-history',
   SAVE_MESSAGE: 'save-message',
+  HAS_CONVERSATION_IMAGE: 'has-conversation-image',
   CLEAR_HISTORY: 'clear-history',
   DELETE_MESSAGE: 'delete-message'
 } as const
@@ -0,0 +1,250 @@
+// IPC contract: every channel with the zod schemas of what crosses it
+// Main process handler registration and the preload electronAPI object are both derived from here
+import { z } from 'zod'
+import { IPC_CHANNELS } from './ipc-channels'
+import type { IpcChannelName } from './ipc-channels'
+import type { ElectronAPI } from './electron'
+import {
+  AiStatusSchema,
+  AnalysisQueueSchema,
+  AnalysisRequestSchema,
+  AnalysisResultSchema,
+  AnalysisChunkSchema,
+  AnalysisRetrySchema,
+  ApiKeyTestResultSchema,
+  BackupResultSchema,
+  ChatHistoryPageSchema,
+  ChatHistoryQuerySchema,
+  ChatMessageSchema,
+  ConversationExportResultSchema,
+  ConversationSummarySchema,
+  ExportFormatSchema,
+  ImageAttachmentSchema,
+  ImagePayloadSchema,
+  ListedPromptTemplateSchema,
+  PromptTemplateImportResultSchema,
+  PromptTemplateInputSchema,
+  QueuedAnalysisCompletionSchema,
+  QueuedAnalysisInputSchema,
+  QueuedAnalysisSchema,
+  QueuedAnalysisUpdateSchema,
+  RestoreModeSchema,
+  RestoreReportSchema,
+  SearchHitSchema,
+  SearchQuerySchema,
+  SettingsSchema,
+  WindowStateSchema,
+  formatValidationIssues
+} from './schemas'
+
+/**
+ * Channel the renderer invokes and one main process handler answers
+ * @param channel - IPC channel name
+ * @param args - Schema of each argument, in order (trailing optional ones may be left out)
+ * @param result - Schema of the value the handler resolves to
+ */
+const invokeChannel = <
+  Channel extends IpcChannelName,
+  Args extends [] | [z.ZodTypeAny, ...z.ZodTypeAny[]],
+  Result extends z.ZodTypeAny
+>(channel: Channel, args: Args, result: Result) => ({ channel, args: z.tuple(args), result })
+
+/**
+ * Channel the main process sends on and the renderer listens to
+ * @param channel - IPC channel name
+ * @param payload - Schema of the value sent with each event
+ */
+const eventChannel = <Channel extends IpcChannelName, Payload extends z.ZodTypeAny>(channel: Channel, payload: Payload) =>
+  ({ channel, payload })
+
+// Request/response channels, keyed by their electronAPI method
+export const IPC_CONTRACT = {
+  // Store operations - specific getters only
+  /** Get application settings */
+  getSettings: invokeChannel(IPC_CHANNELS.GET_SETTINGS, [], SettingsSchema),
+  /** Set application settings; resolves to true if saved */
+  setSettings: invokeChannel(IPC_CHANNELS.SET_SETTINGS, [SettingsSchema], z.boolean()),
+  /** Get the saved window state, if any */
+  getWindowState: invokeChannel(IPC_CHANNELS.GET_WINDOW_STATE, [], WindowStateSchema.optional()),
+
+  // API access
+  /** Get AI initialization status */
+  getAiStatus: invokeChannel(IPC_CHANNELS.GET_AI_STATUS, [], AiStatusSchema),
+  /** List the models offered by the active AI provider */
+  listAiModels: invokeChannel(IPC_CHANNELS.LIST_AI_MODELS, [], z.array(z.string())),
+  /** Check that an API key is accepted by the provider without saving it */
+  testApiKey: invokeChannel(IPC_CHANNELS.TEST_API_KEY, [z.string()], ApiKeyTestResultSchema),
+  /** Encrypt and save an API key, then re-initialize the AI provider */
+  setApiKey: invokeChannel(IPC_CHANNELS.SET_API_KEY, [z.string()], z.boolean()),
+  /** Remove the saved API key (falls back to .env if present) */
+  clearApiKey: invokeChannel(IPC_CHANNELS.CLEAR_API_KEY, [], z.boolean()),
+
+  // Window controls
+  /** Minimize the application window */
+  minimizeWindow: invokeChannel(IPC_CHANNELS.WINDOW_MINIMIZE, [], z.void()),
+  /** Toggle maximize/restore the application window */
+  maximizeWindow: invokeChannel(IPC_CHANNELS.WINDOW_MAXIMIZE, [], z.void()),
+  /** Close the application window */
+  closeWindow: invokeChannel(IPC_CHANNELS.WINDOW_CLOSE, [], z.void()),
+  /** Check if the window is currently maximized */
+  isWindowMaximized: invokeChannel(IPC_CHANNELS.WINDOW_IS_MAXIMIZED, [], z.boolean()),
+
+  // AI operations
+  /**
+   * Analyze images using the active AI provider
+   * Partial text is streamed through onAnalysisChunk while the request runs
+   */
+  analyzeImage: invokeChannel(IPC_CHANNELS.ANALYZE_IMAGE, [AnalysisRequestSchema], AnalysisResultSchema),
+  /** Stop a running analysis by request ID; resolves to true if one was running */
+  cancelAnalysis: invokeChannel(IPC_CHANNELS.CANCEL_ANALYSIS, [z.string()], z.boolean()),
+
+  // Offline analysis queue
+  /** List queued analyses in the order they will run */
+  getAnalysisQueue: invokeChannel(IPC_CHANNELS.GET_ANALYSIS_QUEUE, [], AnalysisQueueSchema),
+  /** Queue an analysis to run once the AI is available; its images must already be in the image store */
+  enqueueAnalysis: invokeChannel(IPC_CHANNELS.ENQUEUE_ANALYSIS, [QueuedAnalysisInputSchema], QueuedAnalysisSchema),
+  /** Edit the prompt or mode of a job that is not running; resolves to false if it is gone or running */
+  updateQueuedAnalysis: invokeChannel(
+    IPC_CHANNELS.UPDATE_QUEUED_ANALYSIS,
+    [z.string(), QueuedAnalysisUpdateSchema],
+    z.boolean()
+  ),
+  /** Move a job to a new position in the queue */
+  moveQueuedAnalysis: invokeChannel(IPC_CHANNELS.MOVE_QUEUED_ANALYSIS, [z.string(), z.number().int().min(0)], z.boolean()),
+  /** Drop a job, stopping it if it is running */
+  removeQueuedAnalysis: invokeChannel(IPC_CHANNELS.REMOVE_QUEUED_ANALYSIS, [z.string()], z.boolean()),
+
+  // Conversations
+  /** Retrieve all conversations without their messages (load those with getChatHistory) */
+  getConversations: invokeChannel(IPC_CHANNELS.GET_CONVERSATIONS, [], z.array(ConversationSummarySchema)),
+  /** Create a new, empty conversation with an optional provisional title */
+  createConversation: invokeChannel(IPC_CHANNELS.CREATE_CONVERSATION, [z.string().optional()], ConversationSummarySchema),
+  /** Rename a conversation by ID */
+  renameConversation: invokeChannel(IPC_CHANNELS.RENAME_CONVERSATION, [z.string(), z.string()], z.boolean()),
+  /** Delete a conversation and all of its messages */
+  deleteConversation: invokeChannel(IPC_CHANNELS.DELETE_CONVERSATION, [z.string()], z.boolean()),
+  /** Generate a title from the first exchange; resolves to undefined if the conversation is gone */
+  generateConversationTitle: invokeChannel(
+    IPC_CHANNELS.GENERATE_CONVERSATION_TITLE,
+    [z.string()],
+    ConversationSummarySchema.optional()
+  ),
+  /** Export a conversation with its images to a file chosen in a save dialog */
+  exportConversation: invokeChannel(
+    IPC_CHANNELS.EXPORT_CONVERSATION,
+    [z.string(), ExportFormatSchema],
+    ConversationExportResultSchema
+  ),
+  /** Full-text search over all messages */
+  searchMessages: invokeChannel(IPC_CHANNELS.SEARCH_MESSAGES, [SearchQuerySchema], z.array(SearchHitSchema)),
+
+  // Image store
+  /** Save an image to the content-addressed image store */
+  saveImage: invokeChannel(IPC_CHANNELS.SAVE_IMAGE, [ImagePayloadSchema], ImageAttachmentSchema),
+
+  // Prompt templates
+  /** Get built-in and user-defined prompt templates, built-ins first */
+  getPromptTemplates: invokeChannel(IPC_CHANNELS.GET_PROMPT_TEMPLATES, [], z.array(ListedPromptTemplateSchema)),
+  /** Create a user-defined template, or update one when an ID is given */
+  savePromptTemplate: invokeChannel(IPC_CHANNELS.SAVE_PROMPT_TEMPLATE, [PromptTemplateInputSchema], ListedPromptTemplateSchema),
+  /** Delete a user-defined template */
+  deletePromptTemplate: invokeChannel(IPC_CHANNELS.DELETE_PROMPT_TEMPLATE, [z.string()], z.boolean()),
+  /** Pick a template pack JSON file and add its templates */
+  importPromptTemplates: invokeChannel(IPC_CHANNELS.IMPORT_PROMPT_TEMPLATES, [], PromptTemplateImportResultSchema),
+  /** Save the user-defined templates to a template pack JSON file */
+  exportPromptTemplates: invokeChannel(IPC_CHANNELS.EXPORT_PROMPT_TEMPLATES, [], z.boolean()),
+
+  // Backup
+  /** Write conversations, settings, templates and images to a backup archive chosen in a save dialog */
+  createBackup: invokeChannel(IPC_CHANNELS.CREATE_BACKUP, [], BackupResultSchema),
+  /** Restore a backup archive chosen in a file dialog, replacing or merging with current data */
+  restoreBackup: invokeChannel(IPC_CHANNELS.RESTORE_BACKUP, [RestoreModeSchema], RestoreReportSchema),
+
+  // Chat history
+  /** Load a page of a conversation's messages, oldest first */
+  getChatHistory: invokeChannel(
+    IPC_CHANNELS.GET_CHAT_HISTORY,
+    [z.string(), ChatHistoryQuerySchema.optional()],
+    ChatHistoryPageSchema
+  ),
+  /** Append a message to a conversation */
+  saveMessage: invokeChannel(IPC_CHANNELS.SAVE_MESSAGE, [z.string(), ChatMessageSchema], z.boolean()),
+  /** Whether a conversation already has an image, in any saved message or queued analysis */
+  hasConversationImage: invokeChannel(IPC_CHANNELS.HAS_CONVERSATION_IMAGE, [z.string()], z.boolean()),
+  /** Clear all conversations and their chat history */
+  clearHistory: invokeChannel(IPC_CHANNELS.CLEAR_HISTORY, [], z.boolean()),
+  /** Delete a specific message from whichever conversation contains it */
+  deleteMessage: invokeChannel(IPC_CHANNELS.DELETE_MESSAGE, [z.string()], z.boolean())
+}
+
+// Main-to-renderer events, keyed by their electronAPI listener method
+export const IPC_EVENTS = {
+  /** AI status changes, e.g. after the API key is replaced */
+  onAiStatusChanged: eventChannel(IPC_CHANNELS.AI_STATUS_CHANGED, AiStatusSchema),
+  /** Window maximize state changes */
+  onWindowMaximizeChanged: eventChannel(IPC_CHANNELS.WINDOW_MAXIMIZE_CHANGED, z.boolean()),
+  /** Streamed text chunks of the analysis in progress */
+  onAnalysisChunk: eventChannel(IPC_CHANNELS.ANALYSIS_CHUNK, AnalysisChunkSchema),
+  /** Automatic retries of the analysis in progress after a transient failure */
+  onAnalysisRetry: eventChannel(IPC_CHANNELS.ANALYSIS_RETRY, AnalysisRetrySchema),
+  /** The analysis queue changed (jobs added, edited, reordered, started, failed or finished) */
+  onAnalysisQueueChanged: eventChannel(IPC_CHANNELS.ANALYSIS_QUEUE_CHANGED, AnalysisQueueSchema),
+  /** A queued analysis was answered and saved to its conversation */
+  onQueuedAnalysisCompleted: eventChannel(IPC_CHANNELS.QUEUED_ANALYSIS_COMPLETED, QueuedAnalysisCompletionSchema)
+}
+
+export type IpcInvokeMethod = keyof typeof IPC_CONTRACT
+export type IpcEventName = keyof typeof IPC_EVENTS
+
+// Arguments as the main process handler receives them (validated, defaults applied)
+export type IpcHandlerArgs<M extends IpcInvokeMethod> = z.output<typeof IPC_CONTRACT[M]['args']>
+
+// Value a main process handler resolves to
+export type IpcHandlerResult<M extends IpcInvokeMethod> = z.input<typeof IPC_CONTRACT[M]['result']>
+
+// Payload a main process event is sent with
+export type IpcEventPayload<E extends IpcEventName> = z.input<typeof IPC_EVENTS[E]['payload']>
+
+// Renderer-facing API derived from the contract
+export type IpcInvokeApi = {
+  [M in IpcInvokeMethod]: (...args: z.input<typeof IPC_CONTRACT[M]['args']>) =>
+    Promise<z.output<typeof IPC_CONTRACT[M]['result']>>
+}
+
+export type IpcEventApi = {
+  [E in IpcEventName]: (callback: (payload: z.output<typeof IPC_EVENTS[E]['payload']>) => void) => () => void
+}
+
+/**
+ * Validate the arguments of an invoke call
+ *
+ * Trailing optional arguments may be left out, as they are when the renderer omits them.
+ * @returns Parsed arguments, or a one-line description of what is wrong
+ */
+export const parseIpcArgs = <M extends IpcInvokeMethod>(
+  method: M,
+  args: unknown[]
+): { success: true; data: IpcHandlerArgs<M> } | { success: false; error: string } => {
+  const schema = IPC_CONTRACT[method].args
+  const arity = schema.items.length
+  if (args.length > arity) {
+    return { success: false, error: `expected at most ${arity} arguments, got ${args.length}` }
+  }
+
+  const padded = [...args, ...Array<undefined>(arity - args.length).fill(undefined)]
+  const result = schema.safeParse(padded)
+  return result.success
+    ? { success: true, data: result.data as IpcHandlerArgs<M> }
+    : { success: false, error: formatValidationIssues(result.error) }
+}
+
+// Compile-time checks: every channel is mapped, and the derived API is exactly what ElectronAPI declares
+type Expect<T extends true> = T
+type ContractChannel = typeof IPC_CONTRACT[IpcInvokeMethod]['channel'] | typeof IPC_EVENTS[IpcEventName]['channel']
+
+export type IpcContractChecks = [
+  Expect<[Exclude<IpcChannelName, ContractChannel>] extends [never] ? true : false>,
+  Expect<IpcInvokeApi & IpcEventApi extends ElectronAPI ? true : false>,
+  Expect<[Exclude<keyof ElectronAPI, IpcInvokeMethod | IpcEventName>] extends [never] ? true : false>,
+  Expect<[Exclude<IpcInvokeMethod | IpcEventName, keyof ElectronAPI>] extends [never] ? true : false>
+]
@@ -1,12 +1,206 @@
 // Zod validation schemas for runtime type checking
 import { z } from 'zod'
+import {
+  BACKUP_FORMAT_ID,
+  DEFAULT_IMAGE_LONG_EDGE,
+  MAX_IMAGE_LONG_EDGE,
+  MIN_IMAGE_LONG_EDGE,
+  MAX_CHAT_HISTORY_PAGE_SIZE,
+  MAX_IMAGES_PER_REQUEST,
+  MAX_PROMPT_TEMPLATES,
+  MAX_QUEUED_ANALYSES,
+  PALETTE_COLOR_COUNT,
+  SEARCH_RESULT_LIMIT
+} from '../config/constants'
+
+// Palette color schema
+export const PaletteColorSchema = z.object({
+  hex: z.string().regex(/^#[0-9a-f]{6}$/i),
+  rgb: z.tuple([z.number(), z.number(), z.number()]),
+  hsl: z.tuple([z.number(), z.number(), z.number()]),
+  percentage: z.number().min(0).max(100)
+})
+
+// Measured palette of one image
+export const PaletteSchema = z.array(PaletteColorSchema).max(PALETTE_COLOR_COUNT)
+
+// Image attachment schema (hashes are SHA-256 hex digests)
+export const ProcessedImageSchema = z.object({
+  hash: z.string().regex(/^[a-f0-9]{64}$/),
+  mimeType: z.string(),
+  width: z.number().int().min(1),
+  height: z.number().int().min(1),
+  bytes: z.number().int().min(0),
+  originalWidth: z.number().int().min(1),
+  originalHeight: z.number().int().min(1),
+  originalBytes: z.number().int().min(0)
+})
+
+export const ImageAttachmentSchema = z.object({
+  hash: z.string().regex(/^[a-f0-9]{64}$/),
+  mimeType: z.string(),
+  palette: PaletteSchema.optional(),
+  processed: ProcessedImageSchema.optional()
+})
+
+// Structured analysis schema (validates model output in structured mode)
+export const StructuredAnalysisSchema = z.object({
+  style: z.string(),
+  period: z.string(),
+  mediumGuess: z.string(),
+  palette: z.array(z.string()),
+  compositionNotes: z.string(),
+  strengths: z.array(z.string()),
+  weaknesses: z.array(z.string()),
+  confidence: z.number().min(0).max(1)
+})
 
 // Chat message schema
 export const ChatMessageSchema = z.object({
   id: z.string(),
   role: z.enum(['user', 'assistant']),
   content: z.string(),
-  timestamp: z.number()
+  timestamp: z.number(),
+  attachments: z.array(ImageAttachmentSchema).optional(),
+  structured: StructuredAnalysisSchema.optional(),
+  status: z.enum(['cancelled', 'error']).optional(),
+  cached: z.boolean().optional()
+})
+
+// Inline image payload schema
+export const ImagePayloadSchema = z.object({
+  data: z.string().min(1),
+  mimeType: z.string().min(1),
+  palette: PaletteSchema.optional()
+})
+
+export const AnalysisModeSchema = z.enum(['text', 'structured'])
+
+// Analysis request schema
+export const AnalysisRequestSchema = z.object({
+  requestId: z.string().min(1).max(100),
+  conversationId: z.string().min(1),
+  promptMessageId: z.string().min(1).optional(),
+  prompt: z.string().trim().min(1),
+  attachments: z.array(ImageAttachmentSchema).max(MAX_IMAGES_PER_REQUEST),
+  mode: AnalysisModeSchema.default('text'),
+  forceFresh: z.boolean().default(false)
+})
+
+// Classified AI failure schemas
+export const AiErrorCodeSchema = z.enum([
+  'invalid-api-key',
+  'rate-limit',
+  'safety-block',
+  'network',
+  'service-unavailable',
+  'model-not-found',
+  'content-too-large',
+  'unknown'
+])
+
+export const SafetyCategorySchema = z.enum(['harassment', 'hateSpeech', 'sexuallyExplicit', 'dangerousContent'])
+
+export const AiErrorDetailsSchema = z.object({
+  retryAfterMs: z.number().optional(),
+  quotaExhausted: z.boolean().optional(),
+  safetyCategories: z.array(SafetyCategorySchema).optional(),
+  modelName: z.string().optional()
+})
+
+// Analysis result schema
+export const AnalysisResultSchema = z.object({
+  success: z.boolean(),
+  text: z.string().optional(),
+  error: z.string().optional(),
+  structured: StructuredAnalysisSchema.optional(),
+  structuredError: z.string().optional(),
+  cancelled: z.boolean().optional(),
+  errorCode: AiErrorCodeSchema.optional(),
+  errorDetails: AiErrorDetailsSchema.optional(),
+  cached: z.boolean().optional()
+})
+
+// Automatic retry notice schema
+export const AnalysisChunkSchema = z.object({
+  requestId: z.string(),
+  text: z.string()
+})
+
+export const AnalysisRetrySchema = z.object({
+  requestId: z.string(),
+  attempt: z.number().int(),
+  maxAttempts: z.number().int(),
+  delayMs: z.number(),
+  errorCode: AiErrorCodeSchema
+})
+
+// AI status schema
+export const AiStatusSchema = z.object({
+  isInitialized: z.boolean(),
+  hasApiKey: z.boolean(),
+  modelName: z.string(),
+  provider: z.enum(['gemini', 'local']),
+  apiKeySource: z.enum(['stored', 'env', 'none'])
+})
+
+// Offline analysis queue schemas
+export const QueuedAnalysisInputSchema = z.object({
+  conversationId: z.string().min(1),
+  prompt: z.string().trim().min(1),
+  attachments: z.array(ImageAttachmentSchema).max(MAX_IMAGES_PER_REQUEST),
+  mode: AnalysisModeSchema.default('text')
+})
+
+export const QueuedAnalysisSchema = QueuedAnalysisInputSchema.extend({
+  id: z.string(),
+  createdAt: z.number(),
+  status: z.enum(['pending', 'running', 'failed']),
+  error: z.string().optional(),
+  errorCode: AiErrorCodeSchema.optional()
+})
+
+export const AnalysisQueueSchema = z.array(QueuedAnalysisSchema).max(MAX_QUEUED_ANALYSES)
+
+export const QueuedAnalysisUpdateSchema = z.object({
+  prompt: z.string().trim().min(1).optional(),
+  mode: AnalysisModeSchema.optional()
+})
+
+// API key test result schema
+export const ApiKeyTestResultSchema = z.object({
+  success: z.boolean(),
+  error: z.string().optional()
+})
+
+// Search query schema
+export const SearchQuerySchema = z.object({
+  text: z.string().max(500),
+  role: z.enum(['user', 'assistant']).optional(),
+  from: z.number().optional(),
+  to: z.number().optional(),
+  limit: z.number().int().min(1).max(SEARCH_RESULT_LIMIT).optional()
+})
+
+// Search hit schema
+export const SearchHitSchema = z.object({
+  conversationId: z.string(),
+  conversationTitle: z.string(),
+  messageId: z.string(),
+  role: z.enum(['user', 'assistant']),
+  timestamp: z.number(),
+  score: z.number(),
+  snippet: z.string(),
+  highlights: z.array(z.tuple([z.number(), z.number()]))
+})
+
+// Conversation export format schema
+export const ExportFormatSchema = z.enum(['markdown', 'html', 'pdf'])
+
+// Conversation export result schema
+export const ConversationExportResultSchema = z.object({
+  completed: z.boolean(),
+  filePath: z.string().optional()
 })
 
 // Window state schema
@@ -18,18 +212,198 @@ export const WindowStateSchema = z.object({
   isMaximized: z.boolean()
 })
 
-// Settings schema (empty placeholder for future settings)
+// Safety threshold schema (Gemini HarmBlockThreshold values)
+export const SafetyThresholdSchema = z.enum([
+  'BLOCK_NONE',
+  'BLOCK_ONLY_HIGH',
+  'BLOCK_MEDIUM_AND_ABOVE',
+  'BLOCK_LOW_AND_ABOVE'
+])
+
+// Number field with a readable message for empty or non-numeric input
+const numberField = () => z.number({ invalid_type_error: 'Must be a number' })
+
+// Settings schema - every field has a default so partial or legacy data parses
 export const SettingsSchema = z.object({
-  // Add settings fields here as needed
+  // Empty means the provider default (GEMINI_MODEL / LOCAL_AI_MODEL or the built-in model)
+  modelName: z.string().trim().max(100, 'Model name is too long').default(''),
+  temperature: numberField().min(0, 'Must be at least 0').max(2, 'Must be at most 2').default(1),
+  topP: numberField().min(0, 'Must be at least 0').max(1, 'Must be at most 1').default(0.95),
+  topK: numberField().int('Must be a whole number').min(1, 'Must be at least 1').max(100, 'Must be at most 100').default(40),
+  maxOutputTokens: numberField().int('Must be a whole number').min(1, 'Must be at least 1').max(8192, 'Must be at most 8192').default(2048),
+  safetyThresholds: z.object({
+    harassment: SafetyThresholdSchema.default('BLOCK_MEDIUM_AND_ABOVE'),
+    hateSpeech: SafetyThresholdSchema.default('BLOCK_MEDIUM_AND_ABOVE'),
+    sexuallyExplicit: SafetyThresholdSchema.default('BLOCK_MEDIUM_AND_ABOVE'),
+    dangerousContent: SafetyThresholdSchema.default('BLOCK_MEDIUM_AND_ABOVE')
+  }).default({}),
+  systemInstruction: z.string().max(4000, 'Must be at most 4000 characters').default(
+    'You are an experienced art historian and critic. Give clear, specific observations about the artwork in the images.'
+  ),
+  includeColorPalette: z.boolean().default(true),
+  imageMaxLongEdge: numberField()
+    .int('Must be a whole number')
+    .min(MIN_IMAGE_LONG_EDGE, `Must be at least ${MIN_IMAGE_LONG_EDGE}`)
+    .max(MAX_IMAGE_LONG_EDGE, `Must be at most ${MAX_IMAGE_LONG_EDGE}`)
+    .default(DEFAULT_IMAGE_LONG_EDGE)
+})
+
+// Settings used when nothing valid is stored
+export const DEFAULT_SETTINGS = SettingsSchema.parse({})
+
+// Prompt template fields edited by the user
+export const PromptTemplateInputSchema = z.object({
+  id: z.string().min(1).optional(),
+  name: z.string().trim().min(1, 'Name is required').max(60, 'Must be at most 60 characters'),
+  description: z.string().trim().max(200, 'Must be at most 200 characters').default(''),
+  body: z.string().trim().min(1, 'Prompt is required').max(4000, 'Must be at most 4000 characters')
+})
+
+// Stored user-defined prompt template
+export const PromptTemplateSchema = PromptTemplateInputSchema.required({ id: true }).extend({
+  builtIn: z.literal(false)
+})
+
+// Stored prompt template list
+export const PromptTemplateListSchema = z.array(PromptTemplateSchema).max(MAX_PROMPT_TEMPLATES)
+
+// Built-in or user-defined template as listed in the UI
+export const ListedPromptTemplateSchema = PromptTemplateSchema.extend({
+  builtIn: z.boolean()
+})
+
+// Template pack import result schema
+export const PromptTemplateImportResultSchema = z.object({
+  completed: z.boolean(),
+  imported: z.number().int(),
+  skipped: z.number().int(),
+  rejected: z.number().int()
+})
+
+// Template pack file; entries are validated one by one so a bad entry doesn't reject the whole pack
+export const PromptTemplatePackSchema = z.object({
+  version: z.number().int().positive(),
+  templates: z.array(z.unknown())
+})
+
+// Chat history schema (messages live in the message log, which has no size cap)
+export const ChatHistorySchema = z.array(ChatMessageSchema)
+
+// Conversation schema
+export const ConversationSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+  messages: ChatHistorySchema
 })
 
-// Chat history schema with max length validation
-export const ChatHistorySchema = z.array(ChatMessageSchema).max(1000)
+// Conversation as kept in the store; its messages are in the message log
+export const StoredConversationSchema = ConversationSchema.omit({ messages: true })
+
+// Stored conversation list schema
+export const StoredConversationListSchema = z.array(StoredConversationSchema)
+
+// Conversation as listed in the sidebar
+export const ConversationSummarySchema = StoredConversationSchema.extend({
+  messageCount: z.number().int().min(0)
+})
+
+// Queued analysis completion notice schema
+export const QueuedAnalysisCompletionSchema = z.object({
+  jobId: z.string(),
+  conversation: ConversationSummarySchema
+})
+
+// Chat history page query schema
+export const ChatHistoryQuerySchema = z.object({
+  limit: z.number().int().min(1).max(MAX_CHAT_HISTORY_PAGE_SIZE).optional(),
+  before: z.string().optional(),
+  includeMessageId: z.string().optional()
+})
+
+// Chat history page schema
+export const ChatHistoryPageSchema = z.object({
+  messages: ChatHistorySchema,
+  hasMore: z.boolean()
+})
+
+// Backup archive schemas; records are validated one by one so bad entries are reported, not fatal
+export const BackupManifestSchema = z.object({
+  format: z.literal(BACKUP_FORMAT_ID),
+  schemaVersion: z.number().int().positive(),
+  createdAt: z.number(),
+  appVersion: z.string()
+})
+
+export const BackupArchiveSchema = z.object({
+  manifest: BackupManifestSchema,
+  store: z.object({
+    conversations: z.array(z.unknown()).default([]),
+    chatHistory: z.array(z.unknown()).default([]),
+    settings: z.unknown().optional(),
+    promptTemplates: z.array(z.unknown()).default([])
+  }),
+  images: z.array(z.unknown()).default([])
+})
+
+export const BackupImageSchema = z.object({
+  hash: z.string().regex(/^[a-f0-9]{64}$/, 'Invalid image hash'),
+  mimeType: z.string().min(1),
+  data: z.string().min(1)
+})
+
+export const RestoreModeSchema = z.enum(['replace', 'merge'])
+
+export const BackupResultSchema = z.object({
+  completed: z.boolean(),
+  filePath: z.string().optional(),
+  conversations: z.number().int(),
+  images: z.number().int()
+})
+
+export const RestoreRejectionSchema = z.object({
+  section: z.enum(['conversations', 'messages', 'chatHistory', 'settings', 'promptTemplates', 'images']),
+  id: z.string(),
+  reason: z.string()
+})
+
+export const RestoreReportSchema = z.object({
+  completed: z.boolean(),
+  conversations: z.number().int(),
+  messages: z.number().int(),
+  promptTemplates: z.number().int(),
+  images: z.number().int(),
+  settingsRestored: z.boolean(),
+  rejected: z.array(RestoreRejectionSchema)
+})
+
+/**
+ * One-line summary of validation issues, e.g. "role: Invalid enum value; timestamp: Required"
+ */
+export const formatValidationIssues = (error: z.ZodError): string =>
+  error.issues.map(issue => `${issue.path.join('.') || 'record'}: ${issue.message}`).join('; ')
+
+/**
+ * Best available label of a raw record for reports: its id or hash, else its 1-based position
+ */
+export const getRecordLabel = (record: unknown, index: number): string => {
+  if (record && typeof record === 'object') {
+    const { id, hash } = record as Record<string, unknown>
+    const key = id ?? hash
+    if (typeof key === 'string' && key) return key
+  }
+  return `#${index + 1}`
+}
 
 // Type inference helpers
 export type ChatMessageValidated = z.infer<typeof ChatMessageSchema>
+export type AnalysisRequestValidated = z.infer<typeof AnalysisRequestSchema>
+export type StoredConversationValidated = z.infer<typeof StoredConversationSchema>
 export type WindowStateValidated = z.infer<typeof WindowStateSchema>
 export type SettingsValidated = z.infer<typeof SettingsSchema>
+export type PromptTemplateValidated = z.infer<typeof PromptTemplateSchema>
+export type QueuedAnalysisValidated = z.infer<typeof QueuedAnalysisSchema>
 
 // Validation helper functions
 export const validateChatHistory = (data: unknown): ChatMessageValidated[] => {
@@ -41,6 +415,15 @@ export const validateChatHistory = (data: unknown): ChatMessageValidated[] => {
   return result.data
 }
 
+export const validateStoredConversations = (data: unknown): StoredConversationValidated[] => {
+  const result = StoredConversationListSchema.safeParse(data)
+  if (!result.success) {
+    console.error('Conversations validation failed:', result.error)
+    return []
+  }
+  return result.data
+}
+
 export const validateWindowState = (data: unknown): WindowStateValidated | undefined => {
   const result = WindowStateSchema.safeParse(data)
   if (!result.success) {
@@ -54,7 +437,32 @@ export const validateSettings = (data: unknown): SettingsValidated => {
   const result = SettingsSchema.safeParse(data)
   if (!result.success) {
     console.error('Settings validation failed:', result.error)
-    return {}
+    return DEFAULT_SETTINGS
   }
   return result.data
-}
\ No newline at end of file
+}
+
+export const validatePromptTemplates = (data: unknown): PromptTemplateValidated[] => {
+  const result = PromptTemplateListSchema.safeParse(data)
+  if (!result.success) {
+    console.error('Prompt templates validation failed:', result.error)
+    return []
+  }
+  return result.data
+}
+
+// Jobs are checked one by one so a single bad job doesn't empty the queue
+export const validateAnalysisQueue = (data: unknown): QueuedAnalysisValidated[] => {
+  if (!Array.isArray(data)) {
+    console.error('Analysis queue validation failed: expected a list')
+    return []
+  }
+  return data.flatMap((job, index) => {
+    const result = QueuedAnalysisSchema.safeParse(job)
+    if (!result.success) {
+      console.error(`Queued analysis ${getRecordLabel(job, index)} failed validation:`, formatValidationIssues(result.error))
+      return []
+    }
+    return [result.data]
+  })
+}
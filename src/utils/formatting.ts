@@ -0,0 +1,54 @@
+// Formatting utilities shared by the main and renderer processes
+import { ONE_MINUTE_MS, ONE_HOUR_MS, ONE_DAY_MS, ONE_WEEK_MS } from '../config/constants'
+
+/**
+ * Format Unix timestamp to readable format
+ * @param timestamp - Time to format
+ * @param now - Reference time for relative values such as "5 minutes ago"
+ */
+export const formatTimestamp = (timestamp: number, now = Date.now()): string => {
+  const diff = now - timestamp
+  const date = new Date(timestamp)
+
+  // Less than 1 minute
+  if (diff < ONE_MINUTE_MS) {
+    return 'Just now'
+  }
+
+  // Less than 1 hour
+  if (diff < ONE_HOUR_MS) {
+    const minutes = Math.floor(diff / ONE_MINUTE_MS)
+    return `${minutes} minute${minutes === 1 ? '' : 's'} ago`
+  }
+
+  // Less than 24 hours
+  if (diff < ONE_DAY_MS) {
+    const hours = Math.floor(diff / ONE_HOUR_MS)
+    return `${hours} hour${hours === 1 ? '' : 's'} ago`
+  }
+
+  // Less than 7 days
+  if (diff < ONE_WEEK_MS) {
+    const days = Math.floor(diff / ONE_DAY_MS)
+    return `${days} day${days === 1 ? '' : 's'} ago`
+  }
+
+  // More than 7 days - show actual date
+  const today = new Date(now)
+  const isThisYear = date.getFullYear() === today.getFullYear()
+
+  if (isThisYear) {
+    return date.toLocaleDateString('en-US', { 
+      month: 'short', 
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit'
+    })
+  } else {
+    return date.toLocaleDateString('en-US', { 
+      year: 'numeric',
+      month: 'short', 
+      day: 'numeric'
+    })
+  }
+}
@@ -1,5 +1,6 @@
 // Server-side validation utilities for security hardening
-import { ALLOWED_IMAGE_TYPES, BASE64_PADDING_DIVISOR } from '../config/constants'
+import { ALLOWED_IMAGE_TYPES, BASE64_PADDING_DIVISOR, CONVERTED_IMAGE_TYPES } from '../config/constants'
+import type { ImageAttachment } from '../types/electron'
 
 /**
  * Validate base64 string format
@@ -32,6 +33,26 @@ export const validateMimeType = (mimeType: string): boolean => {
   return ALLOWED_IMAGE_TYPES.includes(mimeType.toLowerCase() as any)
 }
 
+/**
+ * Check whether an allowed MIME type has to be converted before the model can take it
+ * @param mimeType - MIME type to check
+ * @returns true for formats such as TIFF, HEIC or SVG, false for formats sent as they are
+ */
+export const isConvertedImageType = (mimeType: string): boolean => {
+  return CONVERTED_IMAGE_TYPES.includes(mimeType.toLowerCase() as any)
+}
+
+/**
+ * Hash of the stored image to show for an attachment
+ *
+ * Converted formats show the copy sent to the model, since browsers can't display every one of them (e.g. TIFF or HEIC)
+ * @param attachment - Stored attachment
+ * @returns Hash of the converted copy for converted formats, else of the original
+ */
+export const getDisplayImageHash = (attachment: ImageAttachment): string => {
+  return attachment.processed && isConvertedImageType(attachment.mimeType) ? attachment.processed.hash : attachment.hash
+}
+
 /**
  * Combined validation for image data
  * @param imageBase64 - Base64 encoded image data